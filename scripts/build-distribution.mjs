@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+/**
+ * Build a claims distribution from a holder snapshot.
+ *
+ * Takes the holders of a token at the snapshot block (the JSON from
+ * `/api/holder-snapshot/<token>?block=<n>`, any JSON array of
+ * `{ address, balance }` such as the subgraph's `tokenHolders`, or an
+ * `address,balance` CSV) and a total payout, splits the payout pro rata and
+ * writes the `index,address,amount` CSV to pin. It prints the merkle root to
+ * commit to in the claim order, the CID IPFS will assign the CSV when pinned as
+ * a raw CIDv1 leaf, and the `Claim` entry to add to the energy fields before
+ * signing the manifest (scripts/sign-claims-manifest.mjs).
+ *
+ * Leaves are built exactly as getLeaf in src/lib/utils/claims.ts: `float` for
+ * OrderBook v6 orders, `int18` for legacy v4 ones.
+ *
+ * Usage:
+ *   node scripts/build-distribution.mjs \
+ *     --total 12500.50 \
+ *     --out rewards-2026-07.csv \
+ *     [--encoding float|int18] \
+ *     [--exclude 0xIssuer,0xVault] \
+ *     [--order-hash 0x… --orderbook 0x… --deploy-block 123 --order-bytes-file order.hex] \
+ *     [--claim-out claim.json] \
+ *     path/to/holders.json
+ *
+ * `--total` is the payout in whole units (18-decimal, like the CSV amounts).
+ * Re-run with the order fields once the order is deployed to get the complete
+ * entry; the CSV, root and CID do not change.
+ *
+ * Pinning: the printed CID is only what IPFS assigns to a CIDv1 raw leaf, so
+ * pin the CSV with `ipfs add --cid-version=1 --raw-leaves <csv>` (Pinata:
+ * `pinataOptions: { cidVersion: 1 }`) and check the returned CID matches
+ * before using it. A CSV larger than one chunk (256 KiB, roughly 3k rows)
+ * can't be a single raw leaf; the script refuses to build one.
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseUnits } from "viem";
+import {
+  allocatePayout,
+  claimEntry,
+  csvCid,
+  distributionCsv,
+  merkleRoot,
+  toCsvRows,
+} from "./lib/distribution.mjs";
+
+function fail(msg) {
+  console.error(`error: ${msg}`);
+  process.exit(1);
+}
+
+// --- args ------------------------------------------------------------------
+const args = process.argv.slice(2);
+let total = null;
+let outPath = null;
+let encoding = "float";
+let exclude = [];
+let orderHash;
+let orderbook;
+let deployBlock;
+let orderBytesPath = null;
+let claimOutPath = null;
+let holdersPath = null;
+for (let i = 0; i < args.length; i += 1) {
+  if (args[i] === "--total") total = args[++i];
+  else if (args[i] === "--out") outPath = args[++i];
+  else if (args[i] === "--encoding") encoding = args[++i];
+  else if (args[i] === "--exclude") exclude = args[++i].split(",");
+  else if (args[i] === "--order-hash") orderHash = args[++i];
+  else if (args[i] === "--orderbook") orderbook = args[++i];
+  else if (args[i] === "--deploy-block") deployBlock = Number(args[++i]);
+  else if (args[i] === "--order-bytes-file") orderBytesPath = args[++i];
+  else if (args[i] === "--claim-out") claimOutPath = args[++i];
+  else holdersPath = args[i];
+}
+if (!total) fail("--total <payout amount> is required");
+if (!outPath) fail("--out <file> is required");
+if (encoding !== "float" && encoding !== "int18") {
+  fail("--encoding must be float (v6) or int18 (v4)");
+}
+if (deployBlock !== undefined && !Number.isInteger(deployBlock)) {
+  fail("--deploy-block must be an integer");
+}
+if (orderHash && !/^0x[0-9a-fA-F]{64}$/.test(orderHash)) {
+  fail("--order-hash must be a 32-byte hex string");
+}
+if (!holdersPath) fail("path to the holders JSON or CSV is required");
+
+let totalWei;
+try {
+  totalWei = parseUnits(total, 18);
+} catch {
+  fail(`--total is not a number: ${total}`);
+}
+
+// --- holders ---------------------------------------------------------------
+function readHolders(path) {
+  const text = readFileSync(path, "utf8");
+  if (path.endsWith(".json")) {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed?.holders ?? parsed?.tokenHolders);
+    if (!Array.isArray(list)) {
+      fail(
+        "holders JSON must be an array, a holder snapshot or { tokenHolders }",
+      );
+    }
+    return list.map((h) => ({ address: h.address, balance: h.balance }));
+  }
+  // address,balance CSV; a header row is skipped because it has no address.
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.split(",").map((v) => v.trim()))
+    .filter(([address]) => /^0x[0-9a-fA-F]{40}$/.test(address ?? ""))
+    .map(([address, balance]) => ({ address, balance }));
+}
+
+let rows;
+try {
+  rows = toCsvRows(
+    allocatePayout(readHolders(holdersPath), totalWei, { exclude }),
+  );
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
+
+// --- build -----------------------------------------------------------------
+const bytes = new TextEncoder().encode(distributionCsv(rows));
+let cid;
+try {
+  cid = await csvCid(bytes);
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
+writeFileSync(outPath, bytes);
+
+const root = merkleRoot(rows, encoding);
+const orderBytes = orderBytesPath
+  ? readFileSync(orderBytesPath, "utf8").trim()
+  : undefined;
+const claim = claimEntry({
+  cid,
+  root,
+  orderHash,
+  orderbook,
+  orderBytes,
+  deployBlock,
+});
+if (claimOutPath)
+  writeFileSync(claimOutPath, `${JSON.stringify(claim, null, 2)}\n`);
+
+console.log(`rows:     ${rows.length} (total ${total}, ${encoding} leaves)`);
+console.log(`wrote:    ${outPath} (${bytes.length} bytes)`);
+console.log(`root:     ${root}`);
+console.log(`cid:      ${cid}`);
+console.log(JSON.stringify(claim, null, 2));
+if (!orderHash) {
+  console.log(
+    "Deploy the claim order with this root, then re-run with --order-hash (and --orderbook/--deploy-block/--order-bytes-file) for the complete entry.",
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * Pure helpers for building a claims distribution: pro-rata payout rows, the
+ * `index,address,amount` CSV, merkle leaves/root and the `Claim` entry for the
+ * manifest.
+ *
+ * The leaf encoding MUST stay identical to getLeaf / getMerkleTree in
+ * src/lib/utils/claims.ts (and the Float words in src/lib/utils/float.ts):
+ *   v6 (float): leaf = Float(index,0) || address || Float(amount,18)
+ *   v4 (int18): leaf = index || address || amount_wei
+ * src/lib/utils/claims.distributionScript.test.ts cross-checks both.
+ */
+import { SimpleMerkleTree } from "@openzeppelin/merkle-tree";
+import { Float } from "@rainlanguage/orderbook";
+import { CID } from "multiformats/cid";
+import { sha256 } from "multiformats/hashes/sha2";
+import * as raw from "multiformats/codecs/raw";
+import { getAddress, isAddress, keccak256 } from "viem";
+
+export const CSV_HEADER = "index,address,amount";
+export const IPFS_GATEWAY_PATH = "/api/ipfs";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Same unwrapping as float.ts: the WASM bindings return the Float directly or
+// wrapped in `{ value }` / `{ float }`.
+function floatWord(value, decimals) {
+  const r = Float.fromFixedDecimalLossy(value, decimals);
+  const f =
+    typeof r?.asHex === "function"
+      ? r
+      : typeof r?.value?.asHex === "function"
+        ? r.value
+        : typeof r?.float?.asHex === "function"
+          ? r.float
+          : null;
+  if (!f) throw new Error("Unexpected Float result shape");
+  const hex = f.asHex();
+  return BigInt(typeof hex === "string" ? hex : hex.value);
+}
+
+/**
+ * Split `totalWei` across holders in proportion to their balances.
+ *
+ * Each share is floored and the leftover wei go one each to the largest
+ * remainders (ties by address), so the rows always sum to exactly `totalWei`.
+ * Duplicate addresses are merged, `exclude` (e.g. the issuer or a vault) and
+ * the zero address are dropped, and zero-amount rows are omitted. Rows come
+ * back sorted by address so the same input always yields the same CSV.
+ *
+ * @param {Array<{ address: string, balance: string | bigint }>} holders
+ * @param {bigint} totalWei
+ * @param {{ exclude?: string[] }} [options]
+ * @returns {Array<{ address: string, amount: bigint }>}
+ */
+export function allocatePayout(holders, totalWei, { exclude = [] } = {}) {
+  if (totalWei <= 0n) throw new Error("total payout must be positive");
+  const excluded = new Set(
+    [ZERO_ADDRESS, ...exclude].map((a) => a.toLowerCase()),
+  );
+  const balances = new Map();
+  for (const holder of holders) {
+    if (!isAddress(holder.address, { strict: false })) {
+      throw new Error(`invalid holder address: ${holder.address}`);
+    }
+    const key = holder.address.toLowerCase();
+    if (excluded.has(key)) continue;
+    const balance = BigInt(holder.balance);
+    if (balance < 0n) throw new Error(`negative balance for ${holder.address}`);
+    balances.set(key, (balances.get(key) ?? 0n) + balance);
+  }
+
+  const entries = [...balances.entries()]
+    .filter(([, balance]) => balance > 0n)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const supply = entries.reduce((sum, [, balance]) => sum + balance, 0n);
+  if (supply === 0n) throw new Error("no holders with a positive balance");
+
+  const shares = entries.map(([address, balance]) => ({
+    address,
+    amount: (totalWei * balance) / supply,
+    remainder: (totalWei * balance) % supply,
+  }));
+  let leftover =
+    totalWei - shares.reduce((sum, share) => sum + share.amount, 0n);
+  const byRemainder = [...shares].sort((a, b) =>
+    a.remainder === b.remainder
+      ? a.address < b.address
+        ? -1
+        : 1
+      : a.remainder > b.remainder
+        ? -1
+        : 1,
+  );
+  for (const share of byRemainder) {
+    if (leftover === 0n) break;
+    share.amount += 1n;
+    leftover -= 1n;
+  }
+
+  return shares
+    .filter((share) => share.amount > 0n)
+    .map((share) => ({
+      address: getAddress(share.address),
+      amount: share.amount,
+    }));
+}
+
+/**
+ * Number the rows from 0 in order, as the CSV and the leaves expect.
+ *
+ * @param {Array<{ address: string, amount: bigint }>} allocations
+ * @returns {Array<{ index: string, address: string, amount: string }>}
+ */
+export function toCsvRows(allocations) {
+  return allocations.map((row, i) => ({
+    index: String(i),
+    address: row.address,
+    amount: row.amount.toString(),
+  }));
+}
+
+/** The distribution CSV text (amounts in 18-decimal wei). */
+export function distributionCsv(rows) {
+  const lines = rows.map((row) => `${row.index},${row.address},${row.amount}`);
+  return `${[CSV_HEADER, ...lines].join("\n")}\n`;
+}
+
+/** Mirror of getLeaf in src/lib/utils/claims.ts. */
+export function leafFor(index, address, amount, encoding = "float") {
+  const rawIndex = BigInt(index);
+  const amountWei = BigInt(amount);
+  const words = [
+    encoding === "float" ? floatWord(rawIndex, 0) : rawIndex,
+    BigInt(address),
+    encoding === "float" ? floatWord(amountWei, 18) : amountWei,
+  ];
+  return keccak256(
+    `0x${words.map((w) => w.toString(16).padStart(64, "0")).join("")}`,
+  );
+}
+
+/** Mirror of getMerkleTree(rows, encoding).root. */
+export function merkleRoot(rows, encoding = "float") {
+  return SimpleMerkleTree.of(
+    rows.map((row) => leafFor(row.index, row.address, row.amount, encoding)),
+  ).root;
+}
+
+/**
+ * IPFS's default chunk size. A file up to this size pinned with
+ * `--cid-version=1 --raw-leaves` is a single raw block, whose CID is the
+ * sha-256 of the bytes; anything larger becomes a dag-pb root.
+ */
+export const IPFS_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * CID IPFS assigns the CSV bytes when pinned as a raw CIDv1 leaf. Throws when
+ * the CSV doesn't fit in one chunk: IPFS would pin it under a dag-pb root CID
+ * that doesn't match, and verifyCid (raw CIDs only) would reject every claim.
+ */
+export async function csvCid(bytes) {
+  if (bytes.length > IPFS_CHUNK_SIZE) {
+    throw new Error(
+      `CSV is ${bytes.length} bytes, over one IPFS chunk (${IPFS_CHUNK_SIZE} bytes). ` +
+        "IPFS would pin it as a dag-pb root that claims can't verify; split the payout into smaller distributions.",
+    );
+  }
+  // Same realm normalisation as cidVerify.ts (jsdom hands over foreign arrays).
+  const input = new Uint8Array(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength,
+  );
+  return CID.create(1, raw.code, await sha256.digest(input)).toString();
+}
+
+/**
+ * The `Claim` entry for the manifest (src/lib/network.ts). `orderHash` is only
+ * known once the claim order committing to `root` is deployed, so it is left
+ * out until the caller has it.
+ *
+ * @param {{ cid: string, root: string, orderHash?: string, orderbook?: string,
+ *   orderBytes?: string, deployBlock?: number }} entry
+ */
+export function claimEntry({
+  cid,
+  root,
+  orderHash,
+  orderbook,
+  orderBytes,
+  deployBlock,
+}) {
+  return {
+    ...(orderHash ? { orderHash } : {}),
+    csvLink: `${IPFS_GATEWAY_PATH}/${cid}`,
+    expectedMerkleRoot: root,
+    expectedContentHash: cid,
+    ...(orderBytes ? { orderBytes } : {}),
+    ...(deployBlock !== undefined ? { deployBlock } : {}),
+    ...(orderbook ? { orderbook } : {}),
+  };
+}
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+/**
+ * Sign a runtime claims manifest.
+ *
+ * Takes a JSON file holding the `EnergyField[]` tree (the same shape as
+ * PROD_ENERGY_FIELDS in src/lib/network.ts), wraps it in a manifest document,
+ * signs it with a manifest signer key and writes the exact bytes to pin. The
+ * printed CID is what IPFS will assign the file when pinned as a raw CIDv1
+ * leaf; POST it to /api/claims-manifest once pinned to make it current.
+ *
+ * The signed message MUST stay byte-identical to buildClaimsManifestMessage
+ * in src/lib/utils/claimsManifest.ts.
+ *
+ * Usage:
+ *   node scripts/sign-claims-manifest.mjs \
+ *     --version 7 \
+ *     --out manifest-v7.json \
+ *     path/to/energy-fields.json
+ *
+ * Env:
+ *   CLAIMS_MANIFEST_SIGNER_KEY  private key of an address listed in
+ *                               PUBLIC_CLAIMS_MANIFEST_SIGNERS
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { Wallet, keccak256, toUtf8Bytes } from "ethers";
+import { CID } from "multiformats/cid";
+import { sha256 } from "multiformats/hashes/sha2";
+import * as raw from "multiformats/codecs/raw";
+
+const SCHEMA_VERSION = 1;
+
+function fail(msg) {
+  console.error(`error: ${msg}`);
+  process.exit(1);
+}
+
+// --- args ------------------------------------------------------------------
+const args = process.argv.slice(2);
+let version = null;
+let outPath = null;
+let fieldsPath = null;
+for (let i = 0; i < args.length; i += 1) {
+  if (args[i] === "--version") version = Number(args[++i]);
+  else if (args[i] === "--out") outPath = args[++i];
+  else fieldsPath = args[i];
+}
+if (!Number.isInteger(version) || version < 1) {
+  fail("--version <positive integer> is required");
+}
+if (!outPath) fail("--out <file> is required");
+if (!fieldsPath) fail("path to the energy fields JSON is required");
+
+const key = process.env.CLAIMS_MANIFEST_SIGNER_KEY;
+if (!key) fail("CLAIMS_MANIFEST_SIGNER_KEY is not set");
+
+// --- sign ------------------------------------------------------------------
+const energyFields = JSON.parse(readFileSync(fieldsPath, "utf8"));
+if (!Array.isArray(energyFields)) fail("energy fields must be a JSON array");
+
+const issuedAt = new Date().toISOString();
+const message = [
+  `Albion claims manifest v${SCHEMA_VERSION}`,
+  `Version: ${version}`,
+  `Issued: ${issuedAt}`,
+  `Fields: ${keccak256(toUtf8Bytes(JSON.stringify(energyFields)))}`,
+].join("\n");
+
+const wallet = new Wallet(key);
+const signature = await wallet.signMessage(message);
+
+const manifest = {
+  schema: SCHEMA_VERSION,
+  version,
+  issuedAt,
+  energyFields,
+  signature,
+};
+const bytes = new TextEncoder().encode(JSON.stringify(manifest));
+writeFileSync(outPath, bytes);
+
+const cid = CID.create(1, raw.code, await sha256.digest(bytes)).toString();
+console.log(`signer:  ${wallet.address}`);
+console.log(`wrote:   ${outPath} (${bytes.length} bytes)`);
+console.log(`cid:     ${cid}`);
+console.log(
+  "Pin the file as a raw CIDv1 leaf, then POST { cid } to /api/claims-manifest.",
+);
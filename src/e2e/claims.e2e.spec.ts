@@ -1,4 +1,4 @@
-import { render } from "@testing-library/svelte/svelte5";
+import { render, fireEvent } from "@testing-library/svelte/svelte5";
 import { vi, describe, it, expect, beforeEach, afterEach } from "vitest";
 import type { Navigation, Page } from "@sveltejs/kit";
 import ClaimsPage from "../routes/(main)/claims/+page.svelte";
@@ -303,6 +303,23 @@ describe("Claims Page E2E Tests", () => {
       expect(bodyText).toMatch(/Ready|Available/i);
     });
 
+    it("lets the user pick individual payouts and shows the selected total", async () => {
+      const { getAllByText, getAllByRole, findByText } = render(ClaimsPage);
+
+      await waitForClaimsLoaded();
+      await fireEvent.click(getAllByText("Choose payouts")[0]);
+
+      // One checkbox per payout row plus the per-asset "Select all".
+      const boxes = getAllByRole("checkbox");
+      expect(boxes.length).toBe(5);
+
+      await fireEvent.click(boxes[1]);
+      expect(await findByText(/Claim Selected \(1 · .*347\.76\)/)).toBeTruthy();
+
+      await fireEvent.click(boxes[0]);
+      expect(await findByText(/Claim Selected \(4 · .*1,?108\.6/)).toBeTruthy();
+    });
+
     it("displays gas estimate for claims", async () => {
       render(ClaimsPage);
 
@@ -23,6 +23,7 @@ export { default as Modal } from "./Modal.svelte";
 export { default as PageHeader } from "./PageHeader.svelte";
 export { default as PayoutAlertsCard } from "./PayoutAlertsCard.svelte";
 export { default as PieChart } from "./PieChart.svelte";
+export { default as PortfolioWalletsPanel } from "./PortfolioWalletsPanel.svelte";
 export { default as PrimaryButton } from "./PrimaryButton.svelte";
 export { default as RadioGroup } from "./RadioGroup.svelte";
 export { default as Radio } from "./Radio.svelte";
@@ -33,4 +34,6 @@ export { default as StatusBadge } from "./StatusBadge.svelte";
 export { default as TabButton } from "./TabButton.svelte";
 export { default as TableRow } from "./TableRow.svelte";
 export { default as TabNavigation } from "./TabNavigation.svelte";
+export { default as TaxReportPanel } from "./TaxReportPanel.svelte";
 export { default as TextBlock } from "./TextBlock.svelte";
+export { default as TransactionPreview } from "./TransactionPreview.svelte";
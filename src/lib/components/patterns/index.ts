@@ -2,3 +2,4 @@
 export { default as AssetCard } from "./assets/AssetCard.svelte";
 export { default as FeaturedTokenCarousel } from "./carousel/FeaturedTokenCarousel.svelte";
 export { default as TokenPurchaseWidget } from "./TokenPurchaseWidget.svelte";
+export { default as TokenTransferForm } from "./TokenTransferForm.svelte";
@@ -8,17 +8,20 @@ import { sfts, sftMetadata } from "$lib/stores";
 import { formatEther } from "viem";
 import { formatSmartNumber } from "$lib/utils/formatters";
 import { decodeSftInformation } from "$lib/decodeMetadata/helpers";
-import { ENERGY_FIELDS } from "$lib/network";
+import { energyFields, loadClaimsManifest } from "$lib/utils/claimsManifest";
 import type { PinnedMetadata } from "$lib/types/PinnedMetadata";
 
 /**
  * Composable for platform statistics that uses sfts data
  */
 export function usePlatformStats() {
+  // Pick up a published runtime manifest; energyFields re-derives stats when it lands.
+  void loadClaimsManifest();
+
   // Return a derived store that calculates platform stats from sfts and metadata
   const platformStats = derived(
-    [sfts, sftMetadata],
-    ([$sfts, $sftMetadata]) => {
+    [sfts, sftMetadata, energyFields],
+    ([$sfts, $sftMetadata, $energyFields]) => {
       if (!$sfts || $sfts.length === 0 || !$sftMetadata) {
         return {
           loading: true,
@@ -32,9 +35,9 @@ export function usePlatformStats() {
       }
 
       try {
-        // Get list of valid token addresses from ENERGY_FIELDS
+        // Get list of valid token addresses from the active energy fields
         const validTokenAddresses = new Set<string>();
-        for (const field of ENERGY_FIELDS) {
+        for (const field of $energyFields) {
           for (const tokenInfo of field.sftTokens) {
             validTokenAddresses.add(tokenInfo.address.toLowerCase());
           }
@@ -69,7 +72,7 @@ export function usePlatformStats() {
         const totalTokenHolders = uniqueHolders.size;
 
         // Use ENERGY_FIELDS as canonical source for asset counting
-        const totalAssets = ENERGY_FIELDS.length;
+        const totalAssets = $energyFields.length;
 
         // Decode metadata to get country information
         const decodedMeta = $sftMetadata
@@ -78,7 +81,7 @@ export function usePlatformStats() {
         const countries = new Set<string>();
 
         // Only process tokens that are in ENERGY_FIELDS
-        for (const field of ENERGY_FIELDS) {
+        for (const field of $energyFields) {
           for (const tokenInfo of field.sftTokens) {
             const tokenAddress = tokenInfo.address.toLowerCase();
             const sft = $sfts.find((s) => s.id.toLowerCase() === tokenAddress);
@@ -106,7 +109,7 @@ export function usePlatformStats() {
         let totalInvested = 0;
 
         // Only count tokens that are in ENERGY_FIELDS (active assets)
-        for (const field of ENERGY_FIELDS) {
+        for (const field of $energyFields) {
           for (const tokenInfo of field.sftTokens) {
             const tokenAddress = tokenInfo.address.toLowerCase();
             const sft = $sfts.find((s) => s.id.toLowerCase() === tokenAddress);
@@ -4,7 +4,9 @@
 
 export { sftRepository } from "./sftRepository";
 export { claimsRepository, getTradesForClaims } from "./claimsRepository";
+export { marketRepository } from "./marketRepository";
 
 // Export types
 export type { SftRepository } from "./sftRepository";
 export type { ClaimsRepository } from "./claimsRepository";
+export type { MarketRepository, MarketOrderRecord } from "./marketRepository";
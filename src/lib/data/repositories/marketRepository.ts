@@ -0,0 +1,66 @@
+/**
+ * Market Repository - open Raindex orders trading a royalty token (v6 OrderBook)
+ */
+
+import { executeGraphQL } from "../clients/cachedGraphqlClient";
+import { BASE_ORDERBOOK_V6_SUBGRAPH_URLS } from "$lib/network";
+
+export type MarketOrderRecord = {
+  orderHash: string;
+  owner: string;
+  orderBytes: string;
+};
+
+type GetMarketOrdersResponse = {
+  sells: MarketOrderRecord[];
+  buys: MarketOrderRecord[];
+};
+
+// Quotes change with every fill; keep the subgraph side short-lived too.
+const MARKET_ORDERS_TTL_MS = 30 * 1000;
+
+export class MarketRepository {
+  /**
+   * Active orders with `tokenAddress` among their outputs (`sells`) or inputs
+   * (`buys`). Only the v6 OrderBook is queried: secondary-market orders are
+   * placed there, and the v4 book is claims-only legacy.
+   */
+  async getOpenOrdersForToken(
+    tokenAddress: string,
+  ): Promise<GetMarketOrdersResponse> {
+    const [primaryUrl, ...fallbackUrls] = BASE_ORDERBOOK_V6_SUBGRAPH_URLS;
+    if (!primaryUrl) return { sells: [], buys: [] };
+
+    const query = `
+      query GetMarketOrders($token: String!) {
+        sells: orders(
+          first: 100
+          where: { active: true, outputs_: { token_: { address: $token } } }
+        ) {
+          orderHash
+          owner
+          orderBytes
+        }
+        buys: orders(
+          first: 100
+          where: { active: true, inputs_: { token_: { address: $token } } }
+        ) {
+          orderHash
+          owner
+          orderBytes
+        }
+      }
+    `;
+
+    const data = await executeGraphQL<GetMarketOrdersResponse>(
+      primaryUrl,
+      query,
+      { token: tokenAddress.toLowerCase() },
+      { fallbackUrls, ttl: MARKET_ORDERS_TTL_MS },
+    );
+    return { sells: data?.sells ?? [], buys: data?.buys ?? [] };
+  }
+}
+
+// Export singleton instance
+export const marketRepository = new MarketRepository();
@@ -46,11 +46,41 @@ export class SftRepository {
    */
   private async getTokenHoldersForSft(
     sftId: string,
+  ): Promise<Array<{ address: string; balance: string }>> {
+    try {
+      return await this.fetchTokenHolderPages(sftId);
+    } catch (error) {
+      console.error(
+        `[SftRepository] Error fetching token holders for SFT ${sftId}:`,
+        error,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Token holders of an SFT as of `blockNumber`, via the subgraph's
+   * block-pinned (time-travel) query. Unlike the current-holders fetch this
+   * throws on failure: an empty list would read as "nobody held the token".
+   */
+  async getTokenHoldersAtBlock(
+    sftId: string,
+    blockNumber: number,
+  ): Promise<Array<{ address: string; balance: string }>> {
+    return this.fetchTokenHolderPages(sftId, blockNumber);
+  }
+
+  private async fetchTokenHolderPages(
+    sftId: string,
+    blockNumber?: number,
   ): Promise<Array<{ address: string; balance: string }>> {
     const [primaryUrl, ...fallbackUrls] = BASE_SFT_SUBGRAPH_URLS;
+    const blockArg =
+      blockNumber === undefined ? "" : ", block: { number: $block }";
+    const blockVar = blockNumber === undefined ? "" : ", $block: Int!";
     const query = `
-      query GetTokenHolders($sftId: String!, $first: Int!, $skip: Int!) {
-        offchainAssetReceiptVault(id: $sftId) {
+      query GetTokenHolders($sftId: String!, $first: Int!, $skip: Int!${blockVar}) {
+        offchainAssetReceiptVault(id: $sftId${blockArg}) {
           id
           tokenHolders(
             first: $first
@@ -70,51 +100,43 @@ export class SftRepository {
     let skip = 0;
     let hasMore = true;
 
-    try {
-      while (hasMore) {
-        const data = await executeGraphQL<{
-          offchainAssetReceiptVault?: {
-            id: string;
-            tokenHolders: Array<{ address: string; balance: string }>;
-          };
-        }>(
-          primaryUrl,
-          query,
-          {
-            sftId: sftId.toLowerCase(),
-            first: pageSize,
-            skip,
-          },
-          {
-            fallbackUrls,
-          },
-        );
+    while (hasMore) {
+      const data = await executeGraphQL<{
+        offchainAssetReceiptVault?: {
+          id: string;
+          tokenHolders: Array<{ address: string; balance: string }>;
+        };
+      }>(
+        primaryUrl,
+        query,
+        {
+          sftId: sftId.toLowerCase(),
+          first: pageSize,
+          skip,
+          ...(blockNumber === undefined ? {} : { block: blockNumber }),
+        },
+        {
+          fallbackUrls,
+        },
+      );
+
+      const tokenHolders = data?.offchainAssetReceiptVault?.tokenHolders || [];
 
-        const tokenHolders =
-          data?.offchainAssetReceiptVault?.tokenHolders || [];
+      if (tokenHolders.length === 0) {
+        hasMore = false;
+      } else {
+        allTokenHolders.push(...tokenHolders);
 
-        if (tokenHolders.length === 0) {
+        // If we got fewer results than the page size, we've reached the end
+        if (tokenHolders.length < pageSize) {
           hasMore = false;
         } else {
-          allTokenHolders.push(...tokenHolders);
-
-          // If we got fewer results than the page size, we've reached the end
-          if (tokenHolders.length < pageSize) {
-            hasMore = false;
-          } else {
-            skip += pageSize;
-          }
+          skip += pageSize;
         }
       }
-
-      return allTokenHolders;
-    } catch (error) {
-      console.error(
-        `[SftRepository] Error fetching token holders for SFT ${sftId}:`,
-        error,
-      );
-      return [];
     }
+
+    return allTokenHolders;
   }
 
   /**
@@ -332,6 +354,7 @@ export class SftRepository {
           caller { address }
           amount
           offchainAssetReceiptVault { id }
+          transaction { timestamp }
         }
       }
     `;
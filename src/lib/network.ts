@@ -45,6 +45,9 @@ export const BASE_METADATA_SUBGRAPH_URLS = [
 ].filter(isString);
 export const TARGET_NETWORK = "base";
 export const PINATA_GATEWAY = "/api/ipfs";
+/** Native USDC on Base (6 decimals): the payment token for purchases and payouts. */
+export const BASE_USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+export const BASE_USDC_DECIMALS = 6;
 export const ORDERBOOK_CONTRACT_ADDRESS =
   "0xd2938E7c9fe3597F78832CE780Feb61945c377d7";
 // New Raindex v6 OrderBook (Float era). This is a NEWER OrderBook than the old
@@ -121,6 +124,30 @@ export function getContextEventTopics(source: OrderbookSource): string[] {
     : [source.contextEventTopic];
 }
 
+/**
+ * Rain interpreter deployment used when a holder places a secondary-market sell
+ * order on the v6 OrderBook. Selling is hidden when any address is unset;
+ * browsing and taking existing orders works without it.
+ */
+export type RaindexOrderDeployment = {
+  /** Parser (or expression deployer) exposing `parse2(bytes)`. */
+  parser: `0x${string}`;
+  interpreter: `0x${string}`;
+  store: `0x${string}`;
+};
+
+export const RAINDEX_ORDER_DEPLOYMENT: RaindexOrderDeployment | null =
+  publicEnv.PUBLIC_RAINDEX_PARSER_ADDRESS &&
+  publicEnv.PUBLIC_RAINDEX_INTERPRETER_ADDRESS &&
+  publicEnv.PUBLIC_RAINDEX_STORE_ADDRESS
+    ? {
+        parser: publicEnv.PUBLIC_RAINDEX_PARSER_ADDRESS as `0x${string}`,
+        interpreter:
+          publicEnv.PUBLIC_RAINDEX_INTERPRETER_ADDRESS as `0x${string}`,
+        store: publicEnv.PUBLIC_RAINDEX_STORE_ADDRESS as `0x${string}`,
+      }
+    : null;
+
 /** All distinct subgraph URLs across every era (primary first), for merged queries. */
 export const ALL_ORDERBOOK_SUBGRAPH_URLS = Array.from(
   new Set(ORDERBOOK_SOURCES.flatMap((s) => s.subgraphUrls)),
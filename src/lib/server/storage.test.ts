@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("$env/dynamic/private", () => ({ env: {} }));
+
+const { head } = vi.hoisted(() => ({ head: vi.fn() }));
+vi.mock("@vercel/blob", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@vercel/blob")>()),
+  head,
+}));
+
+import {
+  fsStore,
+  getJson,
+  memoryStore,
+  putJson,
+  vercelBlobStore,
+  type KeyValueStore,
+} from "./storage";
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+async function mustGet(store: KeyValueStore, key: string) {
+  const stored = await store.get(key);
+  if (!stored) throw new Error(`expected ${key} to exist`);
+  return stored;
+}
+
+let dir = "";
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "storage-test-"));
+});
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// Both local backends must behave identically; the Vercel Blob one is a thin
+// mapping onto its SDK and is exercised in deployment, apart from its read
+// path below.
+const backends: [string, () => KeyValueStore][] = [
+  ["memoryStore", () => memoryStore()],
+  ["fsStore", () => fsStore(dir)],
+];
+
+describe.each(backends)("%s", (_name, make) => {
+  it("returns null for a missing key", async () => {
+    expect(await make().get("nope.json")).toBeNull();
+  });
+
+  it("round-trips bytes and content type", async () => {
+    const store = make();
+    const etag = await store.put("a/b.json", '{"x":1}', {
+      contentType: "application/json",
+    });
+    const stored = await mustGet(store, "a/b.json");
+    expect(text(stored.body)).toBe('{"x":1}');
+    expect(stored.contentType).toBe("application/json");
+    expect(stored.etag).toBe(etag);
+  });
+
+  it("defaults the content type to octet-stream", async () => {
+    const store = make();
+    await store.put("raw", new Uint8Array([1, 2, 3]));
+    expect((await mustGet(store, "raw")).contentType).toBe(
+      "application/octet-stream",
+    );
+  });
+
+  it("overwrites on put and changes the etag", async () => {
+    const store = make();
+    const first = await store.put("k", "one");
+    const second = await store.put("k", "two");
+    expect(second).not.toBe(first);
+    expect(text((await mustGet(store, "k")).body)).toBe("two");
+  });
+
+  it("lists keys by prefix", async () => {
+    const store = make();
+    await store.put("ipfs/a", "1");
+    await store.put("ipfs/nested/b", "2");
+    await store.put("claims-bundle/c.json", "3");
+    expect((await store.list("ipfs/")).sort()).toEqual([
+      "ipfs/a",
+      "ipfs/nested/b",
+    ]);
+    expect(await store.list("missing/")).toEqual([]);
+  });
+
+  describe("compareAndSwap", () => {
+    it("creates only when the key is absent (etag null)", async () => {
+      const store = make();
+      expect(await store.compareAndSwap("k", null, "one")).not.toBeNull();
+      expect(await store.compareAndSwap("k", null, "two")).toBeNull();
+      expect(text((await mustGet(store, "k")).body)).toBe("one");
+    });
+
+    it("writes when the etag matches and rejects a stale one", async () => {
+      const store = make();
+      const first = await store.put("k", "one");
+      const second = await store.compareAndSwap("k", first, "two");
+      expect(second).not.toBeNull();
+      expect(await store.compareAndSwap("k", first, "three")).toBeNull();
+      expect(text((await mustGet(store, "k")).body)).toBe("two");
+    });
+
+    it("lets exactly one of two concurrent writers win", async () => {
+      const store = make();
+      const etag = await store.put("k", "base");
+      const results = await Promise.all([
+        store.compareAndSwap("k", etag, "left"),
+        store.compareAndSwap("k", etag, "right"),
+      ]);
+      expect(results.filter((r) => r !== null)).toHaveLength(1);
+    });
+  });
+
+  it("getJson / putJson round-trip with the etag", async () => {
+    const store = make();
+    const etag = await putJson(store, "state.json", { links: { a: 1 } });
+    expect(await getJson(store, "state.json")).toEqual({
+      value: { links: { a: 1 } },
+      etag,
+    });
+    expect(await getJson(store, "absent.json")).toBeNull();
+  });
+});
+
+describe("fsStore", () => {
+  it("rejects keys that escape the root", async () => {
+    const store = fsStore(dir);
+    await expect(store.put("../escape", "x")).rejects.toThrow(
+      "Invalid storage key",
+    );
+    await expect(store.get("/etc/passwd")).rejects.toThrow(
+      "Invalid storage key",
+    );
+  });
+
+  it("keeps the metadata sidecar out of reads and listings", async () => {
+    const store = fsStore(dir);
+    await store.put("k.json", "{}", { contentType: "application/json" });
+    expect(await store.list("")).toEqual(["k.json"]);
+    await expect(store.get("k.json.__meta.json")).rejects.toThrow();
+  });
+
+  it("persists across instances on the same directory", async () => {
+    await fsStore(dir).put("k", "kept", { contentType: "text/plain" });
+    const stored = await mustGet(fsStore(dir), "k");
+    expect(text(stored.body)).toBe("kept");
+    expect(stored.contentType).toBe("text/plain");
+    expect(await readFile(join(dir, "k"), "utf8")).toBe("kept");
+  });
+});
+
+describe("vercelBlobStore get", () => {
+  const URL_ = "https://blob.example/state.json";
+  const blob = (body: string, etag: string) =>
+    new Response(body, { headers: { etag: `"${etag}"` } });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    head.mockReset();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("retries a stale CDN body until it matches head()'s etag", async () => {
+    head.mockResolvedValue({
+      url: URL_,
+      etag: "v2",
+      contentType: "text/plain",
+    });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(blob("old", "v1"))
+      .mockResolvedValueOnce(blob("new", "v2"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const read = vercelBlobStore().get("state.json");
+    await vi.runAllTimersAsync();
+    const stored = await read;
+    expect(stored && text(stored.body)).toBe("new");
+    expect(stored?.etag).toBe("v2");
+    expect(String(fetchMock.mock.calls[0][0])).toBe(`${URL_}?etag=v2`);
+  });
+
+  it("throws rather than pairing a stale body with the new etag", async () => {
+    head.mockResolvedValue({
+      url: URL_,
+      etag: "v2",
+      contentType: "text/plain",
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => blob("old", "v1")),
+    );
+
+    const read = vercelBlobStore().get("state.json");
+    const assertion = expect(read).rejects.toThrow(/etag mismatch/);
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+});
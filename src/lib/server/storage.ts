@@ -0,0 +1,367 @@
+/**
+ * Key-value storage behind every server-side cache and state file: the IPFS
+ * proxy, the Context-event scan cache, claims bundles, the claims-manifest
+ * pointer and the notifications state.
+ *
+ * Production runs on Vercel Blob. Self-hosted deployments use the local
+ * filesystem, and tests (or throwaway dev servers) use the in-memory store, so
+ * every cache path runs without Vercel. PRIVATE_STORAGE_BACKEND picks one:
+ * "vercel-blob" (default), "fs" (under PRIVATE_STORAGE_DIR, default ./.storage)
+ * or "memory".
+ *
+ * Values are opaque bytes plus a content type. Every read returns an etag, and
+ * `compareAndSwap` writes only if the key still has the etag the caller read,
+ * which is how read-modify-write state (link map, manifest pointer) avoids
+ * clobbering a concurrent writer.
+ */
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import {
+  BlobNotFoundError,
+  BlobPreconditionFailedError,
+  head,
+  list,
+  put,
+} from "@vercel/blob";
+import { env } from "$env/dynamic/private";
+
+export interface StoredValue {
+  body: Uint8Array;
+  contentType: string;
+  /** Opaque version tag for compareAndSwap. */
+  etag: string;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+export interface KeyValueStore {
+  /** Shown in logs. */
+  name: string;
+  /** Null when the key does not exist; throws when the backend fails. */
+  get(key: string): Promise<StoredValue | null>;
+  /** Create or overwrite. Returns the new etag. */
+  put(
+    key: string,
+    body: string | Uint8Array,
+    options?: PutOptions,
+  ): Promise<string>;
+  /** Every key starting with `prefix`, in no particular order. */
+  list(prefix: string): Promise<string[]>;
+  /**
+   * Write only if the key's current etag is `etag` (null: only if the key does
+   * not exist yet). Returns the new etag, or null when another writer got there
+   * first — re-read and retry.
+   */
+  compareAndSwap(
+    key: string,
+    etag: string | null,
+    body: string | Uint8Array,
+    options?: PutOptions,
+  ): Promise<string | null>;
+}
+
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+function toBytes(body: string | Uint8Array): Uint8Array {
+  return typeof body === "string" ? new TextEncoder().encode(body) : body;
+}
+
+function etagOf(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+const STALE_READ_ATTEMPTS = 4;
+const STALE_READ_RETRY_MS = 250;
+
+/** Etags compare without quotes or a weak-validator prefix. */
+function sameEtag(header: string | null, etag: string): boolean {
+  const bare = (value: string) => value.replace(/^W\//, "").replace(/"/g, "");
+  return header !== null && bare(header) === bare(etag);
+}
+
+export function vercelBlobStore(): KeyValueStore {
+  const write = (
+    key: string,
+    body: string | Uint8Array,
+    options: PutOptions & { ifMatch?: string; allowOverwrite: boolean },
+  ) =>
+    put(key, typeof body === "string" ? body : Buffer.from(body), {
+      access: "public",
+      addRandomSuffix: false,
+      allowOverwrite: options.allowOverwrite,
+      ifMatch: options.ifMatch,
+      contentType: options.contentType,
+    });
+
+  return {
+    name: "Vercel Blob",
+
+    async get(key) {
+      // The etag comes from head() but the body from the CDN, which can keep
+      // serving the previous body for a while after an overwrite. A stale body
+      // paired with the new etag would let compareAndSwap succeed on a state
+      // the caller never saw, so only return a body whose etag matches.
+      for (let attempt = 1; ; attempt += 1) {
+        let meta;
+        try {
+          meta = await head(key);
+        } catch (error) {
+          if (error instanceof BlobNotFoundError) return null;
+          throw error;
+        }
+        // Versioned URL so a cache keyed on the URL misses after an overwrite.
+        const url = new URL(meta.url);
+        url.searchParams.set("etag", meta.etag);
+        const response = await fetch(url, { cache: "no-store" });
+        if (response.status === 404) return null;
+        if (!response.ok) {
+          throw new Error(`Blob read ${key}: ${response.status}`);
+        }
+        if (sameEtag(response.headers.get("etag"), meta.etag)) {
+          return {
+            body: new Uint8Array(await response.arrayBuffer()),
+            contentType:
+              meta.contentType ||
+              response.headers.get("content-type") ||
+              DEFAULT_CONTENT_TYPE,
+            etag: meta.etag,
+          };
+        }
+        await response.body?.cancel();
+        if (attempt >= STALE_READ_ATTEMPTS) {
+          throw new Error(`Blob read ${key}: stale copy (etag mismatch)`);
+        }
+        await new Promise((r) => setTimeout(r, STALE_READ_RETRY_MS * attempt));
+      }
+    },
+
+    async put(key, body, options = {}) {
+      return (await write(key, body, { ...options, allowOverwrite: true }))
+        .etag;
+    },
+
+    async list(prefix) {
+      const keys: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await list({ prefix, cursor });
+        keys.push(...page.blobs.map((blob) => blob.pathname));
+        cursor = page.hasMore ? page.cursor : undefined;
+      } while (cursor);
+      return keys;
+    },
+
+    async compareAndSwap(key, etag, body, options = {}) {
+      try {
+        const result = etag
+          ? await write(key, body, {
+              ...options,
+              allowOverwrite: true,
+              ifMatch: etag,
+            })
+          : await write(key, body, { ...options, allowOverwrite: false });
+        return result.etag;
+      } catch (error) {
+        if (error instanceof BlobPreconditionFailedError) return null;
+        // Create-only writes fail generically when the key exists.
+        if (!etag && (await head(key).catch(() => null))) return null;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Files under `root`, with the content type in a sidecar file. Writes from one
+ * process are serialised, which makes compareAndSwap atomic for a single
+ * self-hosted instance (not across processes sharing the directory).
+ */
+export function fsStore(root: string): KeyValueStore {
+  const base = resolve(root);
+  const META_SUFFIX = ".__meta.json";
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function pathFor(key: string): string {
+    const path = resolve(base, key);
+    if (!path.startsWith(base + sep) || path.endsWith(META_SUFFIX)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async function read(key: string): Promise<StoredValue | null> {
+    const path = pathFor(key);
+    let body: Uint8Array;
+    try {
+      body = new Uint8Array(await readFile(path));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+    let contentType = DEFAULT_CONTENT_TYPE;
+    try {
+      const meta = JSON.parse(await readFile(path + META_SUFFIX, "utf8"));
+      if (typeof meta?.contentType === "string") contentType = meta.contentType;
+    } catch {
+      // no sidecar: written by hand
+    }
+    return { body, contentType, etag: etagOf(body) };
+  }
+
+  async function write(
+    key: string,
+    body: string | Uint8Array,
+    options: PutOptions,
+  ): Promise<string> {
+    const path = pathFor(key);
+    const bytes = toBytes(body);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, bytes);
+    await writeFile(
+      path + META_SUFFIX,
+      JSON.stringify({
+        contentType: options.contentType ?? DEFAULT_CONTENT_TYPE,
+      }),
+    );
+    return etagOf(bytes);
+  }
+
+  function serialised<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  }
+
+  async function walk(dir: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const nested = await Promise.all(
+      entries.map((entry) => {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) return walk(path);
+        return entry.name.endsWith(META_SUFFIX) ? [] : [path];
+      }),
+    );
+    return nested.flat();
+  }
+
+  return {
+    name: `filesystem (${base})`,
+    get: read,
+    put: (key, body, options = {}) =>
+      serialised(() => write(key, body, options)),
+    async list(prefix) {
+      return (await walk(base))
+        .map((path) => relative(base, path).split(sep).join("/"))
+        .filter((key) => key.startsWith(prefix));
+    },
+    compareAndSwap: (key, etag, body, options = {}) =>
+      serialised(async () => {
+        const current = await read(key);
+        if ((current?.etag ?? null) !== etag) return null;
+        return write(key, body, options);
+      }),
+  };
+}
+
+export function memoryStore(): KeyValueStore {
+  const values = new Map<string, StoredValue>();
+  const write = (
+    key: string,
+    body: string | Uint8Array,
+    options: PutOptions,
+  ) => {
+    const bytes = toBytes(body);
+    const etag = etagOf(bytes);
+    values.set(key, {
+      body: bytes,
+      contentType: options.contentType ?? DEFAULT_CONTENT_TYPE,
+      etag,
+    });
+    return etag;
+  };
+  return {
+    name: "in-memory",
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async put(key, body, options = {}) {
+      return write(key, body, options);
+    },
+    async list(prefix) {
+      return [...values.keys()].filter((key) => key.startsWith(prefix));
+    },
+    async compareAndSwap(key, etag, body, options = {}) {
+      if ((values.get(key)?.etag ?? null) !== etag) return null;
+      return write(key, body, options);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Configured store + JSON helpers
+// ---------------------------------------------------------------------------
+
+let configured: KeyValueStore | null = null;
+
+/** The deployment's store (PRIVATE_STORAGE_BACKEND), created once per instance. */
+export function storage(): KeyValueStore {
+  if (configured) return configured;
+  switch (env.PRIVATE_STORAGE_BACKEND) {
+    case "fs":
+      configured = fsStore(env.PRIVATE_STORAGE_DIR || ".storage");
+      break;
+    case "memory":
+      configured = memoryStore();
+      break;
+    default:
+      configured = vercelBlobStore();
+  }
+  return configured;
+}
+
+/** Parsed JSON and its etag, or null when absent. Throws on a failed read. */
+export async function getJson<T>(
+  store: KeyValueStore,
+  key: string,
+): Promise<{ value: T; etag: string } | null> {
+  const stored = await store.get(key);
+  if (!stored) return null;
+  return {
+    value: JSON.parse(new TextDecoder().decode(stored.body)) as T,
+    etag: stored.etag,
+  };
+}
+
+export function putJson(
+  store: KeyValueStore,
+  key: string,
+  value: unknown,
+): Promise<string> {
+  return store.put(key, JSON.stringify(value), {
+    contentType: "application/json",
+  });
+}
+
+/** compareAndSwap for a JSON value; null when another writer got there first. */
+export function casJson(
+  store: KeyValueStore,
+  key: string,
+  etag: string | null,
+  value: unknown,
+): Promise<string | null> {
+  return store.compareAndSwap(key, etag, JSON.stringify(value), {
+    contentType: "application/json",
+  });
+}
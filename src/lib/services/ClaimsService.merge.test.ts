@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  mergeClaimsResults,
+  type ClaimsHoldingsGroup,
+  type ClaimsResult,
+} from "./ClaimsService";
+
+const TOKEN = "0xAbC0000000000000000000000000000000000001";
+const OTHER = "0xdef0000000000000000000000000000000000002";
+
+function group(
+  tokenAddress: string,
+  ids: string[],
+  amount: number,
+): ClaimsHoldingsGroup {
+  return {
+    fieldName: "Field",
+    tokenAddress,
+    symbol: "SYM",
+    totalAmount: amount * ids.length,
+    holdings: ids.map((id) => ({ id, unclaimedAmount: amount })),
+  };
+}
+
+function result(partial: Partial<ClaimsResult>): ClaimsResult {
+  return {
+    holdings: [],
+    claimHistory: [],
+    totals: { earned: 0, claimed: 0, unclaimed: 0 },
+    hasCsvLoadError: false,
+    ...partial,
+  };
+}
+
+describe("mergeClaimsResults", () => {
+  it("merges holdings by token address across wallets", () => {
+    const merged = mergeClaimsResults([
+      {
+        address: "0xa",
+        result: result({ holdings: [group(TOKEN, ["1"], 5)] }),
+      },
+      {
+        address: "0xb",
+        result: result({
+          holdings: [
+            group(TOKEN.toLowerCase(), ["2"], 3),
+            group(OTHER, ["3"], 1),
+          ],
+        }),
+      },
+    ]);
+    expect(merged.holdings).toHaveLength(2);
+    expect(merged.holdings[0].totalAmount).toBe(8);
+    expect(merged.holdings[0].holdings.map((h) => h.id)).toEqual(["1", "2"]);
+    expect(merged.holdings[1].tokenAddress).toBe(OTHER);
+  });
+
+  it("tags history with its wallet and sums totals", () => {
+    const claim = {
+      date: "2025-01-01T00:00:00.000Z",
+      amount: "1",
+      asset: "A",
+      txHash: "0x1",
+      status: "completed",
+    };
+    const merged = mergeClaimsResults([
+      {
+        address: "0xa",
+        result: result({
+          claimHistory: [claim],
+          totals: { earned: 10, claimed: 1, unclaimed: 9 },
+        }),
+      },
+      {
+        address: "0xb",
+        result: result({
+          claimHistory: [{ ...claim, txHash: "0x2" }],
+          totals: { earned: 2, claimed: 2, unclaimed: 0 },
+          hasCsvLoadError: true,
+        }),
+      },
+    ]);
+    expect(merged.claimHistory.map((c) => c.wallet)).toEqual(["0xa", "0xb"]);
+    expect(merged.totals).toEqual({ earned: 12, claimed: 3, unclaimed: 9 });
+    expect(merged.hasCsvLoadError).toBe(true);
+  });
+
+  it("does not mutate the per-wallet results", () => {
+    const first = result({ holdings: [group(TOKEN, ["1"], 5)] });
+    mergeClaimsResults([
+      { address: "0xa", result: first },
+      {
+        address: "0xb",
+        result: result({ holdings: [group(TOKEN, ["2"], 3)] }),
+      },
+    ]);
+    expect(first.holdings[0].holdings).toHaveLength(1);
+    expect(first.holdings[0].totalAmount).toBe(5);
+  });
+});
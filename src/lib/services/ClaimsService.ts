@@ -3,7 +3,6 @@ import {
   type OrderDetail,
 } from "$lib/data/repositories/claimsRepository";
 import {
-  ENERGY_FIELDS,
   ORDERBOOK_SOURCES,
   ORDERBOOK_V6_CONTRACT_ADDRESS,
   getContextEventTopics,
@@ -12,6 +11,14 @@ import {
   type OrderbookSource,
 } from "$lib/network";
 import { getClaimsBundle } from "$lib/utils/claimsBundle";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
+import {
+  buildClaimOrderProofs,
+  fetchClaimProofs,
+  merkleTreeFor,
+  verifyClaimLeafProof,
+  type ClaimOrderProofs,
+} from "$lib/utils/claimProofs";
 import {
   fetchAndVerifyCSV,
   verifyAndParseCsvBytes,
@@ -105,10 +112,60 @@ export function allCidsBundled(
   return bundle.size > 0 && cids.every((cid) => bundle.has(cid));
 }
 
+/**
+ * Combine per-wallet claim results into one portfolio-wide result. Holdings
+ * groups are merged by token address (each holding keeps the signed context of
+ * the wallet it belongs to), history entries are tagged with their wallet, and
+ * totals are summed.
+ */
+export function mergeClaimsResults(
+  entries: Array<{ address: string; result: ClaimsResult }>,
+): ClaimsResult {
+  const holdings: ClaimsHoldingsGroup[] = [];
+  const claimHistory: ClaimHistory[] = [];
+  const totals = { earned: 0, claimed: 0, unclaimed: 0 };
+  let hasCsvLoadError = false;
+
+  for (const { address, result } of entries) {
+    for (const group of result.holdings) {
+      // Groups without a tokenAddress (the page treats it as optional) are
+      // kept separate rather than merged under "undefined".
+      const normalizedAddress = group.tokenAddress?.toLowerCase();
+      const existing = normalizedAddress
+        ? holdings.find(
+            (g) => g.tokenAddress?.toLowerCase() === normalizedAddress,
+          )
+        : undefined;
+      if (existing) {
+        existing.holdings = [...existing.holdings, ...group.holdings];
+        existing.totalAmount += group.totalAmount;
+      } else {
+        holdings.push({ ...group, holdings: [...group.holdings] });
+      }
+    }
+    for (const claim of result.claimHistory) {
+      claimHistory.push({ ...claim, wallet: claim.wallet ?? address });
+    }
+    totals.earned += result.totals.earned;
+    totals.claimed += result.totals.claimed;
+    totals.unclaimed += result.totals.unclaimed;
+    hasCsvLoadError ||= result.hasCsvLoadError;
+  }
+
+  return { holdings, claimHistory, totals, hasCsvLoadError };
+}
+
 export class ClaimsService {
   private csvCache = new Map<string, CsvClaimRow[]>();
   private repository = claimsRepository;
 
+  /**
+   * @param fetchFn - Transport for the manifest, bundle, CSV and Context-event
+   *   requests. Server routes pass `event.fetch` so the relative `/api/*` URLs
+   *   resolve in-process; the browser instance uses the global fetch/axios.
+   */
+  constructor(private readonly fetchFn?: typeof fetch) {}
+
   /**
    * Fetch and cache CSV data
    */
@@ -125,7 +182,7 @@ export class ClaimsService {
     // re-verified against the pinned CID here, so the bundle server is an
     // untrusted transport; any miss or verification failure falls back to the
     // unchanged per-CSV path.
-    const bundle = await getClaimsBundle();
+    const bundle = await getClaimsBundle(this.fetchFn);
     const bundled = bundle.get(expectedContentHash);
     if (bundled) {
       const data = await verifyAndParseCsvBytes(bundled, expectedContentHash);
@@ -135,7 +192,11 @@ export class ClaimsService {
       }
     }
 
-    const data = await fetchAndVerifyCSV(csvLink, expectedContentHash);
+    const data = await fetchAndVerifyCSV(
+      csvLink,
+      expectedContentHash,
+      this.fetchFn,
+    );
     if (data) {
       this.csvCache.set(csvLink, data);
     }
@@ -198,7 +259,9 @@ export class ClaimsService {
       claim: Claim;
     }[] = [];
 
-    for (const field of ENERGY_FIELDS) {
+    // Runtime manifest when a verified one is published, else the baked fields.
+    const energyFields = await loadClaimsManifest(this.fetchFn);
+    for (const field of energyFields) {
       for (const token of field.sftTokens) {
         if (!token.claims || token.claims.length === 0) continue;
         for (const claim of token.claims as Claim[]) {
@@ -222,7 +285,7 @@ export class ClaimsService {
     }
 
     // Phase 1: Resolve order details. Every claim carries a static order
-    // (orderBytes + deployBlock) baked into network.ts, so orders are resolved
+    // (orderBytes + deployBlock) in the claims manifest, so orders are resolved
     // entirely locally — no subgraph lookup.
     const ordersByHash = new Map<string, OrderDetail>();
     for (const { claim } of claimMetadata) {
@@ -285,6 +348,7 @@ export class ClaimsService {
             earliest,
             options?.refreshContextEvents ?? false,
             ownerAddress,
+            this.fetchFn,
           );
           logsByOb.set(ob, logs);
         }),
@@ -317,6 +381,13 @@ export class ClaimsService {
     let totalUnclaimed = 0;
     let csvLoadFailed = false;
 
+    // Pre-claim refresh: ask the server for this wallet's proofs so the phone
+    // doesn't hash whole distributions. Each proof is re-verified locally; an
+    // empty map (endpoint down) just means every tree is built here as before.
+    const serverProofs = options?.withProofs
+      ? await fetchClaimProofs(ownerAddress, this.fetchFn)
+      : new Map<string, ClaimOrderProofs>();
+
     const claimProcessors = claimMetadata.map(
       ({ fieldName, tokenAddress, symbol, claim }) =>
         () =>
@@ -330,6 +401,7 @@ export class ClaimsService {
             logsByOb,
             storedClaimTxHashes,
             options?.withProofs ?? false,
+            serverProofs.get(claim.orderHash.toLowerCase()),
           ),
     );
 
@@ -339,7 +411,7 @@ export class ClaimsService {
     // network, so the throttle is dead weight — skip it and process in one batch.
     // (csvCache hits would also be network-free, but bundle coverage is the
     // common cold-load case and the cheap thing to check here.)
-    const bundle = await getClaimsBundle();
+    const bundle = await getClaimsBundle(this.fetchFn);
     const allBundled = allCidsBundled(
       bundle,
       claimMetadata.map(({ claim }) => claim.expectedContentHash),
@@ -402,6 +474,7 @@ export class ClaimsService {
     logsByOb: Map<string, HypersyncResult[]>,
     claimTxHashes: string[] = [],
     withProofs = false,
+    serverProofs?: ClaimOrderProofs,
   ): Promise<PendingClaim | null> {
     if (!claim.csvLink) return null;
 
@@ -442,18 +515,39 @@ export class ClaimsService {
       ? parseInt(orderDetail.addEvents[0].transaction.blockNumber)
       : undefined;
 
-    // Build the merkle tree ONLY when proofs are needed (pre-claim refresh).
-    // The display load skips it entirely — no tree, no proofs. When built, assert
-    // its root matches the order's committed root before any proof is generated.
+    // Build the merkle tree ONLY when proofs are needed (pre-claim refresh) and
+    // a server proof for a row is missing or fails verification. The display
+    // load skips it entirely — no tree, no proofs. When built, assert its root
+    // matches the order's committed root before any proof is generated.
     let merkleTree: ReturnType<typeof getMerkleTree> | undefined;
-    if (withProofs) {
-      merkleTree = getMerkleTree(csvData, encoding);
-      assertMerkleRootMatches(
-        merkleTree.root,
-        claim.expectedMerkleRoot,
-        claim.orderHash,
-      );
-    }
+    const localTree = () => {
+      if (!merkleTree) {
+        merkleTree = getMerkleTree(csvData, encoding);
+        assertMerkleRootMatches(
+          merkleTree.root,
+          claim.expectedMerkleRoot,
+          claim.orderHash,
+        );
+      }
+      return merkleTree;
+    };
+    const proofFor = (index: string, amountWei: string): string[] => {
+      if (serverProofs) {
+        try {
+          return verifyClaimLeafProof(
+            serverProofs,
+            { index, owner: ownerAddress, amount: amountWei },
+            claim.expectedMerkleRoot,
+            encoding,
+          );
+        } catch (error) {
+          console.warn("Rejected server claim proof, building locally:", error);
+        }
+      }
+      const leaf = getLeaf(index, ownerAddress, amountWei, encoding);
+      return getProofForLeaf(localTree(), leaf).proof;
+    };
+    if (withProofs && !serverProofs) localTree();
 
     const sortedClaimsData = (await sortClaimsData(
       csvData,
@@ -490,19 +584,15 @@ export class ClaimsService {
     // Generate proofs for holdings (active era) ONLY when claiming. The display
     // load returns display-only holdings (no order/signedContext/proofs).
     let resultHoldings: HoldingWithProof[];
-    if (withProofs && merkleTree) {
-      const tree = merkleTree;
+    if (withProofs) {
       const decodedOrder = decodeOrder(orderDetail.orderBytes, version);
       resultHoldings = sortedClaimsData.holdings
         .map((h) => {
           const amountWei = h.amountWei ?? h.unclaimedAmount;
-          const leaf = getLeaf(h.id, ownerAddress, amountWei, encoding);
-          const proofForLeaf = getProofForLeaf(tree, leaf);
-
           const holdingSignedContext = buildClaimSignedContext(
             h.id,
             amountWei,
-            proofForLeaf.proof,
+            proofFor(h.id, amountWei),
             encoding,
           );
 
@@ -517,8 +607,13 @@ export class ClaimsService {
         .filter((h) => h.order && h.signedContext && h.orderBookAddress);
     } else {
       // Display-only path: keep the display fields the holdings already carry
-      // (amounts/id/etc.); omit proof fields, which stay undefined.
-      resultHoldings = sortedClaimsData.holdings.map((h) => ({ ...h }));
+      // (amounts/id/etc.); omit proof fields, which stay undefined. orderHash is
+      // kept so a per-payout selection can be matched to the proof-carrying
+      // holdings of the refresh done right before claiming.
+      resultHoldings = sortedClaimsData.holdings.map((h) => ({
+        ...h,
+        orderHash: claim.orderHash,
+      }));
     }
 
     return {
@@ -534,6 +629,42 @@ export class ClaimsService {
     };
   }
 
+  /**
+   * Merkle proofs for every row of `claim`'s CSV that belongs to `ownerAddress`,
+   * computed from the CID-verified CSV (server side of `/api/claims/<wallet>/proofs`).
+   * Throws when the CSV can't be loaded or the rebuilt root doesn't match the
+   * order's committed root — a wrong tree must never be served.
+   */
+  async getClaimOrderProofs(
+    ownerAddress: string,
+    claim: Claim,
+  ): Promise<ClaimOrderProofs> {
+    const csvData = await this.fetchCsv(
+      claim.csvLink,
+      claim.expectedContentHash,
+    );
+    if (!csvData) {
+      throw new ClaimsCsvLoadError();
+    }
+    const source = getOrderbookSource(
+      claim.orderbook ?? ORDERBOOK_V6_CONTRACT_ADDRESS,
+    );
+    const encoding = source?.amountEncoding ?? "int18";
+    const tree = merkleTreeFor(csvData, claim.expectedContentHash, encoding);
+    assertMerkleRootMatches(
+      tree.root,
+      claim.expectedMerkleRoot,
+      claim.orderHash,
+    );
+    return buildClaimOrderProofs(
+      tree,
+      csvData,
+      ownerAddress,
+      claim.orderHash,
+      encoding,
+    );
+  }
+
   /**
    * Merge holdings into grouped structure by token address
    */
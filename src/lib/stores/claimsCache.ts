@@ -9,19 +9,30 @@ interface CacheEntry {
 
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+// Entries are keyed by lowercased address so the multi-wallet portfolio can
+// hold results for several wallets at once without evicting each other.
+const keyFor = (address: string) => address.toLowerCase();
+
 function createClaimsCache() {
-  const store = writable<CacheEntry | null>(null);
+  const store = writable<Record<string, CacheEntry>>({});
+
+  function remove(address: string) {
+    store.update((entries) => {
+      const { [keyFor(address)]: _removed, ...rest } = entries;
+      return rest;
+    });
+  }
 
   return {
     subscribe: store.subscribe,
 
     get(address: string): ClaimsResult | null {
-      const cache = get(store);
-      if (!cache || cache.address !== address) return null;
+      const cache = get(store)[keyFor(address)];
+      if (!cache) return null;
 
       const age = Date.now() - cache.timestamp;
       if (age > CACHE_DURATION) {
-        store.set(null);
+        remove(address);
         return null;
       }
 
@@ -29,28 +40,28 @@ function createClaimsCache() {
     },
 
     set(address: string, data: ClaimsResult) {
-      store.set({
-        data,
-        address,
-        timestamp: Date.now(),
-      });
+      store.update((entries) => ({
+        ...entries,
+        [keyFor(address)]: {
+          data,
+          address,
+          timestamp: Date.now(),
+        },
+      }));
     },
 
     clear() {
-      store.set(null);
+      store.set({});
     },
 
-    /** Invalidate the cache entry only if it currently belongs to `address`. */
+    /** Invalidate the cache entry for `address`, leaving other wallets intact. */
     delete(address: string) {
-      const cache = get(store);
-      if (cache && cache.address === address) {
-        store.set(null);
-      }
+      if (get(store)[keyFor(address)]) remove(address);
     },
 
     isValid(address: string): boolean {
-      const cache = get(store);
-      if (!cache || cache.address !== address) return false;
+      const cache = get(store)[keyFor(address)];
+      if (!cache) return false;
       return Date.now() - cache.timestamp < CACHE_DURATION;
     },
   };
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Writable } from "svelte/store";
+
+vi.mock("$app/stores", async () => {
+  const { writable } = await import("svelte/store");
+  return { page: writable({ url: new URL("http://localhost/claims") }) };
+});
+vi.mock("svelte-wagmi", async () => {
+  const { writable } = await import("svelte/store");
+  return { connected: writable(true), signerAddress: writable("0xsigner") };
+});
+vi.mock("$lib/utils/watchAddress", () => ({
+  resolveWatchInput: async (input: string) => input.toLowerCase(),
+}));
+
+import { page as pageStore } from "$app/stores";
+import {
+  connected as connectedStore,
+  signerAddress as signerStore,
+} from "svelte-wagmi";
+import { viewedWallet, type ViewedWallet } from "./watchAddress";
+
+const page = pageStore as unknown as Writable<{ url: URL }>;
+const connected = connectedStore as unknown as Writable<boolean>;
+const signerAddress = signerStore as unknown as Writable<string>;
+
+const WATCHED = "0x1111111111111111111111111111111111111111";
+
+describe("viewedWallet", () => {
+  it("emits only when the viewed wallet changes", async () => {
+    const seen: ViewedWallet[] = [];
+    const unsubscribe = viewedWallet.subscribe((view) => seen.push(view));
+    expect(seen.at(-1)).toMatchObject({ address: "0xsigner", watching: false });
+
+    page.set({ url: new URL(`http://localhost/claims?address=${WATCHED}`) });
+    await vi.waitFor(() => expect(seen.at(-1)?.address).toBe(WATCHED));
+    const count = seen.length;
+
+    // Reconnecting or switching accounts doesn't change the watched view.
+    connected.set(false);
+    connected.set(true);
+    signerAddress.set("0xother");
+    expect(seen).toHaveLength(count);
+
+    page.set({ url: new URL("http://localhost/claims") });
+    expect(seen.at(-1)).toMatchObject({ address: "0xother", watching: false });
+    unsubscribe();
+  });
+});
@@ -0,0 +1,98 @@
+import { derived, type Readable } from "svelte/store";
+import { page } from "$app/stores";
+import { connected, signerAddress } from "svelte-wagmi";
+import { resolveWatchInput } from "$lib/utils/watchAddress";
+
+export type WatchTarget =
+  | { status: "none" }
+  | { status: "resolving"; input: string }
+  | { status: "ready"; input: string; address: string }
+  | { status: "error"; input: string; message: string };
+
+// Resolutions are cached per raw input so page-store updates (hash changes,
+// navigation within the same query) don't re-hit ENS.
+const resolved = new Map<string, Promise<string>>();
+
+/** The `?address=` watch target of the current page, resolved to an address. */
+export const watchTarget: Readable<WatchTarget> = derived<
+  typeof page,
+  WatchTarget
+>(
+  page,
+  ($page, set) => {
+    const input = $page.url.searchParams.get("address")?.trim() ?? "";
+    if (!input) {
+      set({ status: "none" });
+      return;
+    }
+    let resolution = resolved.get(input);
+    if (!resolution) {
+      resolution = resolveWatchInput(input);
+      resolution.catch(() => resolved.delete(input));
+      resolved.set(input, resolution);
+    }
+    let cancelled = false;
+    set({ status: "resolving", input });
+    resolution.then(
+      (address) => {
+        if (!cancelled) set({ status: "ready", input, address });
+      },
+      (error: unknown) => {
+        if (cancelled) return;
+        set({
+          status: "error",
+          input,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  },
+  { status: "none" },
+);
+
+export interface ViewedWallet {
+  address: string;
+  watching: boolean;
+  target: WatchTarget;
+}
+
+let lastViewKey: string | null = null;
+
+/**
+ * The wallet a page should show: the watched address when `?address=` is
+ * present (read-only), otherwise the connected signer. `address` is empty
+ * while nothing is viewable yet (not connected, or the watch input is still
+ * resolving / failed).
+ *
+ * Emits only when the view actually changes, so a wallet reconnect or
+ * account switch while watching doesn't reload the watched wallet.
+ */
+export const viewedWallet: Readable<ViewedWallet> = derived<
+  [typeof watchTarget, typeof connected, typeof signerAddress],
+  ViewedWallet
+>(
+  [watchTarget, connected, signerAddress],
+  ([$watchTarget, $connected, $signerAddress], set) => {
+    const next: ViewedWallet =
+      $watchTarget.status !== "none"
+        ? {
+            address:
+              $watchTarget.status === "ready" ? $watchTarget.address : "",
+            watching: true,
+            target: $watchTarget,
+          }
+        : {
+            address: $connected && $signerAddress ? $signerAddress : "",
+            watching: false,
+            target: $watchTarget,
+          };
+    const key = JSON.stringify(next);
+    if (key === lastViewKey) return;
+    lastViewKey = key;
+    set(next);
+  },
+  { address: "", watching: false, target: { status: "none" } },
+);
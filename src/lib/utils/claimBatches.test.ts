@@ -0,0 +1,61 @@
+// src/lib/utils/claimBatches.test.ts
+import { describe, it, expect, vi } from "vitest";
+import { hexByteLength, splitClaimBatches } from "./claimBatches";
+
+const LIMITS = { maxGas: 1_000n, maxCalldataBytes: 100 };
+
+// Each entry costs 300 gas and 30 bytes of calldata.
+const measure = {
+  calldataBytes: (batch: number[]) => batch.length * 30,
+  estimateGas: vi.fn(async (batch: number[]) => BigInt(batch.length * 300)),
+};
+
+describe("hexByteLength", () => {
+  it("counts bytes with or without the 0x prefix", () => {
+    expect(hexByteLength("0xabcd")).toBe(2);
+    expect(hexByteLength("abcdef")).toBe(3);
+  });
+});
+
+describe("splitClaimBatches", () => {
+  it("keeps a batch that fits in one transaction with a single estimate", async () => {
+    measure.estimateGas.mockClear();
+    expect(await splitClaimBatches([1, 2, 3], measure, LIMITS)).toEqual([[1, 2, 3]]);
+    expect(measure.estimateGas).toHaveBeenCalledTimes(1);
+  });
+
+  it("halves until every batch is under the gas limit, preserving order", async () => {
+    const gasOnly = { calldataBytes: () => 0, estimateGas: measure.estimateGas };
+    const batches = await splitClaimBatches([1, 2, 3, 4, 5, 6, 7], gasOnly, LIMITS);
+    expect(batches.flat()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    for (const batch of batches) expect(batch.length * 300).toBeLessThanOrEqual(1_000);
+    expect(batches).toEqual([[1, 2], [3, 4], [5, 6, 7]]);
+  });
+
+  it("splits on calldata size before estimating", async () => {
+    const estimateGas = vi.fn(async () => 1n);
+    const batches = await splitClaimBatches(
+      [1, 2, 3, 4, 5],
+      { calldataBytes: (b: number[]) => b.length * 30, estimateGas },
+      LIMITS,
+    );
+    expect(batches).toEqual([[1, 2, 3], [4, 5]]);
+    expect(estimateGas).toHaveBeenCalledTimes(2);
+  });
+
+  it("splits a batch whose estimate throws, but rethrows for a single entry", async () => {
+    const estimateGas = vi.fn(async (batch: number[]) => {
+      if (batch.length > 2) throw new Error("gas required exceeds allowance");
+      if (batch.includes(9)) throw new Error("execution reverted");
+      return 1n;
+    });
+    const m = { calldataBytes: () => 0, estimateGas };
+    expect(await splitClaimBatches([1, 2, 3, 4], m, LIMITS)).toEqual([[1, 2], [3, 4]]);
+    await expect(splitClaimBatches([9], m, LIMITS)).rejects.toThrow("execution reverted");
+  });
+
+  it("returns an oversized single entry as its own batch", async () => {
+    const m = { calldataBytes: () => 0, estimateGas: async () => 5_000n };
+    expect(await splitClaimBatches([1], m, LIMITS)).toEqual([[1]]);
+  });
+});
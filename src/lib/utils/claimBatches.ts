@@ -0,0 +1,109 @@
+// src/lib/utils/claimBatches.ts
+
+/**
+ * Split a claim into as few `takeOrders` transactions as will actually go
+ * through.
+ *
+ * Every signed context of an OrderBook normally goes into ONE takeOrders call,
+ * and both its gas and its calldata grow linearly with the number of unclaimed
+ * payouts. A wallet with many months outstanding can exceed what a wallet will
+ * sign or an RPC will accept, so the batch is halved until each part fits both
+ * limits. Halving (rather than sizing by a per-entry gas guess) keeps the
+ * common case at a single estimate and the worst case at O(log n) estimates.
+ */
+
+/**
+ * Per-transaction gas ceiling. Base blocks hold far more, but wallets refuse or
+ * silently cap transactions well before that (MetaMask at ~16.7M).
+ */
+export const CLAIM_BATCH_MAX_GAS = 12_000_000n;
+
+/** Calldata ceiling; stays clear of the ~128 KB request limit common RPCs apply. */
+export const CLAIM_BATCH_MAX_CALLDATA_BYTES = 96 * 1024;
+
+export interface ClaimBatchLimits {
+  maxGas: bigint;
+  maxCalldataBytes: number;
+}
+
+export interface ClaimBatchMeasure<T> {
+  /** Encoded size of the takeOrders call for `batch`, in bytes. */
+  calldataBytes: (batch: T[]) => number;
+  /** Gas estimate for `batch`. May throw (revert, out of gas, too large). */
+  estimateGas: (batch: T[]) => Promise<bigint>;
+}
+
+/** Byte length of a 0x-prefixed hex string. */
+export function hexByteLength(hex: string): number {
+  return Math.ceil((hex.startsWith("0x") ? hex.length - 2 : hex.length) / 2);
+}
+
+/**
+ * Partition `entries` (order preserved) into batches that each fit `limits`.
+ *
+ * A multi-entry batch whose estimate throws is split too: on a large batch the
+ * usual cause is the size itself (gas cap exceeded / out of gas). A single
+ * entry that still fails to estimate is a genuine revert, so that error is
+ * rethrown before anything is submitted. A single entry over the gas limit is
+ * returned as-is — there is nothing smaller to send.
+ */
+export async function splitClaimBatches<T>(
+  entries: T[],
+  measure: ClaimBatchMeasure<T>,
+  limits: ClaimBatchLimits = {
+    maxGas: CLAIM_BATCH_MAX_GAS,
+    maxCalldataBytes: CLAIM_BATCH_MAX_CALLDATA_BYTES,
+  },
+): Promise<T[][]> {
+  const fit = async (batch: T[]): Promise<T[][]> => {
+    if (batch.length === 0) return [];
+    const split = async () => {
+      const mid = Math.ceil(batch.length / 2);
+      return [
+        ...(await fit(batch.slice(0, mid))),
+        ...(await fit(batch.slice(mid))),
+      ];
+    };
+
+    if (
+      batch.length > 1 &&
+      measure.calldataBytes(batch) > limits.maxCalldataBytes
+    ) {
+      return split();
+    }
+
+    let gas: bigint;
+    try {
+      gas = await measure.estimateGas(batch);
+    } catch (error) {
+      if (batch.length > 1) return split();
+      throw error;
+    }
+    if (gas > limits.maxGas && batch.length > 1) return split();
+    return [batch];
+  };
+
+  return fit(entries);
+}
+
+/**
+ * A later batch failed (or was rejected in the wallet) after earlier batches
+ * of the same claim had already confirmed. Callers record `confirmedTxHashes`
+ * like any successful claim, then offer to resume: the refreshed holdings no
+ * longer contain the confirmed payouts, so re-running the claim only submits
+ * what is left.
+ */
+export class ClaimBatchInterruptedError extends Error {
+  readonly code = "CLAIM_BATCH_INTERRUPTED";
+
+  constructor(
+    readonly confirmedTxHashes: string[],
+    readonly totalBatches: number,
+    readonly reason: unknown,
+  ) {
+    super(
+      `Claim interrupted after ${confirmedTxHashes.length} of ${totalBatches} transactions`,
+    );
+    this.name = "ClaimBatchInterruptedError";
+  }
+}
@@ -4,8 +4,8 @@
  * v4 uses `takeOrders2` with uint256 min/max and a uint256[] signed context.
  * v6 uses `takeOrders3` + SDK TakeOrdersConfigV5 (IOIsInput=true) on the v6 OrderBook.
  */
-import type { Hex } from "viem";
-import { bytesToHex } from "viem";
+import type { Abi, Hex } from "viem";
+import { bytesToHex, encodeFunctionData } from "viem";
 import { hexlify } from "ethers";
 import {
   getTakeOrders3Calldata,
@@ -105,7 +105,19 @@ function maximumIoHexFromOrders(orders: TakeOrderConfigV4[]): string {
   return sumFloatHexWords(amountHexes);
 }
 
-function buildClaimTakeOrdersConfig(orders: TakeOrderConfigV4[]) {
+/**
+ * Amount limits for a v6 take (TakeOrdersConfigV5 minus the orders). Floats as
+ * bytes32 hex. With `IOIsInput` the IO bounds are in the taker's input token
+ * (what the taker receives); the ratio is always taker output per taker input.
+ */
+export interface TakeOrdersLimits {
+  minimumIO: string;
+  maximumIO: string;
+  maximumIORatio: string;
+  IOIsInput: boolean;
+}
+
+function claimTakeOrdersLimits(orders: TakeOrderConfigV4[]): TakeOrdersLimits {
   const ratioOne = Float.parse("1");
   if (ratioOne.error || !ratioOne.value) {
     throw new Error("Failed to build claim parameters.");
@@ -117,9 +129,7 @@ function buildClaimTakeOrdersConfig(orders: TakeOrderConfigV4[]) {
     minimumIO: Float.fromBigint(0n).asHex(),
     maximumIO: maximumIoHexFromOrders(orders),
     maximumIORatio: ratioOne.value.asHex(),
-    IOIsInput: true as unknown as string,
-    orders,
-    data: "0x",
+    IOIsInput: true,
   };
 }
 
@@ -175,17 +185,16 @@ export function countClaimSignedContexts(orders: OrderEntry[]): number {
   return orders.reduce((n, o) => n + o.signedContext.length, 0);
 }
 
-/**
- * Build v6 claim calldata (TakeOrdersConfigV5 / takeOrders4 selector).
- *
- * Batch shape: one TakeOrderConfigV4 row per payout index (same Rain order
- * repeated), maximumIO = sum of all claim Float amounts.
- */
-export function buildV6ClaimCalldata(orders: OrderEntry[]): Hex {
-  const stringified = stringifyOrderContexts(orders);
-  const res = getTakeOrders3Calldata(
-    buildClaimTakeOrdersConfig(stringified) as never,
-  ) as {
+function encodeV6TakeOrders(
+  orders: TakeOrderConfigV4[],
+  limits: TakeOrdersLimits,
+): Hex {
+  const res = getTakeOrders3Calldata({
+    ...limits,
+    IOIsInput: limits.IOIsInput as unknown as string,
+    orders,
+    data: "0x",
+  } as never) as {
     value?: string | Uint8Array;
     error?: { readableMsg?: string };
   };
@@ -199,3 +208,47 @@ export function buildV6ClaimCalldata(orders: OrderEntry[]): Hex {
   }
   return takeOrdersCalldataToHex(res.value);
 }
+
+/**
+ * Build v6 claim calldata (TakeOrdersConfigV5 / takeOrders4 selector).
+ *
+ * Batch shape: one TakeOrderConfigV4 row per payout index (same Rain order
+ * repeated), maximumIO = sum of all claim Float amounts.
+ */
+export function buildV6ClaimCalldata(orders: OrderEntry[]): Hex {
+  const stringified = stringifyOrderContexts(orders);
+  return encodeV6TakeOrders(stringified, claimTakeOrdersLimits(stringified));
+}
+
+/**
+ * v6 take calldata for arbitrary orders under caller-chosen limits — the
+ * secondary market's buy/sell against open Raindex orders.
+ */
+export function buildV6TakeOrdersCalldata(
+  orders: OrderEntry[],
+  limits: TakeOrdersLimits,
+): Hex {
+  if (orders.length === 0) {
+    throw new Error("No orders to take.");
+  }
+  return encodeV6TakeOrders(stringifyOrderContexts(orders), limits);
+}
+
+/**
+ * Era-appropriate claim calldata for `orderbookAddress` (takeOrders3 via the SDK
+ * on v6, takeOrders2 on v4). Used to size and gas-estimate claim batches.
+ */
+export function buildClaimCalldata(
+  orderbookAddress: string,
+  orders: OrderEntry[],
+): Hex {
+  const version = versionForOrderbook(orderbookAddress);
+  if (version === "v6") {
+    return buildV6ClaimCalldata(orders);
+  }
+  return encodeFunctionData({
+    abi: abiForVersion(version) as Abi,
+    functionName: takeOrdersFnForVersion(version),
+    args: [buildTakeOrdersConfig(orders, version)],
+  });
+}
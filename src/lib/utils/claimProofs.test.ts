@@ -0,0 +1,157 @@
+// src/lib/utils/claimProofs.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { keccak256 as viemKeccak256, type Hex } from "viem";
+
+// The vitest ethers shim stubs keccak256 to "0x"; leaves need real hashes here.
+vi.mock("ethers", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("ethers")>();
+  return {
+    ...actual,
+    keccak256: (value: string) => viemKeccak256(value as Hex),
+  };
+});
+
+import {
+  __resetClaimProofsForTest,
+  buildClaimOrderProofs,
+  fetchClaimProofs,
+  merkleTreeFor,
+  verifyClaimLeafProof,
+} from "./claimProofs";
+import type { CsvClaimRow } from "./claims";
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const ORDER = `0x${"ab".repeat(32)}`;
+const CSV: CsvClaimRow[] = [
+  { index: "0", address: OTHER, amount: "5000000000000000000" },
+  { index: "1", address: OWNER, amount: "1000000000000000000" },
+  {
+    index: "2",
+    address: OWNER.toUpperCase().replace("0X", "0x"),
+    amount: "2000000000000000000",
+  },
+] as CsvClaimRow[];
+
+function proofsFor(encoding: "int18" | "float" = "int18") {
+  const tree = merkleTreeFor(CSV, "bafytest", encoding);
+  return buildClaimOrderProofs(tree, CSV, OWNER, ORDER, encoding);
+}
+
+beforeEach(() => {
+  __resetClaimProofsForTest();
+  vi.restoreAllMocks();
+});
+
+describe("buildClaimOrderProofs", () => {
+  it("returns only the owner's rows, each verifying against the root", () => {
+    for (const encoding of ["int18", "float"] as const) {
+      const order = proofsFor(encoding);
+      expect(order.proofs.map((p) => p.index)).toEqual(["1", "2"]);
+      for (const entry of order.proofs) {
+        expect(
+          verifyClaimLeafProof(
+            order,
+            { index: entry.index, owner: OWNER, amount: entry.amount },
+            order.root,
+            encoding,
+          ),
+        ).toEqual(entry.proof);
+      }
+    }
+  });
+
+  it("memoises trees per content hash and encoding", () => {
+    const first = merkleTreeFor(CSV, "bafytest", "int18");
+    expect(merkleTreeFor(CSV, "bafytest", "int18")).toBe(first);
+    expect(merkleTreeFor(CSV, "bafytest", "float")).not.toBe(first);
+  });
+});
+
+describe("verifyClaimLeafProof", () => {
+  it("rejects a root that differs from the committed one", () => {
+    const order = proofsFor();
+    expect(() =>
+      verifyClaimLeafProof(
+        order,
+        { index: "1", owner: OWNER, amount: "1000000000000000000" },
+        `0x${"12".repeat(32)}`,
+        "int18",
+      ),
+    ).toThrow(/Merkle root mismatch/);
+  });
+
+  it("rejects a proof whose leaf doesn't match the local CSV row", () => {
+    const order = proofsFor();
+    expect(() =>
+      verifyClaimLeafProof(
+        order,
+        { index: "1", owner: OWNER, amount: "9000000000000000000" },
+        order.root,
+        "int18",
+      ),
+    ).toThrow(/does not match the CSV/);
+  });
+
+  it("rejects a tampered path and a missing row", () => {
+    const order = proofsFor();
+    const tampered = {
+      ...order,
+      proofs: order.proofs.map((p) => ({
+        ...p,
+        proof: [...p.proof].reverse(),
+      })),
+    };
+    expect(() =>
+      verifyClaimLeafProof(
+        tampered,
+        { index: "1", owner: OWNER, amount: "1000000000000000000" },
+        order.root,
+        "int18",
+      ),
+    ).toThrow(/does not reach the root/);
+    expect(() =>
+      verifyClaimLeafProof(
+        order,
+        { index: "0", owner: OTHER, amount: "5000000000000000000" },
+        order.root,
+        "int18",
+      ),
+    ).toThrow(/No proof for row 0/);
+  });
+});
+
+describe("fetchClaimProofs", () => {
+  it("keys orders by lowercased order hash", async () => {
+    const order = proofsFor();
+    const fetchFn = vi.fn(async () =>
+      Response.json({
+        wallet: OWNER,
+        orders: [
+          { ...order, orderHash: ORDER.toUpperCase().replace("0X", "0x") },
+        ],
+      }),
+    );
+    const byOrder = await fetchClaimProofs(
+      OWNER,
+      fetchFn as unknown as typeof fetch,
+    );
+    expect(fetchFn).toHaveBeenCalledWith(`/api/claims/${OWNER}/proofs`);
+    expect(byOrder.get(ORDER)?.root).toBe(order.root);
+  });
+
+  it("returns an empty map when the endpoint fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const failing = vi.fn(async () => {
+      throw new Error("offline");
+    });
+    expect(
+      (await fetchClaimProofs(OWNER, failing as unknown as typeof fetch)).size,
+    ).toBe(0);
+    const unavailable = vi.fn(async () => new Response("", { status: 503 }));
+    expect(
+      (await fetchClaimProofs(OWNER, unavailable as unknown as typeof fetch))
+        .size,
+    ).toBe(0);
+  });
+});
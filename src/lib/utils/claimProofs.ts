@@ -0,0 +1,168 @@
+// src/lib/utils/claimProofs.ts
+import { SimpleMerkleTree } from "@openzeppelin/merkle-tree";
+import {
+  assertMerkleRootMatches,
+  getLeaf,
+  getMerkleTree,
+  type AmountEncoding,
+  type CsvClaimRow,
+} from "$lib/utils/claims";
+
+/**
+ * Server-computed merkle proofs for a wallet's claim rows.
+ *
+ * Building the tree means hashing every row of a distribution, which is slow
+ * on phones for large CSVs. `/api/claims/<wallet>/proofs` builds it once on the
+ * server (cached per CID) and returns only the wallet's leaves and paths. The
+ * server is an untrusted transport: the client recomputes each leaf from its
+ * own CID-verified CSV row, checks the returned root against the order's
+ * `expectedMerkleRoot`, and verifies the path hashes to that root before using
+ * it (see verifyClaimLeafProof).
+ */
+
+export interface ClaimLeafProof {
+  /** CSV row index (the leaf's index word). */
+  index: string;
+  /** Raw CSV amount the leaf commits to. */
+  amount: string;
+  leaf: string;
+  proof: string[];
+}
+
+export interface ClaimOrderProofs {
+  orderHash: string;
+  root: string;
+  proofs: ClaimLeafProof[];
+}
+
+export interface ClaimProofsResponse {
+  wallet: string;
+  orders: ClaimOrderProofs[];
+}
+
+export class ClaimProofError extends Error {
+  readonly code = "CLAIM_PROOF_INVALID";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ClaimProofError";
+  }
+}
+
+// Trees are pure in (CSV bytes, encoding) and the CSV is content-addressed, so
+// the CID is a safe cache key. Bounded like the other server-side caches.
+const TREE_CACHE_MAX_ENTRIES = 64;
+const treeCache = new Map<string, SimpleMerkleTree>();
+
+/** getMerkleTree memoised per CSV content hash + amount encoding. */
+export function merkleTreeFor(
+  csv: CsvClaimRow[],
+  contentHash: string,
+  encoding: AmountEncoding,
+): SimpleMerkleTree {
+  const key = `${contentHash}:${encoding}`;
+  let tree = treeCache.get(key);
+  if (!tree) {
+    if (treeCache.size >= TREE_CACHE_MAX_ENTRIES) treeCache.clear();
+    tree = getMerkleTree(csv, encoding);
+    treeCache.set(key, tree);
+  }
+  return tree;
+}
+
+/** Leaves and proof paths for every CSV row belonging to `ownerAddress`. */
+export function buildClaimOrderProofs(
+  tree: SimpleMerkleTree,
+  csv: CsvClaimRow[],
+  ownerAddress: string,
+  orderHash: string,
+  encoding: AmountEncoding,
+): ClaimOrderProofs {
+  const owner = ownerAddress.toLowerCase();
+  const rows = csv.filter((row) => row.address?.toLowerCase() === owner);
+  const proofs: ClaimLeafProof[] = [];
+  if (rows.length > 0) {
+    // The tree sorts its leaves, so map leaf → tree index once instead of the
+    // per-leaf linear scan getProofForLeaf does.
+    const treeIndexByLeaf = new Map<string, number>();
+    for (const [i, value] of tree.entries()) {
+      treeIndexByLeaf.set(String(value), i);
+    }
+    for (const row of rows) {
+      const leaf = getLeaf(row.index, row.address, row.amount, encoding);
+      const treeIndex = treeIndexByLeaf.get(leaf);
+      if (treeIndex === undefined) continue;
+      proofs.push({
+        index: row.index,
+        amount: row.amount,
+        leaf,
+        proof: tree.getProof(treeIndex),
+      });
+    }
+  }
+  return { orderHash, root: tree.root, proofs };
+}
+
+/**
+ * Check a server-supplied proof for one of the wallet's rows and return its
+ * path. The leaf is recomputed locally from the client's own CSV row, the root
+ * must match the order's committed root, and the path must hash to it.
+ * Throws ClaimProofError (or the root-mismatch error) otherwise.
+ */
+export function verifyClaimLeafProof(
+  order: ClaimOrderProofs,
+  row: { index: string; owner: string; amount: string },
+  expectedMerkleRoot: string,
+  encoding: AmountEncoding,
+): string[] {
+  assertMerkleRootMatches(order.root, expectedMerkleRoot, order.orderHash);
+  const leaf = getLeaf(row.index, row.owner, row.amount, encoding);
+  const entry = order.proofs.find((p) => p.index === row.index);
+  if (!entry) {
+    throw new ClaimProofError(
+      `No proof for row ${row.index} of ${order.orderHash}`,
+    );
+  }
+  if (entry.leaf.toLowerCase() !== leaf.toLowerCase()) {
+    throw new ClaimProofError(
+      `Proof leaf for row ${row.index} of ${order.orderHash} does not match the CSV`,
+    );
+  }
+  if (!SimpleMerkleTree.verify(order.root, leaf, entry.proof)) {
+    throw new ClaimProofError(
+      `Proof for row ${row.index} of ${order.orderHash} does not reach the root`,
+    );
+  }
+  return entry.proof;
+}
+
+/**
+ * Fetch server-computed proofs for a wallet, keyed by lowercased order hash.
+ * NEVER throws: any failure returns an empty map and callers build the tree
+ * locally, exactly as before the endpoint existed.
+ */
+export async function fetchClaimProofs(
+  wallet: string,
+  fetchFn: typeof fetch = fetch,
+): Promise<Map<string, ClaimOrderProofs>> {
+  const byOrder = new Map<string, ClaimOrderProofs>();
+  try {
+    const response = await fetchFn(
+      `/api/claims/${encodeURIComponent(wallet)}/proofs`,
+    );
+    if (!response.ok) return byOrder;
+    const body = (await response.json()) as ClaimProofsResponse;
+    for (const order of body?.orders ?? []) {
+      if (typeof order?.orderHash !== "string" || !Array.isArray(order.proofs))
+        continue;
+      byOrder.set(order.orderHash.toLowerCase(), order);
+    }
+  } catch (error) {
+    console.warn("Server claim proofs unavailable, building locally:", error);
+  }
+  return byOrder;
+}
+
+export function __resetClaimProofsForTest(): void {
+  treeCache.clear();
+}
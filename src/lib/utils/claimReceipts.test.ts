@@ -0,0 +1,101 @@
+// src/lib/utils/claimReceipts.test.ts
+import { describe, it, expect } from "vitest";
+import type { ClaimHistory } from "./claims";
+import {
+  buildClaimReceipts,
+  claimReceiptFileName,
+  claimReceiptToCsv,
+  claimReceiptToHtml,
+} from "./claimReceipts";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const TX_A = `0x${"a".repeat(64)}`;
+const TX_B = `0x${"b".repeat(64)}`;
+
+function claim(overrides: Partial<ClaimHistory>): ClaimHistory {
+  return {
+    date: "2025-04-02T10:00:00.000Z",
+    amount: "1.5",
+    asset: "Wressle-1",
+    fieldName: "Wressle-1",
+    symbol: "ALB-WR1-R1",
+    txHash: TX_A,
+    status: "completed",
+    orderHash: "0xorder1",
+    ...overrides,
+  };
+}
+
+const months: Record<string, string> = {
+  "0xorder1": "2025-02",
+  "0xorder2": "2025-01",
+};
+
+describe("buildClaimReceipts", () => {
+  it("groups history lines into one receipt per transaction, newest first", () => {
+    const receipts = buildClaimReceipts(
+      [
+        claim({}),
+        claim({ orderHash: "0xorder2", amount: "0.1" }),
+        claim({ txHash: TX_B, date: "2025-05-01T00:00:00.000Z", amount: "2" }),
+      ],
+      {
+        wallet: WALLET,
+        chainId: 8453,
+        monthFor: (c) => months[c.orderHash ?? ""],
+      },
+    );
+    expect(receipts.map((r) => r.txHash)).toEqual([TX_B, TX_A]);
+    const [, receipt] = receipts;
+    expect(receipt.wallet).toBe(WALLET);
+    expect(receipt.blockTime).toBe("2025-04-02T10:00:00.000Z");
+    expect(receipt.explorerUrl).toBe(`https://basescan.org/tx/${TX_A}`);
+    expect(receipt.lines.map((l) => l.month)).toEqual(["2025-01", "2025-02"]);
+    // exact decimal sum, no float drift
+    expect(receipt.total).toBe("1.6");
+  });
+
+  it("skips lines without a real transaction hash", () => {
+    expect(
+      buildClaimReceipts([claim({ txHash: "N/A" }), claim({ txHash: "" })], {
+        wallet: WALLET,
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("claimReceiptToCsv", () => {
+  it("writes the header block, quoted lines and a total", () => {
+    const [receipt] = buildClaimReceipts(
+      [claim({ fieldName: 'Field, "North"' })],
+      { wallet: WALLET },
+    );
+    const csv = claimReceiptToCsv(receipt).split("\n");
+    expect(csv[1]).toBe(`Wallet,${WALLET}`);
+    expect(csv[2]).toBe(`Transaction,${TX_A}`);
+    expect(csv).toContain('"Field, ""North""",ALB-WR1-R1,,1.5,0xorder1');
+    expect(csv[csv.length - 1]).toBe("Total,,,1.5,");
+  });
+});
+
+describe("claimReceiptToHtml", () => {
+  it("escapes field values", () => {
+    const [receipt] = buildClaimReceipts(
+      [claim({ fieldName: "<script>x</script>" })],
+      { wallet: WALLET },
+    );
+    const html = claimReceiptToHtml(receipt);
+    expect(html).not.toContain("<script>x");
+    expect(html).toContain("&lt;script&gt;x&lt;/script&gt;");
+    expect(html).toContain(TX_A);
+  });
+});
+
+describe("claimReceiptFileName", () => {
+  it("uses a short lowercase tx hash", () => {
+    const [receipt] = buildClaimReceipts([claim({})], { wallet: WALLET });
+    expect(claimReceiptFileName(receipt, "csv")).toBe(
+      "albion-claim-receipt-0xaaaaaaaa.csv",
+    );
+  });
+});
@@ -0,0 +1,175 @@
+// src/lib/utils/claimReceipts.ts
+import { formatEther } from "viem";
+import type { ClaimHistory } from "./claims";
+import { getTxUrl } from "./explorer";
+import { escapeHtml, toCsv, toWei } from "./fileExport";
+
+/**
+ * Per-transaction claim receipts for accounting.
+ *
+ * Built from the wallet's ClaimHistory, which ClaimsService derives from the
+ * decoded on-chain Context logs: each line's txHash and date (block time) come
+ * from the log that marked it claimed. So a receipt can be produced for any
+ * past claim the page can see, not only the one just sent. One claim tx can
+ * settle several payouts (fields, months) — they become lines on one receipt.
+ */
+
+export interface ClaimReceiptLine {
+  fieldName: string;
+  symbol: string;
+  /** Payout month (YYYY-MM) when known from the catalog; otherwise empty. */
+  month: string;
+  /** USDC amount as a decimal string, as recorded in ClaimHistory. */
+  amount: string;
+  orderHash: string;
+}
+
+export interface ClaimReceipt {
+  txHash: string;
+  wallet: string;
+  /** ISO timestamp of the block that included the claim. */
+  blockTime: string;
+  explorerUrl: string;
+  lines: ClaimReceiptLine[];
+  /** Sum of the line amounts, exact (decimal string). */
+  total: string;
+}
+
+/**
+ * Group claim history into one receipt per transaction, newest first. Lines
+ * without a real tx hash (legacy rows recorded as "N/A") have nothing to
+ * receipt and are skipped.
+ */
+export function buildClaimReceipts(
+  claimHistory: ClaimHistory[],
+  options: {
+    wallet: string;
+    chainId?: number | null;
+    /** Payout month for a history line (e.g. from catalog payoutData). */
+    monthFor?: (claim: ClaimHistory) => string | null | undefined;
+  },
+): ClaimReceipt[] {
+  const byTx = new Map<string, ClaimReceipt>();
+  for (const claim of claimHistory) {
+    if (!claim.txHash || claim.txHash === "N/A") continue;
+    const key = claim.txHash.toLowerCase();
+    let receipt = byTx.get(key);
+    if (!receipt) {
+      receipt = {
+        txHash: claim.txHash,
+        wallet: options.wallet,
+        blockTime: claim.date,
+        explorerUrl: getTxUrl(claim.txHash, options.chainId),
+        lines: [],
+        total: "0",
+      };
+      byTx.set(key, receipt);
+    }
+    receipt.lines.push({
+      fieldName: claim.fieldName ?? claim.asset,
+      symbol: claim.symbol ?? "",
+      month: options.monthFor?.(claim) ?? "",
+      amount: claim.amount,
+      orderHash: claim.orderHash ?? "",
+    });
+  }
+
+  const receipts = [...byTx.values()];
+  for (const receipt of receipts) {
+    receipt.lines.sort(
+      (a, b) =>
+        a.month.localeCompare(b.month) ||
+        a.fieldName.localeCompare(b.fieldName),
+    );
+    receipt.total = formatEther(
+      receipt.lines.reduce((sum, line) => sum + toWei(line.amount), 0n),
+    );
+  }
+  return receipts.sort((a, b) => b.blockTime.localeCompare(a.blockTime));
+}
+
+/**
+ * CSV receipt: a short key/value header (wallet, tx, block time, link) then
+ * one row per payout line, and a total row.
+ */
+export function claimReceiptToCsv(receipt: ClaimReceipt): string {
+  const rows: string[][] = [
+    ["Receipt", "Albion payout claim"],
+    ["Wallet", receipt.wallet],
+    ["Transaction", receipt.txHash],
+    ["Block time (UTC)", receipt.blockTime],
+    ["Explorer", receipt.explorerUrl],
+    [],
+    ["Field", "Symbol", "Payout month", "Amount (USDC)", "Order hash"],
+    ...receipt.lines.map((line) => [
+      line.fieldName,
+      line.symbol,
+      line.month,
+      line.amount,
+      line.orderHash,
+    ]),
+    ["Total", "", "", receipt.total, ""],
+  ];
+  return toCsv(rows);
+}
+
+/**
+ * Standalone printable HTML receipt. The page opens it and calls print(), so
+ * "Save as PDF" in the browser's print dialog produces the PDF — no PDF
+ * library in the bundle.
+ */
+export function claimReceiptToHtml(receipt: ClaimReceipt): string {
+  const rows = receipt.lines
+    .map(
+      (line) => `<tr>
+<td>${escapeHtml(line.fieldName)}</td>
+<td>${escapeHtml(line.symbol)}</td>
+<td>${escapeHtml(line.month || "—")}</td>
+<td class="num">${escapeHtml(line.amount)}</td>
+<td class="mono">${escapeHtml(line.orderHash)}</td>
+</tr>`,
+    )
+    .join("\n");
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(claimReceiptFileName(receipt, "pdf"))}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 32px; color: #000; }
+h1 { font-size: 20px; margin: 0 0 16px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 13px; }
+dt { font-weight: 700; }
+table { width: 100%; border-collapse: collapse; margin-top: 24px; font-size: 12px; }
+th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+.num { text-align: right; }
+.mono, dd { font-family: ui-monospace, monospace; word-break: break-all; }
+tfoot td { font-weight: 700; border-bottom: none; }
+</style>
+</head>
+<body>
+<h1>Albion payout claim receipt</h1>
+<dl>
+<dt>Wallet</dt><dd>${escapeHtml(receipt.wallet)}</dd>
+<dt>Transaction</dt><dd>${escapeHtml(receipt.txHash)}</dd>
+<dt>Block time (UTC)</dt><dd>${escapeHtml(receipt.blockTime)}</dd>
+<dt>Explorer</dt><dd><a href="${escapeHtml(receipt.explorerUrl)}">${escapeHtml(receipt.explorerUrl)}</a></dd>
+</dl>
+<table>
+<thead><tr><th>Field</th><th>Symbol</th><th>Payout month</th><th class="num">Amount (USDC)</th><th>Order hash</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+<tfoot><tr><td colspan="3">Total</td><td class="num">${escapeHtml(receipt.total)}</td><td></td></tr></tfoot>
+</table>
+</body>
+</html>`;
+}
+
+/** e.g. `albion-claim-receipt-0x0bb856c8.csv`. */
+export function claimReceiptFileName(
+  receipt: ClaimReceipt,
+  extension: "csv" | "pdf",
+): string {
+  return `albion-claim-receipt-${receipt.txHash.slice(0, 10).toLowerCase()}.${extension}`;
+}
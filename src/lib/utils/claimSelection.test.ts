@@ -0,0 +1,89 @@
+// src/lib/utils/claimSelection.test.ts
+import { describe, it, expect } from "vitest";
+import type { ClaimsHoldingsGroup } from "$lib/services/ClaimsService";
+import {
+  allHoldingKeys,
+  filterSelectedHoldings,
+  holdingKey,
+  pruneSelection,
+  selectedTotal,
+  setGroupSelected,
+  toggleHoldingKey,
+} from "./claimSelection";
+
+function group(
+  tokenAddress: string,
+  rows: Array<[orderHash: string, id: string, amount: string]>,
+): ClaimsHoldingsGroup {
+  const holdings = rows.map(([orderHash, id, unclaimedAmount]) => ({
+    id,
+    orderHash,
+    unclaimedAmount,
+  }));
+  return {
+    fieldName: "F",
+    tokenAddress,
+    symbol: tokenAddress.toUpperCase(),
+    totalAmount: holdings.reduce((s, h) => s + Number(h.unclaimedAmount), 0),
+    holdings,
+  };
+}
+
+// Two months for token A (same CSV index in both — index alone is not unique),
+// one for token B.
+const GROUPS = [
+  group("0xa", [
+    ["0xJAN", "3", "10"],
+    ["0xFEB", "3", "12.5"],
+  ]),
+  group("0xb", [["0xJAN", "7", "4"]]),
+];
+
+describe("holdingKey", () => {
+  it("distinguishes the same CSV index across claim orders", () => {
+    const [jan, feb] = GROUPS[0].holdings;
+    expect(holdingKey(jan)).not.toBe(holdingKey(feb));
+  });
+  it("is case-insensitive on the order hash", () => {
+    expect(holdingKey({ id: "1", orderHash: "0xAB" })).toBe(
+      holdingKey({ id: "1", orderHash: "0xab" }),
+    );
+  });
+});
+
+describe("selection", () => {
+  it("toggles single keys", () => {
+    const key = holdingKey(GROUPS[0].holdings[0]);
+    const on = toggleHoldingKey([], key);
+    expect(on).toEqual([key]);
+    expect(toggleHoldingKey(on, key)).toEqual([]);
+  });
+
+  it("selects and clears one group without touching others", () => {
+    const bKey = holdingKey(GROUPS[1].holdings[0]);
+    const all = setGroupSelected([bKey], GROUPS[0], true);
+    expect(all.sort()).toEqual(allHoldingKeys(GROUPS).sort());
+    expect(setGroupSelected(all, GROUPS[0], false)).toEqual([bKey]);
+  });
+
+  it("filters to the selected holdings and totals them", () => {
+    const feb = holdingKey(GROUPS[0].holdings[1]);
+    const b = holdingKey(GROUPS[1].holdings[0]);
+    const picked = filterSelectedHoldings(GROUPS, [feb, b]);
+    expect(picked.map((g) => g.tokenAddress)).toEqual(["0xa", "0xb"]);
+    expect(picked[0].holdings).toHaveLength(1);
+    expect(picked[0].totalAmount).toBe(12.5);
+    expect(selectedTotal(GROUPS, [feb, b])).toBe(16.5);
+  });
+
+  it("drops groups with nothing selected", () => {
+    const b = holdingKey(GROUPS[1].holdings[0]);
+    expect(filterSelectedHoldings(GROUPS, [b]).map((g) => g.tokenAddress)).toEqual(["0xb"]);
+    expect(selectedTotal(GROUPS, [])).toBe(0);
+  });
+
+  it("prunes keys for holdings that are gone", () => {
+    const jan = holdingKey(GROUPS[0].holdings[0]);
+    expect(pruneSelection([jan, "0xgone:1"], GROUPS)).toEqual([jan]);
+  });
+});
@@ -0,0 +1,91 @@
+// src/lib/utils/claimSelection.ts
+import type { ClaimsHoldingsGroup } from "$lib/services/ClaimsService";
+
+type Holding = ClaimsHoldingsGroup["holdings"][number];
+
+/**
+ * Selection model for claiming a subset of payouts.
+ *
+ * A holding is one unclaimed CSV row of one claim order, so `orderHash` + CSV
+ * index identifies it across loads: the display load and the proof-carrying
+ * refresh done right before submitting produce the same key for the same
+ * payout, which is how a selection made on display holdings is mapped back onto
+ * the fresh, claimable ones.
+ */
+export function holdingKey(holding: Pick<Holding, "id" | "orderHash">): string {
+  return `${(holding.orderHash ?? "").toLowerCase()}:${holding.id}`;
+}
+
+/** Every holding key across `groups` (the "select all" state). */
+export function allHoldingKeys(groups: ClaimsHoldingsGroup[]): string[] {
+  return groups.flatMap((group) => group.holdings.map(holdingKey));
+}
+
+/** Toggle one key, returning a new array (assignment-reactive for Svelte). */
+export function toggleHoldingKey(
+  selectedKeys: readonly string[],
+  key: string,
+): string[] {
+  return selectedKeys.includes(key)
+    ? selectedKeys.filter((k) => k !== key)
+    : [...selectedKeys, key];
+}
+
+/**
+ * Select or clear every holding of one group, leaving other groups' selection
+ * untouched.
+ */
+export function setGroupSelected(
+  selectedKeys: readonly string[],
+  group: ClaimsHoldingsGroup,
+  selected: boolean,
+): string[] {
+  const groupKeys = new Set(group.holdings.map(holdingKey));
+  const others = selectedKeys.filter((key) => !groupKeys.has(key));
+  return selected ? [...others, ...groupKeys] : others;
+}
+
+/**
+ * Keep only the selected holdings, dropping groups left empty. Group totals are
+ * recomputed over the kept holdings so callers can show or log them directly.
+ */
+export function filterSelectedHoldings(
+  groups: ClaimsHoldingsGroup[],
+  selectedKeys: readonly string[],
+): ClaimsHoldingsGroup[] {
+  const selected = new Set(selectedKeys);
+  const result: ClaimsHoldingsGroup[] = [];
+  for (const group of groups) {
+    const holdings = group.holdings.filter((h) => selected.has(holdingKey(h)));
+    if (holdings.length === 0) continue;
+    result.push({
+      ...group,
+      holdings,
+      totalAmount: holdings.reduce(
+        (sum, h) => sum + Number(h.unclaimedAmount),
+        0,
+      ),
+    });
+  }
+  return result;
+}
+
+/** Sum of `unclaimedAmount` over the selected holdings. */
+export function selectedTotal(
+  groups: ClaimsHoldingsGroup[],
+  selectedKeys: readonly string[],
+): number {
+  return filterSelectedHoldings(groups, selectedKeys).reduce(
+    (sum, group) => sum + group.totalAmount,
+    0,
+  );
+}
+
+/** Drop keys whose holding is no longer present (claimed, or a new wallet). */
+export function pruneSelection(
+  selectedKeys: readonly string[],
+  groups: ClaimsHoldingsGroup[],
+): string[] {
+  const present = new Set(allHoldingKeys(groups));
+  return selectedKeys.filter((key) => present.has(key));
+}
@@ -0,0 +1,130 @@
+// src/lib/utils/claims.distributionScript.test.ts
+import { describe, it, expect, vi } from "vitest";
+import { keccak256 as viemKeccak256, type Hex } from "viem";
+
+// The vitest ethers shim stubs keccak256 to "0x"; leaves need real hashes here.
+vi.mock("ethers", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("ethers")>();
+  return {
+    ...actual,
+    keccak256: (value: string) => viemKeccak256(value as Hex),
+  };
+});
+
+import {
+  allocatePayout,
+  claimEntry,
+  csvCid,
+  distributionCsv,
+  IPFS_CHUNK_SIZE,
+  leafFor,
+  merkleRoot,
+  toCsvRows,
+} from "../../../scripts/lib/distribution.mjs";
+import { getLeaf, getMerkleTree, type CsvClaimRow } from "./claims";
+import { verifyCid } from "./cidVerify";
+
+const A = "0x1111111111111111111111111111111111111111";
+const B = "0x2222222222222222222222222222222222222222";
+const C = "0x3333333333333333333333333333333333333333";
+const WEI = 10n ** 18n;
+
+describe("allocatePayout", () => {
+  it("splits pro rata and always sums to the total", () => {
+    const rows = allocatePayout(
+      [
+        { address: A, balance: "1" },
+        { address: B, balance: "2" },
+      ],
+      10n * WEI,
+    );
+    expect(rows).toEqual([
+      { address: A, amount: 3333333333333333333n },
+      { address: B, amount: 6666666666666666667n },
+    ]);
+    expect(rows.reduce((sum, row) => sum + row.amount, 0n)).toBe(10n * WEI);
+  });
+
+  it("merges duplicates and drops excluded, zero-address and empty holders", () => {
+    const rows = allocatePayout(
+      [
+        { address: B, balance: 1n },
+        { address: B.toUpperCase().replace("0X", "0x"), balance: 1n },
+        { address: A, balance: 0n },
+        { address: C, balance: 5n },
+        { address: "0x0000000000000000000000000000000000000000", balance: 9n },
+      ],
+      4n,
+      { exclude: [C] },
+    );
+    expect(rows).toEqual([{ address: B, amount: 4n }]);
+  });
+
+  it("rejects invalid input", () => {
+    expect(() => allocatePayout([{ address: A, balance: 1n }], 0n)).toThrow(
+      /positive/,
+    );
+    expect(() =>
+      allocatePayout([{ address: "0x12", balance: 1n }], 1n),
+    ).toThrow(/invalid holder address/);
+    expect(() => allocatePayout([{ address: A, balance: 0n }], 1n)).toThrow(
+      /no holders/,
+    );
+  });
+});
+
+describe("distribution leaves and root", () => {
+  const rows = toCsvRows(
+    allocatePayout(
+      [
+        { address: A, balance: 3n },
+        { address: B, balance: 5n },
+        { address: C, balance: 7n },
+      ],
+      1234n * WEI + 5n,
+    ),
+  );
+
+  it.each(["int18", "float"] as const)(
+    "matches getLeaf / getMerkleTree for %s",
+    (encoding) => {
+      for (const row of rows) {
+        expect(leafFor(row.index, row.address, row.amount, encoding)).toBe(
+          getLeaf(row.index, row.address, row.amount, encoding),
+        );
+      }
+      expect(merkleRoot(rows, encoding)).toBe(
+        getMerkleTree(rows as CsvClaimRow[], encoding).root,
+      );
+    },
+  );
+
+  it("writes a CSV whose CID the app verifies and a manifest-ready Claim", async () => {
+    const text = distributionCsv(rows);
+    expect(text.split("\n")[0]).toBe("index,address,amount");
+    expect(text.split("\n")[1]).toBe(`0,${A},${rows[0].amount}`);
+
+    const bytes = new TextEncoder().encode(text);
+    const cid = await csvCid(bytes);
+    expect(await verifyCid(bytes, cid)).toBe(true);
+
+    const root = merkleRoot(rows, "float");
+    expect(claimEntry({ cid, root })).toEqual({
+      csvLink: `/api/ipfs/${cid}`,
+      expectedMerkleRoot: root,
+      expectedContentHash: cid,
+    });
+    expect(
+      claimEntry({ cid, root, orderHash: "0xabc", deployBlock: 12 }),
+    ).toMatchObject({ orderHash: "0xabc", deployBlock: 12 });
+  });
+
+  it("refuses a CSV too large to pin as one raw leaf", async () => {
+    await expect(csvCid(new Uint8Array(IPFS_CHUNK_SIZE + 1))).rejects.toThrow(
+      /over one IPFS chunk/,
+    );
+    await expect(csvCid(new Uint8Array(IPFS_CHUNK_SIZE))).resolves.toMatch(
+      /^bafkrei/,
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { ContextScanError, HYPERSYNC_URL, fetchLogs } from "./claims";
+
+const OB = "0x2222222222222222222222222222222222222222";
+const TOPIC = `0x${"ab".repeat(32)}`;
+const OWNER = "0x1111111111111111111111111111111111111111";
+
+describe("fetchLogs with an injected fetch (server transport)", () => {
+  it("posts the owner-scoped request through fetchFn", async () => {
+    const logs = [{ transaction_hash: "0x1" }];
+    const fetchFn = vi.fn(async () => Response.json({ logs, fromCache: true }));
+    const result = await fetchLogs(
+      HYPERSYNC_URL,
+      OB,
+      TOPIC,
+      100,
+      false,
+      OWNER,
+      fetchFn as unknown as typeof fetch,
+    );
+    expect(result).toEqual(logs);
+    const [url, init] = fetchFn.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe("/api/context-events");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(String(init.body))).toEqual({
+      contractAddress: OB,
+      eventTopics: [TOPIC],
+      fromBlock: 100,
+      forceRefresh: false,
+      owner: OWNER,
+    });
+  });
+
+  it("treats a 503 scan_unavailable as a scan failure, not an empty set", async () => {
+    const fetchFn = vi.fn(async () =>
+      Response.json({ logs: [], error: "scan_unavailable" }, { status: 503 }),
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(
+      fetchLogs(
+        HYPERSYNC_URL,
+        OB,
+        TOPIC,
+        100,
+        false,
+        OWNER,
+        fetchFn as unknown as typeof fetch,
+      ),
+    ).rejects.toBeInstanceOf(ContextScanError);
+  });
+});
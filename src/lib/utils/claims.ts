@@ -182,6 +182,7 @@ export type ClaimHistory = {
   tokenAddress?: string;
   symbol?: string;
   orderHash?: string; // Used to look up payout date from metadata
+  wallet?: string; // Set when results from several wallets are merged
 };
 
 export type ClaimSignedContext = {
@@ -215,13 +216,16 @@ const IPFS_FETCH_TIMEOUT_MS = 15_000;
 
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-async function fetchWithRetry(url: string): Promise<Response> {
+async function fetchWithRetry(
+  url: string,
+  fetchFn: typeof fetch = fetch,
+): Promise<Response> {
   let lastError: unknown;
   for (let attempt = 1; attempt <= IPFS_FETCH_RETRIES + 1; attempt += 1) {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), IPFS_FETCH_TIMEOUT_MS);
     try {
-      const response = await fetch(url, { signal: controller.signal });
+      const response = await fetchFn(url, { signal: controller.signal });
       clearTimeout(timeout);
       return response;
     } catch (error) {
@@ -274,14 +278,16 @@ export async function verifyAndParseCsvBytes(
  * claim time, not on this load path.
  * @param csvLink - IPFS link to CSV file
  * @param expectedContentHash - Expected IPFS content hash (CID)
+ * @param fetchFn - Server callers pass `event.fetch` so `/api/ipfs` resolves in-process
  * @returns Parsed CSV data or null if fetch/verification fails
  */
 export async function fetchAndVerifyCSV(
   csvLink: string,
   expectedContentHash: string,
+  fetchFn?: typeof fetch,
 ): Promise<CsvClaimRow[] | null> {
   try {
-    const response = await fetchWithRetry(csvLink);
+    const response = await fetchWithRetry(csvLink, fetchFn);
     if (!response.ok) return null;
     const bytes = new Uint8Array(await response.arrayBuffer());
     return await verifyAndParseCsvBytes(bytes, expectedContentHash);
@@ -542,6 +548,9 @@ export class ContextScanError extends Error {
  *
  * Throws ContextScanError on a failed scan (so an outage isn't mistaken for
  * "nothing claimed"); returns [] only for a genuine empty 200 or startBlock<=0.
+ *
+ * Server callers pass `fetchFn` (`event.fetch`) so the request is served by the
+ * same cached endpoint in-process; the browser keeps using axios.
  */
 export async function fetchLogs(
   _client: string,
@@ -550,28 +559,43 @@ export async function fetchLogs(
   startBlock: number,
   forceRefresh = false,
   owner?: string,
+  fetchFn?: typeof fetch,
 ): Promise<HypersyncResult[]> {
   if (!startBlock || startBlock <= 0) {
     return [];
   }
 
   const eventTopics = Array.isArray(eventTopic) ? eventTopic : [eventTopic];
+  const body = {
+    contractAddress: poolContract,
+    eventTopics,
+    fromBlock: startBlock,
+    forceRefresh,
+    // Server-side response filter: claimed-detection only ever matches logs
+    // whose Context sender equals the CSV row's owner (decodedLogMatchesClaim),
+    // so scoping the response to this wallet cuts the every-wallet ~3.5MB log
+    // set down to a few KB without touching the shared server cache.
+    ...(owner ? { owner } : {}),
+  };
 
   try {
+    if (fetchFn) {
+      const response = await fetchFn("/api/context-events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(`Context events request failed (${response.status})`);
+      }
+      const data = (await response.json()) as { logs?: HypersyncResult[] };
+      return data?.logs || [];
+    }
+
     const response = await axios.post<{
       logs: HypersyncResult[];
       fromCache: boolean;
-    }>("/api/context-events", {
-      contractAddress: poolContract,
-      eventTopics,
-      fromBlock: startBlock,
-      forceRefresh,
-      // Server-side response filter: claimed-detection only ever matches logs
-      // whose Context sender equals the CSV row's owner (decodedLogMatchesClaim),
-      // so scoping the response to this wallet cuts the every-wallet ~3.5MB log
-      // set down to a few KB without touching the shared server cache.
-      ...(owner ? { owner } : {}),
-    });
+    }>("/api/context-events", body);
 
     return response.data?.logs || [];
   } catch (error) {
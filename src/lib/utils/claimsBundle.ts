@@ -1,6 +1,7 @@
 // src/lib/utils/claimsBundle.ts
 import { sha256 } from "multiformats/hashes/sha2";
 import { ENERGY_FIELDS } from "$lib/network";
+import { loadClaimsManifest } from "./claimsManifest";
 
 /** Bump when the envelope shape or hashing scheme changes. Shared by client and server. */
 export const BUNDLE_SCHEMA_VERSION = 1;
@@ -17,7 +18,10 @@ const toHex = (bytes: Uint8Array): string =>
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 
-/** Unique, sorted rewards-CSV CIDs from the baked manifest. */
+/**
+ * Unique, sorted rewards-CSV CIDs. Defaults to the baked manifest; callers that
+ * must agree with the runtime manifest pass `await loadClaimsManifest()`.
+ */
 export function collectClaimCids(fields = ENERGY_FIELDS): string[] {
   const cids = new Set<string>();
   for (const field of fields)
@@ -62,7 +66,7 @@ export function getClaimsBundle(
 }
 
 async function loadBundle(fetchFn: typeof fetch): Promise<Map<string, Uint8Array>> {
-  const cids = collectClaimCids();
+  const cids = collectClaimCids(await loadClaimsManifest(fetchFn));
   if (cids.length === 0) return new Map();
   const setHash = await computeSetHash(cids);
   const controller = new AbortController();
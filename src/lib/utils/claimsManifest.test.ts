@@ -0,0 +1,219 @@
+// src/lib/utils/claimsManifest.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { get } from "svelte/store";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { CID } from "multiformats/cid";
+import { sha256 } from "multiformats/hashes/sha2";
+import * as raw from "multiformats/codecs/raw";
+
+const mockEnv = vi.hoisted(() => ({}) as Record<string, string | undefined>);
+vi.mock("$env/dynamic/public", () => ({ env: mockEnv }));
+
+vi.mock("$lib/network", () => ({
+  ENERGY_FIELDS: [
+    {
+      name: "F1",
+      sftTokens: [
+        {
+          address: "0xa",
+          symbol: "A",
+          claims: [
+            { orderHash: "0x1", csvLink: "/api/ipfs/cidA", expectedMerkleRoot: "0xaa", expectedContentHash: "cidA", orderBytes: "0xo1", orderbook: "0xob", deployBlock: 100 },
+          ],
+        },
+      ],
+    },
+  ],
+}));
+
+import type { ClaimsManifest } from "./claimsManifest";
+import type { EnergyField } from "$lib/network";
+
+// The manifest cache and store are module state: each test gets fresh modules.
+let buildClaimsManifestMessage: typeof import("./claimsManifest").buildClaimsManifestMessage;
+let energyFields: typeof import("./claimsManifest").energyFields;
+let loadClaimsManifest: typeof import("./claimsManifest").loadClaimsManifest;
+let verifyClaimsManifest: typeof import("./claimsManifest").verifyClaimsManifest;
+let ENERGY_FIELDS: EnergyField[];
+
+const signer = privateKeyToAccount(generatePrivateKey());
+const stranger = privateKeyToAccount(generatePrivateKey());
+const SIGNERS = [signer.address.toLowerCase()];
+
+const BAKED_CLAIM = {
+  orderHash: "0x1",
+  csvLink: "/api/ipfs/cidA",
+  expectedMerkleRoot: "0xaa",
+  expectedContentHash: "cidA",
+  orderBytes: "0xo1",
+  orderbook: "0xob",
+  deployBlock: 100,
+};
+
+const withClaims = (...claims: object[]): EnergyField[] => [
+  { name: "F1", sftTokens: [{ address: "0xa", symbol: "A", claims }] } as unknown as EnergyField,
+];
+
+const WITH_NEW_RELEASE: EnergyField[] = [
+  {
+    name: "F1",
+    sftTokens: [
+      {
+        address: "0xa",
+        symbol: "A",
+        claims: [
+          { orderHash: "0x1", csvLink: "/api/ipfs/cidA", expectedMerkleRoot: "0xaa", expectedContentHash: "cidA", orderBytes: "0xo1", orderbook: "0xob", deployBlock: 100 },
+          { orderHash: "0x2", csvLink: "/api/ipfs/cidB", expectedMerkleRoot: "0xbb", expectedContentHash: "cidB" },
+        ],
+      },
+    ],
+  } as EnergyField,
+];
+
+async function signedManifest(
+  fields: EnergyField[],
+  account = signer,
+  version = 2,
+) {
+  const unsigned = { schema: 1, version, issuedAt: "2026-01-01T00:00:00.000Z", energyFields: fields };
+  const manifest: ClaimsManifest = {
+    ...unsigned,
+    signature: await account.signMessage({ message: buildClaimsManifestMessage(unsigned) }),
+  };
+  const encoded = new TextEncoder().encode(JSON.stringify(manifest));
+  const bytes = new Uint8Array(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+  const cid = CID.create(1, raw.code, await sha256.digest(bytes)).toString();
+  return { bytes, cid };
+}
+
+beforeEach(async () => {
+  delete mockEnv.PUBLIC_CLAIMS_MANIFEST_SIGNERS;
+  vi.resetModules();
+  ({ buildClaimsManifestMessage, energyFields, loadClaimsManifest, verifyClaimsManifest } = await import(
+    "./claimsManifest"
+  ));
+  ({ ENERGY_FIELDS } = await import("$lib/network"));
+});
+
+describe("verifyClaimsManifest", () => {
+  it("accepts a manifest signed by a trusted signer that keeps the baked claims", async () => {
+    const { bytes, cid } = await signedManifest(WITH_NEW_RELEASE);
+    const manifest = await verifyClaimsManifest(bytes, cid, SIGNERS);
+    expect(manifest?.energyFields[0].sftTokens[0].claims).toHaveLength(2);
+  });
+
+  it("rejects a manifest signed by an unknown key", async () => {
+    const { bytes, cid } = await signedManifest(WITH_NEW_RELEASE, stranger);
+    expect(await verifyClaimsManifest(bytes, cid, SIGNERS)).toBeNull();
+  });
+
+  it("rejects bytes that do not match the CID", async () => {
+    const { bytes, cid } = await signedManifest(WITH_NEW_RELEASE);
+    const tampered = bytes.slice();
+    tampered[tampered.length - 2] ^= 1;
+    expect(await verifyClaimsManifest(tampered, cid, SIGNERS)).toBeNull();
+  });
+
+  it("rejects a signed manifest that drops or alters a baked claim", async () => {
+    const altered: EnergyField[] = [
+      {
+        name: "F1",
+        sftTokens: [
+          {
+            address: "0xa",
+            symbol: "A",
+            claims: [
+              { orderHash: "0x1", csvLink: "/api/ipfs/cidX", expectedMerkleRoot: "0xaa", expectedContentHash: "cidX" },
+            ],
+          },
+        ],
+      } as EnergyField,
+    ];
+    const { bytes, cid } = await signedManifest(altered);
+    expect(await verifyClaimsManifest(bytes, cid, SIGNERS)).toBeNull();
+    const dropped = await signedManifest([]);
+    expect(await verifyClaimsManifest(dropped.bytes, dropped.cid, SIGNERS)).toBeNull();
+  });
+
+  it("rejects a signed manifest that changes a baked claim's order", async () => {
+    for (const change of [
+      { orderBytes: "0xo2" },
+      { orderbook: "0xother" },
+      { deployBlock: 1 },
+      { orderBytes: undefined },
+    ]) {
+      const { bytes, cid } = await signedManifest(withClaims({ ...BAKED_CLAIM, ...change }));
+      expect(await verifyClaimsManifest(bytes, cid, SIGNERS)).toBeNull();
+    }
+    const recased = await signedManifest(withClaims({ ...BAKED_CLAIM, orderbook: "0xOB" }));
+    expect(await verifyClaimsManifest(recased.bytes, recased.cid, SIGNERS)).not.toBeNull();
+  });
+
+  it("rejects order fields of the wrong type", async () => {
+    const { bytes, cid } = await signedManifest(withClaims(BAKED_CLAIM, { ...BAKED_CLAIM, orderHash: "0x2", deployBlock: "7" }));
+    expect(await verifyClaimsManifest(bytes, cid, SIGNERS)).toBeNull();
+  });
+
+  it("is disabled without configured signers", async () => {
+    const { bytes, cid } = await signedManifest(WITH_NEW_RELEASE);
+    expect(await verifyClaimsManifest(bytes, cid, [])).toBeNull();
+  });
+});
+
+describe("loadClaimsManifest", () => {
+  it("returns the baked fields without fetching when no signers are configured", async () => {
+    const fetchFn = vi.fn();
+    expect(await loadClaimsManifest(fetchFn as unknown as typeof fetch)).toBe(ENERGY_FIELDS);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it("loads the pointed-to manifest and publishes it on the store", async () => {
+    mockEnv.PUBLIC_CLAIMS_MANIFEST_SIGNERS = signer.address;
+    const { bytes, cid } = await signedManifest(WITH_NEW_RELEASE);
+    const fetchFn = vi.fn(async (url: string) =>
+      url === "/api/claims-manifest"
+        ? new Response(JSON.stringify({ cid, version: 2 }))
+        : new Response(bytes),
+    );
+    const fields = await loadClaimsManifest(fetchFn as unknown as typeof fetch);
+    expect(fields).toEqual(WITH_NEW_RELEASE);
+    expect(get(energyFields)).toEqual(WITH_NEW_RELEASE);
+    expect(fetchFn).toHaveBeenCalledWith(`/api/ipfs/${cid}`, expect.anything());
+
+    // Cached: a second caller inside the TTL does not refetch, even with its
+    // own fetch (a later server request's event.fetch).
+    const laterFetch = vi.fn();
+    expect(await loadClaimsManifest(laterFetch as unknown as typeof fetch)).toEqual(WITH_NEW_RELEASE);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(laterFetch).not.toHaveBeenCalled();
+  });
+
+  it("reloads through the caller's own fetch once the cache expires", async () => {
+    mockEnv.PUBLIC_CLAIMS_MANIFEST_SIGNERS = signer.address;
+    const { bytes, cid } = await signedManifest(WITH_NEW_RELEASE);
+    const serve = () =>
+      vi.fn(async (url: string) =>
+        url === "/api/claims-manifest"
+          ? new Response(JSON.stringify({ cid, version: 2 }))
+          : new Response(bytes),
+      );
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const first = serve();
+      await loadClaimsManifest(first as unknown as typeof fetch);
+      vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+      const second = serve();
+      expect(await loadClaimsManifest(second as unknown as typeof fetch)).toEqual(WITH_NEW_RELEASE);
+      expect(first).toHaveBeenCalledTimes(2);
+      expect(second).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("falls back to the baked fields when the pointer is missing", async () => {
+    mockEnv.PUBLIC_CLAIMS_MANIFEST_SIGNERS = signer.address;
+    const fetchFn = vi.fn(async () => new Response("{}", { status: 404 }));
+    expect(await loadClaimsManifest(fetchFn as unknown as typeof fetch)).toBe(ENERGY_FIELDS);
+  });
+});
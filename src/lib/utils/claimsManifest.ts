@@ -0,0 +1,277 @@
+// src/lib/utils/claimsManifest.ts
+import { writable } from "svelte/store";
+import { keccak256, recoverMessageAddress, stringToHex, type Hex } from "viem";
+import { env as publicEnv } from "$env/dynamic/public";
+import { ENERGY_FIELDS, type Claim, type EnergyField } from "$lib/network";
+import { verifyCid } from "./cidVerify";
+
+/**
+ * Runtime claims manifest: the `EnergyField`/`SftToken`/`Claim` tree that used
+ * to require a network.ts edit + redeploy per payout release.
+ *
+ * Trust model mirrors the claim CSVs. The document is pinned to IPFS and
+ * fetched through `/api/ipfs/<cid>`, so its bytes are re-hashed against the CID
+ * the pointer names; on top of that it carries an EIP-191 signature from one of
+ * the configured manifest signers, so the mutable pointer (`/api/claims-manifest`)
+ * is an untrusted transport — it can only choose between documents a signer
+ * already approved. Every failure lands on the baked `ENERGY_FIELDS`.
+ */
+
+/** Bump when the document shape or signed message changes. */
+export const CLAIMS_MANIFEST_SCHEMA_VERSION = 1;
+
+/** Re-check the pointer this often; a new release shows up without a reload. */
+const MANIFEST_TTL_MS = 5 * 60 * 1000;
+const MANIFEST_FETCH_TIMEOUT_MS = 15_000;
+
+export interface ClaimsManifest {
+  schema: number;
+  /** Monotonic release counter; the pointer only ever moves forward. */
+  version: number;
+  /** ISO-8601 timestamp chosen by the publisher at signing time. */
+  issuedAt: string;
+  energyFields: EnergyField[];
+  /** EIP-191 signature over `buildClaimsManifestMessage(manifest)`. */
+  signature: string;
+}
+
+/** Pointer returned by `GET /api/claims-manifest`. */
+export interface ClaimsManifestPointer {
+  cid: string;
+  version: number;
+}
+
+/**
+ * Canonical message the publisher signs. The energy fields are committed via
+ * keccak256 of their JSON serialisation — JSON.parse preserves key order, so
+ * re-serialising the parsed document reproduces the publisher's bytes.
+ */
+export function buildClaimsManifestMessage(
+  manifest: Pick<ClaimsManifest, "version" | "issuedAt" | "energyFields">,
+): string {
+  const digest = keccak256(stringToHex(JSON.stringify(manifest.energyFields)));
+  return [
+    `Albion claims manifest v${CLAIMS_MANIFEST_SCHEMA_VERSION}`,
+    `Version: ${manifest.version}`,
+    `Issued: ${manifest.issuedAt}`,
+    `Fields: ${digest}`,
+  ].join("\n");
+}
+
+/**
+ * Addresses allowed to sign a manifest (`PUBLIC_CLAIMS_MANIFEST_SIGNERS`,
+ * comma-separated). Empty means the runtime manifest is disabled and only the
+ * baked fields are used.
+ */
+export function trustedManifestSigners(): string[] {
+  const raw = publicEnv.PUBLIC_CLAIMS_MANIFEST_SIGNERS ?? "";
+  return raw
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => /^0x[0-9a-f]{40}$/.test(s));
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+/** The optional order fields decide what is decoded, funded-checked and taken. */
+const hasValidOrderFields = (claim: unknown): boolean => {
+  const { orderBytes, orderbook, deployBlock } = claim as Claim;
+  return (
+    (orderBytes === undefined || isNonEmptyString(orderBytes)) &&
+    (orderbook === undefined || isNonEmptyString(orderbook)) &&
+    (deployBlock === undefined ||
+      (Number.isInteger(deployBlock) && deployBlock >= 0))
+  );
+};
+
+/** Structural check of the energy-field tree (the shape ClaimsService reads). */
+export function isEnergyFieldList(value: unknown): value is EnergyField[] {
+  if (!Array.isArray(value)) return false;
+  return value.every(
+    (field) =>
+      isNonEmptyString(field?.name) &&
+      Array.isArray(field.sftTokens) &&
+      field.sftTokens.every(
+        (token: unknown) =>
+          isNonEmptyString((token as { address?: unknown })?.address) &&
+          isNonEmptyString((token as { symbol?: unknown }).symbol) &&
+          Array.isArray((token as { claims?: unknown }).claims) &&
+          (token as { claims: unknown[] }).claims.every(
+            (claim) =>
+              isNonEmptyString((claim as { orderHash?: unknown })?.orderHash) &&
+              isNonEmptyString((claim as { csvLink?: unknown }).csvLink) &&
+              isNonEmptyString(
+                (claim as { expectedMerkleRoot?: unknown }).expectedMerkleRoot,
+              ) &&
+              isNonEmptyString(
+                (claim as { expectedContentHash?: unknown })
+                  .expectedContentHash,
+              ) &&
+              hasValidOrderFields(claim),
+          ),
+      ),
+  );
+}
+
+/** Same baked claim: CSV, root and the order it is taken from. */
+function sameClaim(remote: Claim, baked: Claim): boolean {
+  const lower = (value: string | undefined) => value?.toLowerCase();
+  return (
+    remote.expectedContentHash === baked.expectedContentHash &&
+    lower(remote.expectedMerkleRoot) === lower(baked.expectedMerkleRoot) &&
+    lower(remote.orderBytes) === lower(baked.orderBytes) &&
+    lower(remote.orderbook) === lower(baked.orderbook) &&
+    remote.deployBlock === baked.deployBlock
+  );
+}
+
+/**
+ * A remote manifest may add releases but never drop or alter a baked claim:
+ * every baked orderHash must still be present with the same CSV CID, root,
+ * order bytes, orderbook and deploy block. Caps the damage of a leaked signer
+ * key to "adds claims", which the on-chain merkle root still guards.
+ */
+export function coversBakedClaims(
+  fields: EnergyField[],
+  baked: EnergyField[] = ENERGY_FIELDS,
+): boolean {
+  const remote = new Map<string, Claim>();
+  for (const field of fields)
+    for (const token of field.sftTokens)
+      for (const claim of token.claims)
+        remote.set(claim.orderHash.toLowerCase(), claim);
+  for (const field of baked)
+    for (const token of field.sftTokens)
+      for (const claim of token.claims) {
+        const match = remote.get(claim.orderHash.toLowerCase());
+        if (!match || !sameClaim(match, claim)) return false;
+      }
+  return true;
+}
+
+/**
+ * Verify a fetched manifest document: CID, shape, signature, baked coverage.
+ * Returns the parsed manifest, or null on ANY failure (never throws).
+ */
+export async function verifyClaimsManifest(
+  bytes: Uint8Array,
+  expectedCid: string,
+  signers: string[] = trustedManifestSigners(),
+  baked: EnergyField[] = ENERGY_FIELDS,
+): Promise<ClaimsManifest | null> {
+  if (signers.length === 0) return null;
+  if (!(await verifyCid(bytes, expectedCid))) return null;
+  try {
+    const doc = JSON.parse(new TextDecoder().decode(bytes)) as ClaimsManifest;
+    if (
+      doc?.schema !== CLAIMS_MANIFEST_SCHEMA_VERSION ||
+      !Number.isInteger(doc.version) ||
+      !isNonEmptyString(doc.issuedAt) ||
+      !isNonEmptyString(doc.signature) ||
+      !isEnergyFieldList(doc.energyFields)
+    ) {
+      return null;
+    }
+    const recovered = (
+      await recoverMessageAddress({
+        message: buildClaimsManifestMessage(doc),
+        signature: doc.signature as Hex,
+      })
+    ).toLowerCase();
+    if (!signers.includes(recovered)) return null;
+    if (!coversBakedClaims(doc.energyFields, baked)) return null;
+    return doc;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Active energy fields: the baked manifest until a verified remote one loads.
+ * Reactive consumers (platform stats) subscribe; async ones await
+ * `loadClaimsManifest()`.
+ */
+export const energyFields = writable<EnergyField[]>([], (set) => {
+  // Seeded on first subscribe rather than at import so the baked list is read
+  // lazily, like every other ENERGY_FIELDS use site.
+  set(activeFields ?? ENERGY_FIELDS);
+});
+
+let activeFields: EnergyField[] | null = null;
+// The resolved fields, not a promise: a promise would keep the fetch of the
+// caller that started it, and on the server that is one request's
+// `event.fetch`.
+let manifestCache: { fields: EnergyField[]; loadedAt: number } | null = null;
+// Concurrent loads through the same fetch share one round trip.
+let inflight: {
+  fetchFn: typeof fetch;
+  promise: Promise<EnergyField[]>;
+} | null = null;
+
+/**
+ * Resolve the active energy fields (cached, re-checked every
+ * MANIFEST_TTL_MS). NEVER throws: a missing pointer, fetch failure, CID
+ * mismatch or bad signature all resolve to the baked `ENERGY_FIELDS`.
+ * Server routes pass `event.fetch` so relative URLs resolve in-process.
+ */
+export function loadClaimsManifest(
+  fetchFn: typeof fetch = fetch,
+): Promise<EnergyField[]> {
+  if (trustedManifestSigners().length === 0) {
+    return Promise.resolve(ENERGY_FIELDS);
+  }
+  if (manifestCache && Date.now() - manifestCache.loadedAt <= MANIFEST_TTL_MS) {
+    return Promise.resolve(manifestCache.fields);
+  }
+  if (inflight?.fetchFn === fetchFn) return inflight.promise;
+
+  const promise = fetchManifest(fetchFn)
+    .then((manifest) => manifest?.energyFields ?? ENERGY_FIELDS)
+    .catch(() => ENERGY_FIELDS)
+    .then((fields) => {
+      manifestCache = { fields, loadedAt: Date.now() };
+      activeFields = fields;
+      energyFields.set(fields);
+      return fields;
+    })
+    .finally(() => {
+      if (inflight?.promise === promise) inflight = null;
+    });
+  inflight = { fetchFn, promise };
+  return promise;
+}
+
+async function fetchWithTimeout(
+  fetchFn: typeof fetch,
+  url: string,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(
+    () => controller.abort(),
+    MANIFEST_FETCH_TIMEOUT_MS,
+  );
+  try {
+    return await fetchFn(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** Fetch the current pointer, then the document it names, and verify it. */
+async function fetchManifest(
+  fetchFn: typeof fetch,
+): Promise<ClaimsManifest | null> {
+  const pointerResponse = await fetchWithTimeout(
+    fetchFn,
+    "/api/claims-manifest",
+  );
+  if (!pointerResponse.ok) return null;
+  const pointer = (await pointerResponse.json()) as ClaimsManifestPointer;
+  if (!isNonEmptyString(pointer?.cid)) return null;
+
+  const response = await fetchWithTimeout(fetchFn, `/api/ipfs/${pointer.cid}`);
+  if (!response.ok) return null;
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return verifyClaimsManifest(bytes, pointer.cid);
+}
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi } from "vitest";
+import type { DepositWithReceipt } from "$lib/types/graphql";
+import {
+  acquisitionsFromDeposits,
+  applyCostOverrides,
+  fetchWalletTransferEvents,
+  loadCostBasisMethod,
+  loadCostOverrides,
+  loadManualLots,
+  migrateLegacyPurchases,
+  migrateSecondaryPurchases,
+  pairWalletTransfers,
+  saveCostOverrides,
+  tokenCostBasis,
+  withoutInternalTransfers,
+  type Acquisition,
+  type Disposal,
+  type TransferLeg,
+} from "./costBasis";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const USDC = "0x00000000000000000000000000000000000000cc";
+const WALLET = "0x1111111111111111111111111111111111111111";
+const SELLER = "0x2222222222222222222222222222222222222222";
+const ORDERBOOK = "0x00000000000000000000000000000000000000b6";
+const ZERO = "0x0000000000000000000000000000000000000000";
+const ONE = 10n ** 18n;
+
+const buy = (
+  id: string,
+  timestamp: number,
+  quantity: number,
+  cost: number | null,
+): Acquisition => ({
+  id,
+  token: TOKEN,
+  timestamp,
+  quantity,
+  cost,
+  source: cost === null ? "transfer" : "purchase",
+  counterparty: SELLER,
+});
+
+const sell = (timestamp: number, quantity: number): Disposal => ({
+  id: `out:${timestamp}`,
+  token: TOKEN,
+  timestamp,
+  quantity,
+  proceeds: null,
+  counterparty: SELLER,
+});
+
+describe("acquisitionsFromDeposits", () => {
+  it("costs primary deposits at 1 USDC per token", () => {
+    const deposits = [
+      {
+        id: "0xdep",
+        amount: (3n * ONE).toString(),
+        caller: { address: WALLET },
+        offchainAssetReceiptVault: { id: TOKEN.toUpperCase() },
+        transaction: { timestamp: "1700000000" },
+      },
+    ] as DepositWithReceipt[];
+    expect(acquisitionsFromDeposits(deposits)).toEqual([
+      {
+        id: "deposit:0xdep",
+        token: TOKEN,
+        timestamp: 1700000000,
+        quantity: 3,
+        cost: 3,
+        source: "mint",
+        counterparty: null,
+      },
+    ]);
+  });
+});
+
+describe("tokenCostBasis", () => {
+  const lots = [buy("a", 1, 10, 10), buy("b", 2, 10, 30)];
+
+  it("consumes the oldest lots first under FIFO", () => {
+    const basis = tokenCostBasis(lots, [sell(3, 15)], "fifo");
+    expect(basis.lots).toEqual([
+      { acquisitionId: "b", timestamp: 2, quantity: 5, cost: 15 },
+    ]);
+    expect(basis.cost).toBe(15);
+  });
+
+  it("keeps the average cost when selling under average cost", () => {
+    const basis = tokenCostBasis(lots, [sell(3, 15)], "average");
+    expect(basis.cost).toBeCloseTo(10);
+    expect(basis.lots.map((lot) => lot.quantity)).toEqual([2.5, 2.5]);
+  });
+
+  it("only disposes of what was acquired before", () => {
+    const basis = tokenCostBasis(lots, [sell(1.5, 10)], "fifo");
+    expect(basis.cost).toBe(30);
+  });
+
+  it("reports tokens of unknown cost separately", () => {
+    const basis = tokenCostBasis([...lots, buy("c", 4, 5, null)], [], "fifo");
+    expect(basis.cost).toBe(40);
+    expect(basis.unknownQuantity).toBe(5);
+  });
+
+  it("reconciles with the actual balance", () => {
+    expect(tokenCostBasis(lots, [], "fifo", 5).cost).toBe(15);
+
+    const topped = tokenCostBasis(lots, [], "fifo", 25);
+    expect(topped.cost).toBe(40);
+    expect(topped.unknownQuantity).toBe(5);
+    expect(topped.lots.at(-1)?.acquisitionId).toBe("unattributed");
+  });
+});
+
+describe("applyCostOverrides / withoutInternalTransfers", () => {
+  it("replaces only the overridden acquisition's cost", () => {
+    const [a, c] = applyCostOverrides(
+      [buy("a", 1, 10, 10), buy("c", 2, 5, null)],
+      { c: 6 },
+    );
+    expect(a.cost).toBe(10);
+    expect(c.cost).toBe(6);
+  });
+
+  it("drops moves between the portfolio's own wallets", () => {
+    const events = [
+      buy("a", 1, 1, null),
+      { ...buy("b", 1, 1, 1), counterparty: null },
+    ];
+    expect(
+      withoutInternalTransfers(events, [SELLER.toUpperCase()]).map((e) => e.id),
+    ).toEqual(["b"]);
+  });
+});
+
+describe("pairWalletTransfers", () => {
+  const leg = (
+    address: string,
+    txHash: string,
+    from: string,
+    to: string,
+    value: bigint,
+    logIndex = 0,
+  ): TransferLeg => ({
+    address,
+    txHash,
+    blockNumber: 1,
+    logIndex,
+    timestamp: 100,
+    from,
+    to,
+    value,
+  });
+
+  it("prices buys and sales from the same transaction's USDC leg", () => {
+    const { acquisitions, disposals } = pairWalletTransfers({
+      wallet: WALLET.toUpperCase(),
+      tokenTransfers: [
+        leg(TOKEN, "0xbuy", ORDERBOOK, WALLET, ONE, 1),
+        leg(TOKEN, "0xbuy", SELLER, WALLET, 3n * ONE, 2),
+        leg(TOKEN, "0xsell", WALLET, SELLER, 2n * ONE),
+      ],
+      usdcTransfers: [
+        leg(USDC, "0xbuy", WALLET, ORDERBOOK, 8_000_000n),
+        leg(USDC, "0xsell", SELLER, WALLET, 5_000_000n),
+      ],
+      usdcDecimals: 6,
+      escrows: [ORDERBOOK],
+    });
+    expect(
+      acquisitions.map((a) => [a.id, a.quantity, a.cost, a.source]),
+    ).toEqual([
+      ["0xbuy:1", 1, 2, "purchase"],
+      ["0xbuy:2", 3, 6, "purchase"],
+    ]);
+    expect(disposals.map((d) => [d.quantity, d.proceeds])).toEqual([[2, 5]]);
+  });
+
+  it("skips mints and unpaid OrderBook escrow moves, keeps gifts", () => {
+    const { acquisitions, disposals } = pairWalletTransfers({
+      wallet: WALLET,
+      tokenTransfers: [
+        leg(TOKEN, "0xmint", ZERO, WALLET, ONE),
+        leg(TOKEN, "0xlist", WALLET, ORDERBOOK, ONE),
+        leg(TOKEN, "0xgift", SELLER, WALLET, ONE),
+      ],
+      usdcTransfers: [],
+      usdcDecimals: 6,
+      escrows: [ORDERBOOK],
+    });
+    expect(disposals).toEqual([]);
+    expect(acquisitions).toEqual([
+      {
+        id: "0xgift:0",
+        token: TOKEN,
+        timestamp: 100,
+        quantity: 1,
+        cost: null,
+        source: "transfer",
+        counterparty: SELLER,
+      },
+    ]);
+  });
+});
+
+describe("migrateSecondaryPurchases", () => {
+  // 2025-03-10 and 2025-05-20 (UTC)
+  const march = buy("0xm:1", 1741600000, 10, null);
+  const may = buy("0xm:2", 1747700000, 10, null);
+
+  it("prices the matching transfer, preferring the entered month", () => {
+    const { overrides, lots } = migrateSecondaryPurchases(
+      {
+        [TOKEN.toUpperCase()]: [{ month: "2025-05", quantity: 10, amount: 9 }],
+      },
+      [march, may, buy("0xm:3", 1747700000, 10, 12)],
+      {},
+    );
+    expect(overrides).toEqual({ "0xm:2": 9 });
+    expect(lots).toEqual([]);
+  });
+
+  it("keeps entries with no matching transfer as manual lots", () => {
+    const { overrides, lots } = migrateSecondaryPurchases(
+      {
+        [TOKEN]: [
+          { month: "2025-05", quantity: 10, amount: 9 },
+          { month: "2025-05", quantity: 10, amount: 8 },
+          { month: "2025-06", quantity: 4, amount: 3 },
+        ],
+      },
+      [march, may],
+      { "0xm:2": 11 },
+    );
+    // The saved override on May stands; March takes the first entry.
+    expect(overrides).toEqual({ "0xm:1": 9, "0xm:2": 11 });
+    expect(
+      lots.map(({ quantity, cost, source }) => [quantity, cost, source]),
+    ).toEqual([
+      [10, 8, "manual"],
+      [4, 3, "manual"],
+    ]);
+    expect(new Date(lots[1].timestamp * 1000).toISOString()).toBe(
+      "2025-06-01T00:00:00.000Z",
+    );
+    // A manual lot fills the gap instead of the unknown-cost reconciliation.
+    expect(tokenCostBasis(lots, [], "fifo", 14).unknownQuantity).toBe(0);
+  });
+});
+
+describe("fetchWalletTransferEvents", () => {
+  it("returns the scan, or null when it is unavailable", async () => {
+    const body = { acquisitions: [buy("a", 1, 1, 1)], disposals: [] };
+    const ok = vi.fn(async () => new Response(JSON.stringify(body)));
+    expect(await fetchWalletTransferEvents(WALLET, ok)).toEqual(body);
+    expect(ok).toHaveBeenCalledWith(`/api/cost-basis?wallet=${WALLET}`);
+
+    const down = vi.fn(async () => new Response("{}", { status: 503 }));
+    expect(await fetchWalletTransferEvents(WALLET, down)).toBeNull();
+  });
+});
+
+describe("saved overrides", () => {
+  const memory = () => {
+    const items = new Map<string, string>();
+    return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key),
+    };
+  };
+
+  it("round-trips per wallet and drops invalid entries", () => {
+    const storage = memory();
+    saveCostOverrides(WALLET, { a: 5 }, storage);
+    expect(loadCostOverrides(WALLET.toUpperCase(), storage)).toEqual({ a: 5 });
+    expect(loadCostOverrides(SELLER, storage)).toEqual({});
+
+    storage.setItem(
+      `albion-cost-basis-overrides-v1-${WALLET}`,
+      JSON.stringify({ a: -1, b: "2", c: 3 }),
+    );
+    expect(loadCostOverrides(WALLET, storage)).toEqual({ c: 3 });
+  });
+
+  it("migrates the old secondary purchases once, then drops them", () => {
+    const storage = memory();
+    const legacyKey = `albion-secondary-purchases-v2-${WALLET}`;
+    storage.setItem(
+      legacyKey,
+      JSON.stringify({
+        [TOKEN]: [
+          { month: "2025-03", quantity: 10, amount: 9 },
+          { month: "2025-04", quantity: "2", amount: "1.5" },
+          { month: "", quantity: 0, amount: 0 },
+        ],
+      }),
+    );
+    const transfers = [buy("0xm:1", 1741600000, 10, null)];
+
+    migrateLegacyPurchases(WALLET, transfers, storage);
+    expect(storage.getItem(legacyKey)).toBeNull();
+    expect(loadCostOverrides(WALLET, storage)).toEqual({ "0xm:1": 9 });
+    const lots = loadManualLots(WALLET, storage);
+    expect(lots).toHaveLength(1);
+    expect(lots[0]).toMatchObject({ quantity: 2, cost: 1.5, source: "manual" });
+
+    migrateLegacyPurchases(WALLET, transfers, storage);
+    expect(loadManualLots(WALLET, storage)).toHaveLength(1);
+  });
+
+  it("defaults the method to FIFO", () => {
+    expect(loadCostBasisMethod(memory())).toBe("fifo");
+  });
+});
@@ -0,0 +1,591 @@
+// src/lib/utils/costBasis.ts
+import { formatEther, formatUnits, getAddress } from "viem";
+import type { DepositWithReceipt } from "$lib/types/graphql";
+
+/**
+ * Cost basis of royalty token holdings, derived from the chain.
+ *
+ * Acquisitions are primary deposits (1 USDC per token, from the SFT subgraph)
+ * plus incoming transfers; a transfer that came with a USDC payment from the
+ * wallet in the same transaction (a secondary-market buy) is costed at that
+ * payment, anything else (a gift, a move from another wallet) has an unknown
+ * cost until the user enters one. Outgoing transfers are disposals. Lots are
+ * consumed first-in-first-out or at average cost, and finally reconciled with
+ * the wallet's actual balance so tokens the scan can't explain (sold from a
+ * resting order, say) never leave the basis out of step with the holding.
+ *
+ * Manual figures are per-acquisition overrides, kept in localStorage per
+ * wallet; they replace the derived cost of that acquisition only. Purchases
+ * entered under the earlier per-month form are carried over once, as
+ * overrides or, when no acquisition matches, as manual lots.
+ */
+
+export type AcquisitionSource = "mint" | "purchase" | "transfer" | "manual";
+
+export interface Acquisition {
+  /** `deposit:<id>`, `<txHash>:<logIndex>` or `manual:…`; the override key. */
+  id: string;
+  /** Lowercase token address. */
+  token: string;
+  /** Unix seconds; 0 when unknown (sorts first). */
+  timestamp: number;
+  quantity: number;
+  /** USDC paid; null when unknown. */
+  cost: number | null;
+  source: AcquisitionSource;
+  /** Sender of a transfer (lowercase); null for deposits. */
+  counterparty: string | null;
+}
+
+export interface Disposal {
+  id: string;
+  token: string;
+  timestamp: number;
+  quantity: number;
+  /** USDC received in the same transaction; null when none. */
+  proceeds: number | null;
+  /** Recipient (lowercase). */
+  counterparty: string | null;
+}
+
+export type CostBasisMethod = "fifo" | "average";
+
+export interface Lot {
+  acquisitionId: string;
+  timestamp: number;
+  quantity: number;
+  /** Cost of the remaining quantity; null when unknown. */
+  cost: number | null;
+}
+
+export interface TokenCostBasis {
+  /** Remaining lots, oldest first. */
+  lots: Lot[];
+  /** Known cost of the tokens still held. */
+  cost: number;
+  /** Held tokens whose cost is unknown (counted at zero in `cost`). */
+  unknownQuantity: number;
+  /** USDC received from disposals that carried a payment. */
+  proceeds: number;
+}
+
+/** Acquisition id → USDC cost entered by the user. */
+export type CostBasisOverrides = Record<string, number>;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+/** Below this, a lot or reconciliation gap is rounding noise. */
+const QUANTITY_EPSILON = 1e-9;
+
+/** Primary deposits as acquisitions at 1 USDC per token. */
+export function acquisitionsFromDeposits(
+  deposits: DepositWithReceipt[],
+): Acquisition[] {
+  return deposits.map((deposit) => {
+    const quantity = Number(formatEther(BigInt(deposit.amount ?? "0")));
+    return {
+      id: `deposit:${deposit.id}`,
+      token: deposit.offchainAssetReceiptVault.id.toLowerCase(),
+      timestamp: Number(deposit.transaction?.timestamp ?? 0),
+      quantity,
+      cost: quantity,
+      source: "mint",
+      counterparty: null,
+    };
+  });
+}
+
+export function applyCostOverrides(
+  acquisitions: Acquisition[],
+  overrides: CostBasisOverrides,
+): Acquisition[] {
+  return acquisitions.map((acquisition) =>
+    acquisition.id in overrides
+      ? { ...acquisition, cost: overrides[acquisition.id] }
+      : acquisition,
+  );
+}
+
+/**
+ * Drop transfers between wallets of the same portfolio: lots are pooled per
+ * token across wallets, so such a move neither buys nor sells anything.
+ */
+export function withoutInternalTransfers<
+  T extends { counterparty: string | null },
+>(events: T[], wallets: string[]): T[] {
+  const own = new Set(wallets.map((wallet) => wallet.toLowerCase()));
+  return events.filter(
+    (event) => !event.counterparty || !own.has(event.counterparty),
+  );
+}
+
+function takeFromLot(lot: Lot, quantity: number): void {
+  const fraction = lot.quantity > 0 ? quantity / lot.quantity : 1;
+  lot.quantity -= quantity;
+  if (lot.cost !== null) lot.cost -= lot.cost * fraction;
+}
+
+/** Remove `quantity` from the lots (mutates). */
+function dispose(lots: Lot[], quantity: number, method: CostBasisMethod) {
+  const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (held <= 0) return;
+  const amount = Math.min(quantity, held);
+  if (method === "average") {
+    // Same fraction of every lot: the pooled average cost is unchanged.
+    const fraction = amount / held;
+    for (const lot of lots) takeFromLot(lot, lot.quantity * fraction);
+  } else {
+    let remaining = amount;
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      const taken = Math.min(lot.quantity, remaining);
+      takeFromLot(lot, taken);
+      remaining -= taken;
+    }
+  }
+}
+
+/**
+ * Replay one token's acquisitions and disposals into lots. With `balance`
+ * (the wallet's current holding), lots are trimmed or topped up (at unknown
+ * cost) to match it.
+ */
+export function tokenCostBasis(
+  acquisitions: Acquisition[],
+  disposals: Disposal[],
+  method: CostBasisMethod,
+  balance?: number,
+): TokenCostBasis {
+  const events = [
+    ...acquisitions.map((event) => ({ kind: "in" as const, event })),
+    ...disposals.map((event) => ({ kind: "out" as const, event })),
+  ].sort(
+    (a, b) =>
+      a.event.timestamp - b.event.timestamp ||
+      // Same block: count the tokens in before selling them on.
+      (a.kind === b.kind ? 0 : a.kind === "in" ? -1 : 1),
+  );
+
+  const lots: Lot[] = [];
+  let proceeds = 0;
+  for (const { kind, event } of events) {
+    if (kind === "in") {
+      const acquisition = event as Acquisition;
+      lots.push({
+        acquisitionId: acquisition.id,
+        timestamp: acquisition.timestamp,
+        quantity: acquisition.quantity,
+        cost: acquisition.cost,
+      });
+    } else {
+      const disposal = event as Disposal;
+      dispose(lots, disposal.quantity, method);
+      proceeds += disposal.proceeds ?? 0;
+    }
+  }
+
+  if (balance !== undefined) {
+    const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (held - balance > QUANTITY_EPSILON) {
+      dispose(lots, held - balance, method);
+    } else if (balance - held > QUANTITY_EPSILON) {
+      lots.push({
+        acquisitionId: "unattributed",
+        timestamp: Number.MAX_SAFE_INTEGER,
+        quantity: balance - held,
+        cost: null,
+      });
+    }
+  }
+
+  const remaining = lots.filter((lot) => lot.quantity > QUANTITY_EPSILON);
+  return {
+    lots: remaining,
+    cost: remaining.reduce((sum, lot) => sum + (lot.cost ?? 0), 0),
+    unknownQuantity: remaining
+      .filter((lot) => lot.cost === null)
+      .reduce((sum, lot) => sum + lot.quantity, 0),
+    proceeds,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Pairing Transfer logs with their USDC leg (server side, from a log scan)
+// ---------------------------------------------------------------------------
+
+export interface TransferLeg {
+  /** Token contract. */
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+export interface WalletTransferEvents {
+  acquisitions: Acquisition[];
+  disposals: Disposal[];
+}
+
+/**
+ * Turn a wallet's royalty token transfers into acquisitions and disposals,
+ * pricing each from the USDC that left (for a buy) or reached (for a sale) the
+ * wallet in the same transaction, split pro rata when a transaction moved
+ * several lots. Mints are skipped (deposits come from the subgraph), and so
+ * are token moves into and out of `escrows` (OrderBook vaults) without a USDC
+ * leg: parking tokens in a sell order is not a sale.
+ */
+export function pairWalletTransfers(params: {
+  wallet: string;
+  tokenTransfers: TransferLeg[];
+  usdcTransfers: TransferLeg[];
+  usdcDecimals: number;
+  escrows: string[];
+}): WalletTransferEvents {
+  const wallet = params.wallet.toLowerCase();
+  const escrows = new Set(params.escrows.map((a) => a.toLowerCase()));
+  const usdcPaid = new Map<string, bigint>();
+  const usdcReceived = new Map<string, bigint>();
+  for (const leg of params.usdcTransfers) {
+    const tx = leg.txHash.toLowerCase();
+    if (leg.from.toLowerCase() === wallet) {
+      usdcPaid.set(tx, (usdcPaid.get(tx) ?? 0n) + leg.value);
+    }
+    if (leg.to.toLowerCase() === wallet) {
+      usdcReceived.set(tx, (usdcReceived.get(tx) ?? 0n) + leg.value);
+    }
+  }
+
+  const incoming = params.tokenTransfers.filter(
+    (t) =>
+      t.to.toLowerCase() === wallet &&
+      t.from.toLowerCase() !== wallet &&
+      t.from.toLowerCase() !== ZERO_ADDRESS,
+  );
+  const outgoing = params.tokenTransfers.filter(
+    (t) => t.from.toLowerCase() === wallet && t.to.toLowerCase() !== wallet,
+  );
+
+  // Total token quantity per tx and direction, for splitting one USDC leg.
+  const totals = (legs: TransferLeg[]) => {
+    const sums = new Map<string, bigint>();
+    for (const leg of legs) {
+      const tx = leg.txHash.toLowerCase();
+      sums.set(tx, (sums.get(tx) ?? 0n) + leg.value);
+    }
+    return sums;
+  };
+  const incomingTotals = totals(incoming);
+  const outgoingTotals = totals(outgoing);
+  const share = (
+    leg: TransferLeg,
+    usdc: Map<string, bigint>,
+    sums: Map<string, bigint>,
+  ): number | null => {
+    const tx = leg.txHash.toLowerCase();
+    const paid = usdc.get(tx) ?? 0n;
+    const total = sums.get(tx) ?? 0n;
+    if (paid === 0n || total === 0n) return null;
+    return Number(formatUnits((paid * leg.value) / total, params.usdcDecimals));
+  };
+  const id = (leg: TransferLeg) =>
+    `${leg.txHash.toLowerCase()}:${leg.logIndex}`;
+
+  const acquisitions: Acquisition[] = [];
+  for (const leg of incoming) {
+    const cost = share(leg, usdcPaid, incomingTotals);
+    if (cost === null && escrows.has(leg.from.toLowerCase())) continue;
+    acquisitions.push({
+      id: id(leg),
+      token: leg.address.toLowerCase(),
+      timestamp: leg.timestamp,
+      quantity: Number(formatEther(leg.value)),
+      cost,
+      source: cost === null ? "transfer" : "purchase",
+      counterparty: leg.from.toLowerCase(),
+    });
+  }
+
+  const disposals: Disposal[] = [];
+  for (const leg of outgoing) {
+    const proceeds = share(leg, usdcReceived, outgoingTotals);
+    if (proceeds === null && escrows.has(leg.to.toLowerCase())) continue;
+    disposals.push({
+      id: id(leg),
+      token: leg.address.toLowerCase(),
+      timestamp: leg.timestamp,
+      quantity: Number(formatEther(leg.value)),
+      proceeds,
+      counterparty: leg.to.toLowerCase(),
+    });
+  }
+
+  return { acquisitions, disposals };
+}
+
+// ---------------------------------------------------------------------------
+// Carrying over purchases entered by hand before costs were derived
+// ---------------------------------------------------------------------------
+
+/** One row of the earlier "Secondary Purchases" form. */
+export interface LegacySecondaryPurchase {
+  /** YYYY-MM. */
+  month: string;
+  quantity: number;
+  /** USDC paid. */
+  amount: number;
+}
+
+/** Typed quantities were rounded; match transfers within this fraction. */
+const LEGACY_QUANTITY_TOLERANCE = 1e-6;
+
+function monthOf(timestamp: number): string {
+  return timestamp ? new Date(timestamp * 1000).toISOString().slice(0, 7) : "";
+}
+
+function monthStart(month: string): number {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const ms = Date.UTC(year, monthIndex - 1, 1);
+  return Number.isFinite(ms) ? ms / 1000 : 0;
+}
+
+/**
+ * Turn old secondary-purchase entries (keyed by token address) into overrides
+ * on the unpriced transfers they describe: same token and quantity, preferring
+ * one received in the entered month. An entry with no such transfer becomes a
+ * manual lot, which also takes the place of the tokens the balance
+ * reconciliation would otherwise add at unknown cost. Existing overrides win.
+ */
+export function migrateSecondaryPurchases(
+  purchases: Record<string, LegacySecondaryPurchase[]>,
+  acquisitions: Acquisition[],
+  overrides: CostBasisOverrides,
+): { overrides: CostBasisOverrides; lots: Acquisition[] } {
+  const next = { ...overrides };
+  const lots: Acquisition[] = [];
+  for (const [tokenAddress, entries] of Object.entries(purchases)) {
+    const token = tokenAddress.toLowerCase();
+    entries.forEach((entry, index) => {
+      const candidates = acquisitions.filter(
+        (acquisition) =>
+          acquisition.token === token &&
+          acquisition.source === "transfer" &&
+          acquisition.cost === null &&
+          !(acquisition.id in next) &&
+          Math.abs(acquisition.quantity - entry.quantity) <=
+            LEGACY_QUANTITY_TOLERANCE * Math.max(1, entry.quantity),
+      );
+      const match =
+        candidates.find(
+          (acquisition) => monthOf(acquisition.timestamp) === entry.month,
+        ) ?? candidates[0];
+      if (match) {
+        next[match.id] = entry.amount;
+        return;
+      }
+      lots.push({
+        id: `manual:${token}:${entry.month}:${index}`,
+        token,
+        timestamp: monthStart(entry.month),
+        quantity: entry.quantity,
+        cost: entry.amount,
+        source: "manual",
+        counterparty: null,
+      });
+    });
+  }
+  return { overrides: next, lots };
+}
+
+// ---------------------------------------------------------------------------
+// Browser side: fetch + saved overrides
+// ---------------------------------------------------------------------------
+
+/**
+ * Transfer-derived events for `wallet` from /api/cost-basis. Null when the
+ * scan is unavailable; callers fall back to deposits alone.
+ */
+export async function fetchWalletTransferEvents(
+  wallet: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<WalletTransferEvents | null> {
+  try {
+    const response = await fetchImpl(
+      `/api/cost-basis?wallet=${getAddress(wallet)}`,
+    );
+    if (!response.ok) return null;
+    const body = (await response.json()) as Partial<WalletTransferEvents>;
+    if (!Array.isArray(body.acquisitions) || !Array.isArray(body.disposals)) {
+      return null;
+    }
+    return { acquisitions: body.acquisitions, disposals: body.disposals };
+  } catch (error) {
+    console.warn("[CostBasis] transfer scan unavailable:", error);
+    return null;
+  }
+}
+
+type OverrideStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+function defaultStorage(): OverrideStorage | null {
+  return typeof localStorage === "undefined" ? null : localStorage;
+}
+
+// Scoped per viewed wallet, like the manual entries they replace.
+function overridesKey(wallet: string): string {
+  return `albion-cost-basis-overrides-v1-${wallet.toLowerCase()}`;
+}
+
+function manualLotsKey(wallet: string): string {
+  return `albion-cost-basis-lots-v1-${wallet.toLowerCase()}`;
+}
+
+// Where the earlier per-month form kept its entries.
+function legacyPurchasesKey(wallet: string): string {
+  return `albion-secondary-purchases-v2-${wallet.toLowerCase()}`;
+}
+
+export const COST_BASIS_METHOD_STORAGE_KEY = "albion-cost-basis-method";
+
+export function loadCostOverrides(
+  wallet: string | null | undefined,
+  storage: OverrideStorage | null = defaultStorage(),
+): CostBasisOverrides {
+  if (!wallet || !storage) return {};
+  try {
+    const parsed: unknown = JSON.parse(
+      storage.getItem(overridesKey(wallet)) ?? "{}",
+    );
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] =>
+          typeof entry[1] === "number" &&
+          Number.isFinite(entry[1]) &&
+          entry[1] >= 0,
+      ),
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function saveCostOverrides(
+  wallet: string | null | undefined,
+  overrides: CostBasisOverrides,
+  storage: OverrideStorage | null = defaultStorage(),
+): void {
+  if (!wallet || !storage) return;
+  try {
+    storage.setItem(overridesKey(wallet), JSON.stringify(overrides));
+  } catch {
+    console.error("Failed to save cost basis overrides to localStorage");
+  }
+}
+
+/** Lots carried over from entries no acquisition matched. */
+export function loadManualLots(
+  wallet: string | null | undefined,
+  storage: OverrideStorage | null = defaultStorage(),
+): Acquisition[] {
+  if (!wallet || !storage) return [];
+  try {
+    const parsed: unknown = JSON.parse(
+      storage.getItem(manualLotsKey(wallet)) ?? "[]",
+    );
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(
+        (lot): lot is Acquisition =>
+          !!lot &&
+          typeof lot.id === "string" &&
+          typeof lot.token === "string" &&
+          typeof lot.timestamp === "number" &&
+          typeof lot.quantity === "number" &&
+          typeof lot.cost === "number",
+      )
+      .map((lot) => ({ ...lot, source: "manual", counterparty: null }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Fold the wallet's old secondary-purchase entries into its overrides and
+ * manual lots, then drop them. `acquisitions` are the wallet's own. Run only
+ * on a complete transfer scan of it: without the transfers every entry would
+ * become a manual lot, counted twice once the scan recovers.
+ */
+export function migrateLegacyPurchases(
+  wallet: string | null | undefined,
+  acquisitions: Acquisition[],
+  storage: OverrideStorage | null = defaultStorage(),
+): void {
+  if (!wallet || !storage) return;
+  try {
+    const stored = storage.getItem(legacyPurchasesKey(wallet));
+    if (stored === null) return;
+    const parsed: unknown = JSON.parse(stored);
+    const purchases: Record<string, LegacySecondaryPurchase[]> = {};
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      for (const [token, entries] of Object.entries(parsed)) {
+        if (!Array.isArray(entries)) continue;
+        // The form saved whatever was typed; skip blank or partial rows.
+        purchases[token] = entries
+          .map((entry) => ({
+            month: String(entry?.month ?? ""),
+            quantity: Number(entry?.quantity),
+            amount: Number(entry?.amount),
+          }))
+          .filter(
+            (entry) =>
+              entry.month !== "" &&
+              Number.isFinite(entry.quantity) &&
+              entry.quantity > 0 &&
+              Number.isFinite(entry.amount) &&
+              entry.amount >= 0,
+          );
+      }
+    }
+    const { overrides, lots } = migrateSecondaryPurchases(
+      purchases,
+      acquisitions,
+      loadCostOverrides(wallet, storage),
+    );
+    storage.setItem(overridesKey(wallet), JSON.stringify(overrides));
+    storage.setItem(
+      manualLotsKey(wallet),
+      JSON.stringify([...loadManualLots(wallet, storage), ...lots]),
+    );
+    storage.removeItem(legacyPurchasesKey(wallet));
+  } catch {
+    console.error("Failed to migrate secondary purchases in localStorage");
+  }
+}
+
+export function loadCostBasisMethod(
+  storage: OverrideStorage | null = defaultStorage(),
+): CostBasisMethod {
+  try {
+    return storage?.getItem(COST_BASIS_METHOD_STORAGE_KEY) === "average"
+      ? "average"
+      : "fifo";
+  } catch {
+    return "fifo";
+  }
+}
+
+export function saveCostBasisMethod(
+  method: CostBasisMethod,
+  storage: OverrideStorage | null = defaultStorage(),
+): void {
+  try {
+    storage?.setItem(COST_BASIS_METHOD_STORAGE_KEY, method);
+  } catch {
+    console.error("Failed to save cost basis method to localStorage");
+  }
+}
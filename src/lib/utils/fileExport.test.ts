@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { escapeHtml, toCsv, toWei } from "./fileExport";
+
+describe("toWei", () => {
+  it("parses decimal amounts and throws on anything else", () => {
+    expect(toWei(" 10.5 ")).toBe(10_500_000_000_000_000_000n);
+    expect(() => toWei("n/a")).toThrow(/Unparseable amount "n\/a"/);
+  });
+});
+
+describe("toCsv / escapeHtml", () => {
+  it("quotes only fields that need it", () => {
+    expect(
+      toCsv([
+        ["a", 1],
+        ['say "hi"', "x,y"],
+      ]),
+    ).toBe('a,1\n"say ""hi""","x,y"');
+  });
+
+  it("escapes markup and quotes", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;",
+    );
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Shared pieces of the claim receipt and tax report exports (CSV and
+ * printable HTML) and the browser download they end in.
+ */
+import { parseEther } from "viem";
+
+/**
+ * Parse a decimal USDC amount as formatted by `formatEther`. Throws on
+ * anything unparseable: an export that counted the amount as zero would
+ * silently under-report income.
+ */
+export function toWei(amount: string): bigint {
+  try {
+    return parseEther(amount.trim());
+  } catch {
+    throw new Error(`Unparseable amount "${amount}"`);
+  }
+}
+
+/** Quote a CSV field when it contains a quote, comma or newline. */
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(csvField).join(",")).join("\n");
+}
+
+const htmlEscapeMap: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => htmlEscapeMap[char] || char);
+}
+
+/** Save `content` as a file through a temporary object URL. Browser only. */
+export function downloadFile(
+  content: BlobPart,
+  filename: string,
+  type: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.style.display = "none";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,110 @@
+// src/lib/utils/holderSnapshot.test.ts
+import { describe, it, expect, vi } from "vitest";
+import {
+  HolderSnapshotError,
+  buildHolderSnapshot,
+  decodeTransferLog,
+  fetchHolderSnapshot,
+  replayTransfers,
+  type TokenTransfer,
+} from "./holderSnapshot";
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+const A = "0x1111111111111111111111111111111111111111";
+const B = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0xbcad416434984cca2b4a950dcd95f47c4126e980";
+
+const transfer = (
+  from: string,
+  to: string,
+  value: bigint,
+  blockNumber: number,
+  logIndex = 0,
+): TokenTransfer => ({ from, to, value, blockNumber, logIndex });
+
+describe("decodeTransferLog", () => {
+  it("reads from/to from the indexed topics and value from data", () => {
+    const topic = (address: string) => `0x${"0".repeat(24)}${address.slice(2)}`;
+    expect(
+      decodeTransferLog({
+        block_number: 100,
+        log_index: "3",
+        topic1: topic(ZERO),
+        topic2: topic(A),
+        data: `0x${(5n * 10n ** 18n).toString(16).padStart(64, "0")}`,
+      }),
+    ).toEqual({
+      from: ZERO,
+      to: A,
+      value: 5n * 10n ** 18n,
+      blockNumber: 100,
+      logIndex: 3,
+    });
+  });
+});
+
+describe("replayTransfers", () => {
+  const history = [
+    transfer(A, B, 4n, 20, 1),
+    transfer(ZERO, A, 10n, 10),
+    transfer(B, ZERO, 4n, 30),
+    transfer(ZERO, B, 1n, 20, 0),
+  ];
+
+  it("applies mints, transfers and burns in block/log order up to the block", () => {
+    expect(replayTransfers(history, 9)).toEqual([]);
+    expect(replayTransfers(history, 10)).toEqual([
+      { address: A, balance: "10" },
+    ]);
+    expect(replayTransfers(history, 20)).toEqual([
+      { address: A, balance: "6" },
+      { address: B, balance: "5" },
+    ]);
+    // The burn empties B, which then drops out.
+    expect(replayTransfers(history, 30)).toEqual([
+      { address: A, balance: "6" },
+      { address: B, balance: "1" },
+    ]);
+  });
+
+  it("refuses an incomplete history", () => {
+    expect(() => replayTransfers([transfer(A, B, 1n, 5)], 5)).toThrow(
+      HolderSnapshotError,
+    );
+  });
+});
+
+describe("buildHolderSnapshot", () => {
+  it("totals the balances and checksums the token", () => {
+    const snapshot = buildHolderSnapshot(
+      TOKEN,
+      42,
+      [
+        { address: A, balance: "6" },
+        { address: B, balance: "1" },
+      ],
+      "hypersync",
+    );
+    expect(snapshot.token).toBe("0xbcAd416434984Cca2b4a950dCd95f47C4126E980");
+    expect(snapshot.totalSupply).toBe("7");
+    expect(snapshot.blockNumber).toBe(42);
+  });
+});
+
+describe("fetchHolderSnapshot", () => {
+  it("requests the block and throws on an error status", async () => {
+    const body = buildHolderSnapshot(TOKEN, 42, [], "subgraph");
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(body)))
+      .mockResolvedValueOnce(new Response("{}", { status: 503 }));
+
+    expect(await fetchHolderSnapshot(TOKEN, 42, fetchFn)).toEqual(body);
+    expect(fetchFn).toHaveBeenCalledWith(
+      `/api/holder-snapshot/${TOKEN}?block=42`,
+    );
+    await expect(fetchHolderSnapshot(TOKEN, 42, fetchFn)).rejects.toThrow(
+      /HTTP 503/,
+    );
+  });
+});
@@ -0,0 +1,170 @@
+// src/lib/utils/holderSnapshot.ts
+import { getAddress } from "viem";
+
+/**
+ * Token holder balances at a past block, for pro-rata payouts.
+ *
+ * The subgraph's `tokenHolders` only knows current balances, so a payout
+ * calculated a few days after the record date would credit whoever bought in
+ * since. A snapshot replays the vault's ERC-20 `Transfer` events up to and
+ * including the record block instead: mints come from the zero address, burns
+ * go to it, and confiscations are plain transfers, so the replay alone gives
+ * every balance. `/api/holder-snapshot/<token>?block=N` runs the replay on the
+ * server (Hypersync, with the subgraph's block-pinned `tokenHolders` as the
+ * fallback); the response is also a valid holders file for
+ * scripts/build-distribution.mjs.
+ */
+
+/** keccak256("Transfer(address,address,uint256)") */
+export const TRANSFER_EVENT_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export interface TokenTransfer {
+  from: string;
+  to: string;
+  value: bigint;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface HolderBalance {
+  address: string;
+  /** Share balance in wei (18 decimals), as a decimal string. */
+  balance: string;
+}
+
+export type HolderSnapshotSource = "hypersync" | "subgraph";
+
+export interface HolderSnapshot {
+  token: string;
+  blockNumber: number;
+  /** Sum of all holder balances, i.e. the total supply at the block. */
+  totalSupply: string;
+  /** Positive balances only, largest first. */
+  holders: HolderBalance[];
+  source: HolderSnapshotSource;
+}
+
+export class HolderSnapshotError extends Error {
+  readonly code = "HOLDER_SNAPSHOT_INCONSISTENT";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "HolderSnapshotError";
+  }
+}
+
+/** Raw Transfer log as selected from Hypersync (topics are 32-byte words). */
+export interface RawTransferLog {
+  block_number: string | number;
+  log_index: string | number;
+  topic1: string;
+  topic2: string;
+  data: string;
+}
+
+function addressFromTopic(topic: string): string {
+  return getAddress(`0x${topic.slice(-40)}`);
+}
+
+export function decodeTransferLog(log: RawTransferLog): TokenTransfer {
+  return {
+    from: addressFromTopic(log.topic1),
+    to: addressFromTopic(log.topic2),
+    value: BigInt(log.data === "0x" ? 0 : log.data),
+    blockNumber: Number(log.block_number),
+    logIndex: Number(log.log_index),
+  };
+}
+
+/**
+ * Replay transfers up to and including `blockNumber` into holder balances.
+ * Throws HolderSnapshotError if a balance would go negative, which means the
+ * transfer list is incomplete; a partial replay must never become a payout.
+ */
+export function replayTransfers(
+  transfers: TokenTransfer[],
+  blockNumber: number,
+): HolderBalance[] {
+  const ordered = transfers
+    .filter((t) => t.blockNumber <= blockNumber)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const balances = new Map<string, bigint>();
+  for (const transfer of ordered) {
+    const from = transfer.from.toLowerCase();
+    const to = transfer.to.toLowerCase();
+    if (from !== ZERO_ADDRESS) {
+      const next = (balances.get(from) ?? 0n) - transfer.value;
+      if (next < 0n) {
+        throw new HolderSnapshotError(
+          `Balance of ${transfer.from} goes negative at block ${transfer.blockNumber}; transfers are incomplete`,
+        );
+      }
+      balances.set(from, next);
+    }
+    if (to !== ZERO_ADDRESS) {
+      balances.set(to, (balances.get(to) ?? 0n) + transfer.value);
+    }
+  }
+
+  return toHolderBalances(
+    [...balances.entries()].map(([address, balance]) => ({
+      address,
+      balance: balance.toString(),
+    })),
+  );
+}
+
+/** Checksum, drop empty balances and order largest first (ties by address). */
+export function toHolderBalances(holders: HolderBalance[]): HolderBalance[] {
+  return holders
+    .map((h) => ({
+      address: getAddress(h.address),
+      balance: BigInt(h.balance),
+    }))
+    .filter((h) => h.balance > 0n)
+    .sort((a, b) =>
+      a.balance === b.balance
+        ? a.address.localeCompare(b.address)
+        : a.balance > b.balance
+          ? -1
+          : 1,
+    )
+    .map((h) => ({ address: h.address, balance: h.balance.toString() }));
+}
+
+export function buildHolderSnapshot(
+  token: string,
+  blockNumber: number,
+  holders: HolderBalance[],
+  source: HolderSnapshotSource,
+): HolderSnapshot {
+  const totalSupply = holders.reduce((sum, h) => sum + BigInt(h.balance), 0n);
+  return {
+    token: getAddress(token),
+    blockNumber,
+    totalSupply: totalSupply.toString(),
+    holders,
+    source,
+  };
+}
+
+/** Fetch a snapshot from `/api/holder-snapshot`. Throws on any failure. */
+export async function fetchHolderSnapshot(
+  token: string,
+  blockNumber: number,
+  fetchFn: typeof fetch = fetch,
+): Promise<HolderSnapshot> {
+  const response = await fetchFn(
+    `/api/holder-snapshot/${encodeURIComponent(token)}?block=${blockNumber}`,
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Holder snapshot for ${token} at block ${blockNumber} failed: HTTP ${response.status}`,
+    );
+  }
+  return (await response.json()) as HolderSnapshot;
+}
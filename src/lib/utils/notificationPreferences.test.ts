@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  formatPreferencesLine,
+  normalizePreferences,
+} from "./notificationPreferences";
+
+const FIELDS = ["Field B", "Field A"];
+
+describe("normalizePreferences", () => {
+  it("keeps known release fields, de-duplicated and sorted", () => {
+    expect(
+      normalizePreferences(
+        {
+          payouts: false,
+          reminders: true,
+          productionReports: true,
+          releases: ["Field B", "Unknown", "Field A", "Field B", 7],
+          extra: "ignored",
+        },
+        FIELDS,
+      ),
+    ).toEqual({
+      payouts: false,
+      reminders: true,
+      productionReports: true,
+      releases: ["Field A", "Field B"],
+    });
+  });
+
+  it("rejects anything that is not a full preferences object", () => {
+    expect(normalizePreferences(null, FIELDS)).toBeNull();
+    expect(
+      normalizePreferences(
+        { ...DEFAULT_NOTIFICATION_PREFERENCES, payouts: "yes" },
+        FIELDS,
+      ),
+    ).toBeNull();
+    expect(
+      normalizePreferences(
+        { ...DEFAULT_NOTIFICATION_PREFERENCES, releases: "Field A" },
+        FIELDS,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("formatPreferencesLine", () => {
+  it("is stable for equal preferences", () => {
+    expect(formatPreferencesLine(DEFAULT_NOTIFICATION_PREFERENCES)).toBe(
+      "payouts=on; reminders=on; reports=off; releases=",
+    );
+  });
+});
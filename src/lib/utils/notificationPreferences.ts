@@ -0,0 +1,73 @@
+/**
+ * Per-wallet notification preferences for linked payout-alert emails.
+ *
+ * Shared by the browser (preferences panel, signed message) and the server
+ * (validation, storage alongside the wallet's link, MailerLite sync), so both
+ * sides normalise and serialise preferences identically. Like the rest of the
+ * link, the signature over the canonical line is the only thing the server
+ * trusts — see payoutAlertsMessage.ts.
+ */
+
+export interface NotificationPreferences {
+  /** Email when a new payout for this wallet is funded. */
+  payouts: boolean;
+  /** Email when a payout has sat unclaimed past the reminder window. */
+  reminders: boolean;
+  /** Monthly production reports for the fields this wallet holds. */
+  productionReports: boolean;
+  /** Energy field names whose new token releases to announce. */
+  releases: string[];
+}
+
+/** What a wallet gets before it ever saves preferences (the pre-panel behaviour). */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  payouts: true,
+  reminders: true,
+  productionReports: false,
+  releases: [],
+};
+
+/**
+ * Validate an untrusted preferences payload. Releases are kept only for known
+ * energy field names, de-duplicated and sorted so the signed line is stable.
+ * Null when the payload is not a preferences object.
+ */
+export function normalizePreferences(
+  data: unknown,
+  knownFields: string[],
+): NotificationPreferences | null {
+  if (!data || typeof data !== "object") return null;
+  const prefs = data as Partial<Record<keyof NotificationPreferences, unknown>>;
+  if (
+    typeof prefs.payouts !== "boolean" ||
+    typeof prefs.reminders !== "boolean" ||
+    typeof prefs.productionReports !== "boolean" ||
+    !Array.isArray(prefs.releases)
+  ) {
+    return null;
+  }
+  const known = new Set(knownFields);
+  return {
+    payouts: prefs.payouts,
+    reminders: prefs.reminders,
+    productionReports: prefs.productionReports,
+    releases: [
+      ...new Set(
+        prefs.releases.filter(
+          (name): name is string => typeof name === "string" && known.has(name),
+        ),
+      ),
+    ].sort(),
+  };
+}
+
+/** Canonical one-line form included in the signed preferences message. */
+export function formatPreferencesLine(prefs: NotificationPreferences): string {
+  const flag = (on: boolean) => (on ? "on" : "off");
+  return [
+    `payouts=${flag(prefs.payouts)}`,
+    `reminders=${flag(prefs.reminders)}`,
+    `reports=${flag(prefs.productionReports)}`,
+    `releases=${prefs.releases.join(",")}`,
+  ].join("; ");
+}
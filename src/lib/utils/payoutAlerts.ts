@@ -1,6 +1,7 @@
 /**
  * Client-side payout-alerts flows: status lookup, and the sign-then-submit
- * link/unlink round trips. The wallet signature (over the canonical message in
+ * link/unlink/preferences round trips plus the /notifications page's account
+ * actions. The wallet signature (over the canonical message in
  * payoutAlertsMessage.ts) proves the connected wallet consents to the link —
  * the server rebuilds the same message from the fields and verifies.
  */
@@ -8,12 +9,19 @@ import axios from "axios";
 import { signMessage } from "@wagmi/core";
 import { wagmiConfig } from "svelte-wagmi";
 import { get } from "svelte/store";
-import { buildPayoutAlertsMessage } from "$lib/utils/payoutAlertsMessage";
+import {
+  buildPayoutAlertsMessage,
+  type PayoutAlertsAction,
+} from "$lib/utils/payoutAlertsMessage";
+import type { NotificationPreferences } from "$lib/utils/notificationPreferences";
 
 export interface AlertStatus {
   configured: boolean;
   linked: boolean;
   emailMasked: string | null;
+  /** Null when not linked. */
+  preferences: NotificationPreferences | null;
+  paused: boolean;
 }
 
 export async function getAlertStatus(wallet: string): Promise<AlertStatus> {
@@ -45,17 +53,81 @@ export async function linkAlertEmail(
   return data;
 }
 
+/** Sign an account action that carries nothing beyond the wallet. */
+async function signWalletAction(
+  action: PayoutAlertsAction,
+  wallet: string,
+): Promise<{ walletAddress: string; issuedAt: string; signature: string }> {
+  const issuedAt = new Date().toISOString();
+  const message = buildPayoutAlertsMessage({
+    action,
+    walletAddress: wallet,
+    issuedAt,
+  });
+  const signature = await signMessage(get(wagmiConfig), { message });
+  return { walletAddress: wallet, issuedAt, signature };
+}
+
 export async function unlinkAlertEmail(wallet: string): Promise<void> {
+  await axios.post(
+    "/api/notifications/unsubscribe",
+    await signWalletAction("unlink", wallet),
+  );
+}
+
+/** Pauses or resumes alerts for every wallet on this wallet's email. */
+export async function setAlertsPaused(
+  wallet: string,
+  paused: boolean,
+): Promise<void> {
+  const signed = await signWalletAction(paused ? "pause" : "resume", wallet);
+  await axios.post("/api/notifications/pause", { ...signed, paused });
+}
+
+/** Every wallet (lowercase) linked to the same email as `wallet`. */
+export async function listLinkedWallets(wallet: string): Promise<string[]> {
+  const { data } = await axios.post<{ wallets: string[] }>(
+    "/api/notifications/wallets",
+    await signWalletAction("list-wallets", wallet),
+  );
+  return data.wallets;
+}
+
+/** Unlinks every wallet on this wallet's email from payout alerts. */
+export async function unlinkAllAlertEmails(wallet: string): Promise<void> {
+  await axios.post(
+    "/api/notifications/unlink-all",
+    await signWalletAction("unlink-all", wallet),
+  );
+}
+
+/**
+ * `preferences` must already be normalised (normalizePreferences): the server
+ * rebuilds the signed message from its own normalised copy.
+ */
+export async function saveAlertPreferences(
+  wallet: string,
+  preferences: NotificationPreferences,
+): Promise<NotificationPreferences> {
   const issuedAt = new Date().toISOString();
   const message = buildPayoutAlertsMessage({
-    action: "unlink",
+    action: "preferences",
     walletAddress: wallet,
+    preferences,
     issuedAt,
   });
   const signature = await signMessage(get(wagmiConfig), { message });
-  await axios.post("/api/notifications/unsubscribe", {
+  const { data } = await axios.post("/api/notifications/preferences", {
     walletAddress: wallet,
+    preferences,
     issuedAt,
     signature,
   });
+  return data.preferences;
+}
+
+/** True when the wallet declined the signature request (nothing was sent). */
+export function isUserRejection(error: unknown): boolean {
+  const msg = error instanceof Error ? error.message : String(error);
+  return /rejected|denied|cancell?ed/i.test(msg);
 }
@@ -38,6 +38,15 @@ describe("buildPayoutAlertsMessage (canonical: client signs === server verifies)
     expect(msg).toContain("Action: unlink");
   });
 
+  it("signs each account action distinctly (no replay across actions)", () => {
+    const actions = ["unlink", "pause", "resume", "list-wallets", "unlink-all"] as const;
+    const messages = actions.map((action) =>
+      buildPayoutAlertsMessage({ action, walletAddress: WALLET, email: "a@b.co", issuedAt: "t" }),
+    );
+    expect(new Set(messages).size).toBe(actions.length);
+    messages.forEach((msg) => expect(msg).not.toContain("Email:"));
+  });
+
   it("is case-insensitive over wallet + email inputs (same signature both ways)", () => {
     const a = buildPayoutAlertsMessage({
       action: "link",
@@ -77,6 +86,31 @@ describe("isIssuedAtFresh (replay guard)", () => {
   });
 });
 
+describe("preferences message", () => {
+  it("signs the canonical preferences line", () => {
+    const msg = buildPayoutAlertsMessage({
+      action: "preferences",
+      walletAddress: WALLET,
+      preferences: {
+        payouts: true,
+        reminders: false,
+        productionReports: true,
+        releases: ["Field A", "Field B"],
+      },
+      issuedAt: "2026-07-07T12:00:00.000Z",
+    });
+    expect(msg).toBe(
+      [
+        "Albion payout alerts v1",
+        "Action: preferences",
+        `Wallet: ${WALLET.toLowerCase()}`,
+        "Preferences: payouts=on; reminders=off; reports=on; releases=Field A,Field B",
+        "Issued: 2026-07-07T12:00:00.000Z",
+      ].join("\n"),
+    );
+  });
+});
+
 describe("isPlausibleEmail", () => {
   it("accepts normal addresses and rejects obvious junk", () => {
     expect(isPlausibleEmail("a@b.co")).toBe(true);
@@ -1,5 +1,8 @@
 /**
- * Canonical sign-message for linking/unlinking a payout-alert email to a wallet.
+ * Canonical sign-message for linking/unlinking a payout-alert email to a wallet,
+ * for changing that wallet's notification preferences, and for the
+ * /notifications page's account actions (pause, resume, list the wallets that
+ * share the email, unlink them all).
  *
  * The SAME builder runs in the browser (to produce the message the wallet signs)
  * and on the server (to reconstruct the expected message before verifying the
@@ -9,7 +12,19 @@
  * doubles as an auditable consent record.
  */
 
-export type PayoutAlertsAction = "link" | "unlink";
+import {
+  formatPreferencesLine,
+  type NotificationPreferences,
+} from "$lib/utils/notificationPreferences";
+
+export type PayoutAlertsAction =
+  | "link"
+  | "unlink"
+  | "preferences"
+  | "pause"
+  | "resume"
+  | "list-wallets"
+  | "unlink-all";
 
 /** Reject requests whose signature was issued outside this window (replay guard). */
 export const SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
@@ -17,8 +32,10 @@ export const SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
 export interface PayoutAlertsMessageFields {
   action: PayoutAlertsAction;
   walletAddress: string;
-  /** Required for "link"; omitted from the message for "unlink". */
+  /** Required for "link"; omitted from the message for every other action. */
   email?: string;
+  /** Required for "preferences": the full set being saved. */
+  preferences?: NotificationPreferences;
   /** ISO-8601 timestamp chosen by the client at signing time. */
   issuedAt: string;
 }
@@ -34,6 +51,9 @@ export function buildPayoutAlertsMessage(
   if (fields.action === "link") {
     lines.push(`Email: ${(fields.email ?? "").trim().toLowerCase()}`);
   }
+  if (fields.action === "preferences" && fields.preferences) {
+    lines.push(`Preferences: ${formatPreferencesLine(fields.preferences)}`);
+  }
   lines.push(`Issued: ${fields.issuedAt}`);
   return lines.join("\n");
 }
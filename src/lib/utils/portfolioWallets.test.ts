@@ -0,0 +1,147 @@
+// src/lib/utils/portfolioWallets.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  PORTFOLIO_WALLETS_STORAGE_KEY,
+  buildWalletBreakdown,
+  loadPortfolioWallets,
+  portfolioWalletSet,
+  savePortfolioWallets,
+  sumTokenBalances,
+  unclaimedForWalletToken,
+  walletSetKey,
+} from "./portfolioWallets";
+
+const A = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+const B = "0x1111111111111111111111111111111111111111";
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const data = { ...initial };
+  return {
+    data,
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, value: string) => {
+      data[key] = value;
+    },
+  };
+}
+
+describe("portfolioWalletSet", () => {
+  it("puts the primary wallet first and de-duplicates case-insensitively", () => {
+    expect(
+      portfolioWalletSet(A.toLowerCase(), [B, A, B.toUpperCase()]),
+    ).toEqual([A, B]);
+  });
+
+  it("skips empty and invalid entries", () => {
+    expect(portfolioWalletSet("", ["nope", B])).toEqual([B]);
+    expect(walletSetKey([A, B])).toBe(`${A.toLowerCase()},${B}`);
+  });
+});
+
+describe("portfolio wallet storage", () => {
+  it("round-trips the saved list", () => {
+    const storage = memoryStorage();
+    savePortfolioWallets([A, B], storage);
+    expect(loadPortfolioWallets(storage)).toEqual([A, B]);
+  });
+
+  it("ignores corrupt or non-address entries", () => {
+    expect(
+      loadPortfolioWallets(
+        memoryStorage({ [PORTFOLIO_WALLETS_STORAGE_KEY]: "{" }),
+      ),
+    ).toEqual([]);
+    expect(
+      loadPortfolioWallets(
+        memoryStorage({
+          [PORTFOLIO_WALLETS_STORAGE_KEY]: JSON.stringify([
+            B,
+            42,
+            "vitalik.eth",
+          ]),
+        }),
+      ),
+    ).toEqual([B]);
+  });
+});
+
+describe("sumTokenBalances", () => {
+  it("adds balances per token across wallets", () => {
+    expect(
+      sumTokenBalances([
+        { "0xAA": "1000000000000000000", "0xbb": "5" },
+        { "0xaa": "2000000000000000000" },
+      ]),
+    ).toEqual({ "0xaa": "3000000000000000000", "0xbb": "5" });
+  });
+});
+
+describe("buildWalletBreakdown", () => {
+  it("reports each wallet's balances and claim totals", () => {
+    const breakdown = buildWalletBreakdown(
+      [A, B],
+      [
+        {
+          address: A,
+          result: {
+            holdings: [],
+            claimHistory: [
+              {
+                date: "2025-01-01T00:00:00.000Z",
+                amount: "1",
+                asset: "X",
+                txHash: "0x1",
+                status: "completed",
+              },
+            ],
+            totals: { earned: 4, claimed: 1, unclaimed: 3 },
+            hasCsvLoadError: false,
+          },
+        },
+      ],
+      {
+        [A.toLowerCase()]: {
+          "0xaa": "1500000000000000000",
+          "0xbb": "500000000000000000",
+        },
+      },
+    );
+    expect(breakdown).toEqual([
+      { address: A, tokensOwned: 2, earned: 4, unclaimed: 3, claimCount: 1 },
+      {
+        address: B,
+        tokensOwned: 0,
+        earned: null,
+        unclaimed: null,
+        claimCount: 0,
+      },
+    ]);
+  });
+});
+
+describe("unclaimedForWalletToken", () => {
+  it("sums one wallet's unclaimed groups for a token", () => {
+    const group = (tokenAddress: string, totalAmount: number) => ({
+      fieldName: "F",
+      tokenAddress,
+      symbol: "S",
+      totalAmount,
+      holdings: [],
+    });
+    const claimsByWallet = [
+      {
+        address: A,
+        result: {
+          holdings: [group("0xAA", 2), group("0xaa", 1.5), group("0xbb", 7)],
+          claimHistory: [],
+          totals: { earned: 10.5, claimed: 0, unclaimed: 10.5 },
+          hasCsvLoadError: false,
+        },
+      },
+    ];
+    expect(
+      unclaimedForWalletToken(claimsByWallet, A.toLowerCase(), "0xaa"),
+    ).toBe(3.5);
+    expect(unclaimedForWalletToken(claimsByWallet, B, "0xaa")).toBe(0);
+  });
+});
@@ -0,0 +1,147 @@
+// src/lib/utils/portfolioWallets.ts
+import { formatEther, getAddress, isAddress } from "viem";
+import type { ClaimsResult } from "$lib/services/ClaimsService";
+
+/**
+ * Extra wallets shown alongside the connected (or watched) wallet on the
+ * portfolio page. The list is browser-local and address-only: names are
+ * resolved once when added so reloads never depend on ENS.
+ */
+
+export const PORTFOLIO_WALLETS_STORAGE_KEY = "albion-portfolio-wallets-v1";
+
+type WalletStorage = Pick<Storage, "getItem" | "setItem">;
+
+function defaultStorage(): WalletStorage | null {
+  return typeof localStorage === "undefined" ? null : localStorage;
+}
+
+/** Read the saved extra wallets, dropping anything that isn't an address. */
+export function loadPortfolioWallets(
+  storage: WalletStorage | null = defaultStorage(),
+): string[] {
+  if (!storage) return [];
+  try {
+    const parsed: unknown = JSON.parse(
+      storage.getItem(PORTFOLIO_WALLETS_STORAGE_KEY) ?? "[]",
+    );
+    if (!Array.isArray(parsed)) return [];
+    return portfolioWalletSet(
+      null,
+      parsed.filter(
+        (value): value is string =>
+          typeof value === "string" && isAddress(value, { strict: false }),
+      ),
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function savePortfolioWallets(
+  wallets: string[],
+  storage: WalletStorage | null = defaultStorage(),
+): void {
+  if (!storage) return;
+  try {
+    storage.setItem(PORTFOLIO_WALLETS_STORAGE_KEY, JSON.stringify(wallets));
+  } catch {
+    console.error("Failed to save portfolio wallets to localStorage");
+  }
+}
+
+/**
+ * The wallets a portfolio load covers: `primary` first, then `extras`,
+ * checksummed and de-duplicated case-insensitively.
+ */
+export function portfolioWalletSet(
+  primary: string | null | undefined,
+  extras: string[],
+): string[] {
+  const seen = new Set<string>();
+  const wallets: string[] = [];
+  for (const candidate of [primary, ...extras]) {
+    if (!candidate || !isAddress(candidate, { strict: false })) continue;
+    const key = candidate.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    wallets.push(getAddress(candidate));
+  }
+  return wallets;
+}
+
+/** Stable identity for a wallet set, used to discard stale loads. */
+export function walletSetKey(wallets: string[]): string {
+  return wallets.map((wallet) => wallet.toLowerCase()).join(",");
+}
+
+/** Sum per-wallet `token address -> balance (wei string)` maps. */
+export function sumTokenBalances(
+  balances: Array<Record<string, string>>,
+): Record<string, string> {
+  const totals: Record<string, bigint> = {};
+  for (const map of balances) {
+    for (const [token, balance] of Object.entries(map)) {
+      const key = token.toLowerCase();
+      totals[key] = (totals[key] ?? 0n) + BigInt(balance || "0");
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(totals).map(([token, total]) => [token, total.toString()]),
+  );
+}
+
+export interface WalletBreakdown {
+  address: string;
+  /** Sum of the wallet's balances across all tracked tokens. */
+  tokensOwned: number;
+  /** Null when the wallet's claims could not be loaded. */
+  earned: number | null;
+  unclaimed: number | null;
+  claimCount: number;
+}
+
+/** Per-wallet figures behind an aggregated portfolio, in `wallets` order. */
+export function buildWalletBreakdown(
+  wallets: string[],
+  claimsByWallet: Array<{ address: string; result: ClaimsResult }>,
+  balancesByWallet: Record<string, Record<string, string>>,
+): WalletBreakdown[] {
+  return wallets.map((address) => {
+    const key = address.toLowerCase();
+    const result =
+      claimsByWallet.find((entry) => entry.address.toLowerCase() === key)
+        ?.result ?? null;
+    const balances = balancesByWallet[key] ?? {};
+    const tokensOwned = Object.values(balances).reduce(
+      (sum, balance) => sum + Number(formatEther(BigInt(balance || "0"))),
+      0,
+    );
+    return {
+      address,
+      tokensOwned,
+      earned: result ? result.totals.earned : null,
+      unclaimed: result ? result.totals.unclaimed : null,
+      claimCount: result ? result.claimHistory.length : 0,
+    };
+  });
+}
+
+/**
+ * `wallet`'s unclaimed payouts for `token` (0 when its claims aren't loaded).
+ * Claims are keyed by wallet, so this is what a transfer leaves behind.
+ */
+export function unclaimedForWalletToken(
+  claimsByWallet: Array<{ address: string; result: ClaimsResult }>,
+  wallet: string,
+  token: string,
+): number {
+  const result = claimsByWallet.find(
+    (entry) => entry.address.toLowerCase() === wallet.toLowerCase(),
+  )?.result;
+  return (result?.holdings ?? [])
+    .filter(
+      (group) => group.tokenAddress?.toLowerCase() === token.toLowerCase(),
+    )
+    .reduce((sum, group) => sum + (Number(group.totalAmount) || 0), 0);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { maxUint256 } from "viem";
+import {
+  allowanceMessage,
+  allowanceStatus,
+  approvalAmount,
+  loadApprovalMode,
+  needsApproval,
+  saveApprovalMode,
+  supportsAtomicBatch,
+} from "./purchaseApproval";
+
+const USDC = 1_000_000n;
+
+describe("approvalAmount", () => {
+  it("approves the purchase amount or without a limit", () => {
+    expect(approvalAmount("exact", 50n * USDC)).toBe(50n * USDC);
+    expect(approvalAmount("unlimited", 50n * USDC)).toBe(maxUint256);
+  });
+});
+
+describe("allowanceStatus", () => {
+  const required = 50n * USDC;
+
+  it("classifies the existing allowance against the purchase", () => {
+    expect(allowanceStatus(0n, required)).toEqual({ kind: "none" });
+    expect(allowanceStatus(10n * USDC, required)).toEqual({
+      kind: "insufficient",
+      allowance: 10n * USDC,
+    });
+    expect(allowanceStatus(required, required)).toEqual({
+      kind: "sufficient",
+      allowance: required,
+    });
+    expect(allowanceStatus(maxUint256 - 1n, required)).toEqual({
+      kind: "unlimited",
+    });
+  });
+
+  it("only asks for an approval when the allowance falls short", () => {
+    expect(needsApproval(allowanceStatus(0n, required))).toBe(true);
+    expect(needsApproval(allowanceStatus(10n * USDC, required))).toBe(true);
+    expect(needsApproval(allowanceStatus(required, required))).toBe(false);
+    expect(needsApproval(allowanceStatus(maxUint256, required))).toBe(false);
+  });
+
+  it("describes the allowance in USDC", () => {
+    expect(
+      allowanceMessage(allowanceStatus(1234n * USDC, required), 6),
+    ).toContain("1,234.00 USDC covers this purchase");
+  });
+});
+
+describe("supportsAtomicBatch", () => {
+  it("reads the EIP-5792 atomic capability and its earlier draft", () => {
+    expect(supportsAtomicBatch({ atomic: { status: "supported" } })).toBe(true);
+    expect(supportsAtomicBatch({ atomic: { status: "ready" } })).toBe(true);
+    expect(supportsAtomicBatch({ atomicBatch: { supported: true } })).toBe(
+      true,
+    );
+    expect(supportsAtomicBatch({ atomic: { status: "unsupported" } })).toBe(
+      false,
+    );
+    expect(supportsAtomicBatch(undefined)).toBe(false);
+  });
+});
+
+describe("approval mode", () => {
+  it("round-trips and defaults to exact", () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    };
+    expect(loadApprovalMode(storage)).toBe("exact");
+    saveApprovalMode("unlimited", storage);
+    expect(loadApprovalMode(storage)).toBe("unlimited");
+  });
+});
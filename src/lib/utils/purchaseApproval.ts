@@ -0,0 +1,117 @@
+/**
+ * How a primary purchase gets its USDC allowance.
+ *
+ * The vault's authorizer pulls the payment with `transferFrom` while the
+ * deposit runs, so the buyer needs an allowance for the authorizer first.
+ * The buyer chooses between approving exactly the purchase amount and
+ * approving once without a limit; an allowance already in place that covers
+ * the purchase skips the approval entirely.
+ *
+ * With a wallet that sends atomic call batches (EIP-5792 `wallet_sendCalls`),
+ * the approval and the deposit go out as one batch: a single confirmation.
+ * There is no EIP-2612 permit mode: USDC supports `permit`, but neither the
+ * vault's `deposit` nor the authorizer accepts a permit signature, so a
+ * permit would still need its own transaction before the deposit, and in a
+ * batch it would only add a signature to the approval it replaces.
+ */
+import { formatUnits, maxUint256 } from "viem";
+
+export type ApprovalMode = "exact" | "unlimited";
+
+export type AllowanceStatus =
+  | { kind: "none" }
+  | { kind: "insufficient"; allowance: bigint }
+  | { kind: "sufficient"; allowance: bigint }
+  | { kind: "unlimited" };
+
+// Wallets and other dapps often approve slightly less than 2^256 - 1; treat
+// anything this large as unlimited.
+const UNLIMITED_THRESHOLD = maxUint256 / 2n;
+
+export function approvalAmount(mode: ApprovalMode, required: bigint): bigint {
+  return mode === "unlimited" ? maxUint256 : required;
+}
+
+export function allowanceStatus(
+  allowance: bigint,
+  required: bigint,
+): AllowanceStatus {
+  if (allowance >= UNLIMITED_THRESHOLD) return { kind: "unlimited" };
+  if (allowance === 0n) return { kind: "none" };
+  if (allowance < required) return { kind: "insufficient", allowance };
+  return { kind: "sufficient", allowance };
+}
+
+export function needsApproval(status: AllowanceStatus): boolean {
+  return status.kind === "none" || status.kind === "insufficient";
+}
+
+/** The existing allowance, in words shown before any approval is requested. */
+export function allowanceMessage(
+  status: AllowanceStatus,
+  decimals: number,
+): string {
+  const usdc = (amount: bigint) =>
+    `${Number(formatUnits(amount, decimals)).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })} USDC`;
+  switch (status.kind) {
+    case "unlimited":
+      return "You have already approved unlimited USDC for this token — no approval needed.";
+    case "sufficient":
+      return `Your existing approval of ${usdc(status.allowance)} covers this purchase — no approval needed.`;
+    case "insufficient":
+      return `Your existing approval of ${usdc(status.allowance)} doesn't cover this purchase, so a new approval is needed.`;
+    case "none":
+      return "USDC needs to be approved for this token before the purchase.";
+  }
+}
+
+/**
+ * True when the wallet reports atomic batching for the chain: the EIP-5792
+ * `atomic` capability, or `atomicBatch` from wallets on the earlier draft.
+ */
+export function supportsAtomicBatch(
+  capabilities: Record<string, unknown> | undefined,
+): boolean {
+  const atomic = capabilities?.atomic as { status?: string } | undefined;
+  const atomicBatch = capabilities?.atomicBatch as
+    { supported?: boolean } | undefined;
+  return (
+    atomic?.status === "supported" ||
+    atomic?.status === "ready" ||
+    atomicBatch?.supported === true
+  );
+}
+
+type ModeStorage = Pick<Storage, "getItem" | "setItem">;
+
+function defaultStorage(): ModeStorage | null {
+  return typeof localStorage === "undefined" ? null : localStorage;
+}
+
+export const APPROVAL_MODE_STORAGE_KEY = "albion-purchase-approval-mode";
+
+export function loadApprovalMode(
+  storage: ModeStorage | null = defaultStorage(),
+): ApprovalMode {
+  try {
+    return storage?.getItem(APPROVAL_MODE_STORAGE_KEY) === "unlimited"
+      ? "unlimited"
+      : "exact";
+  } catch {
+    return "exact";
+  }
+}
+
+export function saveApprovalMode(
+  mode: ApprovalMode,
+  storage: ModeStorage | null = defaultStorage(),
+): void {
+  try {
+    storage?.setItem(APPROVAL_MODE_STORAGE_KEY, mode);
+  } catch {
+    console.error("Failed to save approval mode to localStorage");
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { TokenMetadata } from "$lib/types/MetaboardTypes";
+import { calculateExpectedNextPayout } from "./formatters";
+import {
+  DEFAULT_OIL_PRICE_ASSUMPTION,
+  buildPurchaseQuote,
+  oilPriceAssumption,
+} from "./purchaseQuote";
+
+const months = Array.from({ length: 24 }, (_, i) => {
+  const date = new Date(2026, i, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+});
+
+const token = {
+  contractAddress: "0x00000000000000000000000000000000000000aa",
+  firstPaymentDate: "2026-01",
+  sharePercentage: 100,
+  asset: {
+    plannedProduction: {
+      oilPriceAssumption: 70,
+      projections: months.map((month) => ({ month, production: 100 })),
+    },
+    receiptsData: [{ month: "2025-12" }, { month: "2025-11" }],
+  },
+} as unknown as TokenMetadata;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 0, 15));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("buildPurchaseQuote", () => {
+  it("sizes the monthly payout to the tokens bought, after dilution", () => {
+    // 100 of 1000 tokens after the purchase: 10% of 100 bbl/month
+    const quote = buildPurchaseQuote(token, {
+      tokens: 100,
+      mintedSupply: 900,
+      livePrice: 80,
+    });
+    expect(quote.atAssumption.oilPrice).toBe(70);
+    expect(quote.atAssumption.monthlyPayout).toBeCloseTo(700);
+    expect(quote.atLivePrice?.oilPrice).toBe(80);
+    expect(quote.atLivePrice?.monthlyPayout).toBeCloseTo(800);
+    expect(quote.atLivePrice?.lifetimeIRR).toBeGreaterThan(
+      quote.atAssumption.lifetimeIRR,
+    );
+  });
+
+  it("uses the latest reported month for the first payout", () => {
+    const quote = buildPurchaseQuote(token, {
+      tokens: 1,
+      mintedSupply: 0,
+      livePrice: null,
+    });
+    expect(quote.firstPayout).toEqual(
+      calculateExpectedNextPayout("2026-01", "2025-12", undefined),
+    );
+  });
+
+  it("keeps the first month when projections start after this one", () => {
+    // Production from 2026-06: the first projected month is already full.
+    const later = {
+      ...token,
+      asset: {
+        ...token.asset,
+        plannedProduction: {
+          oilPriceAssumption: 70,
+          projections: months
+            .slice(5)
+            .map((month, i) => ({ month, production: 100 + i })),
+        },
+      },
+    } as TokenMetadata;
+    const quote = buildPurchaseQuote(later, {
+      tokens: 100,
+      mintedSupply: 900,
+      livePrice: null,
+    });
+    // 10% of 100..111 bbl at $70, 2026-06 through 2027-05
+    expect(quote.atAssumption.monthlyPayout).toBeCloseTo(105.5 * 7);
+  });
+
+  it("leaves out the live scenario without a live price", () => {
+    expect(
+      buildPurchaseQuote(token, { tokens: 1, mintedSupply: 0, livePrice: 0 })
+        .atLivePrice,
+    ).toBeNull();
+  });
+});
+
+describe("oilPriceAssumption", () => {
+  it("falls back to the default assumption", () => {
+    expect(oilPriceAssumption({ asset: {} } as TokenMetadata)).toBe(
+      DEFAULT_OIL_PRICE_ASSUMPTION,
+    );
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Projected payouts for a primary purchase, sized to the amount entered in
+ * the purchase widget.
+ *
+ * Each scenario runs the returns estimator for exactly the tokens being
+ * bought (so the buyer's own dilution of the pool is included) at one oil
+ * price: the asset's planned-production assumption, and the live WTI price
+ * when one is available.
+ */
+import type { TokenMetadata } from "$lib/types/MetaboardTypes";
+import {
+  calculateLifetimeIRR,
+  calculateMonthlyTokenCashflows,
+  getCurrentYearMonth,
+} from "./returnsEstimatorHelpers";
+import { calculateExpectedNextPayout } from "./formatters";
+
+/** Oil price used when the asset's planned production doesn't state one. */
+export const DEFAULT_OIL_PRICE_ASSUMPTION = 65;
+
+/** Months averaged for the projected monthly payout. */
+const MONTHLY_PAYOUT_WINDOW = 12;
+
+export interface PurchaseScenario {
+  oilPrice: number;
+  /** Average projected USDC per month over the next year of full months. */
+  monthlyPayout: number;
+  /** Annualized lifetime IRR, as a percentage. */
+  lifetimeIRR: number;
+}
+
+export interface PurchaseQuote {
+  tokens: number;
+  firstPayout: Date | null;
+  atAssumption: PurchaseScenario;
+  /** Null when no live price could be fetched. */
+  atLivePrice: PurchaseScenario | null;
+}
+
+export function oilPriceAssumption(token: TokenMetadata): number {
+  const assumption = token.asset?.plannedProduction?.oilPriceAssumption;
+  return typeof assumption === "number" && assumption > 0
+    ? assumption
+    : DEFAULT_OIL_PRICE_ASSUMPTION;
+}
+
+export function purchaseScenario(
+  token: TokenMetadata,
+  oilPrice: number,
+  mintedSupply: number,
+  tokens: number,
+): PurchaseScenario {
+  // Drop the purchase outflow, and the current month when it is pro-rated
+  // (projections that start later have no partial month).
+  const [, ...projected] = calculateMonthlyTokenCashflows(
+    token,
+    oilPrice,
+    mintedSupply,
+    tokens,
+  );
+  const start = projected[0]?.month === getCurrentYearMonth() ? 1 : 0;
+  const fullMonths = projected.slice(start, start + MONTHLY_PAYOUT_WINDOW);
+  const monthlyPayout =
+    fullMonths.length > 0
+      ? fullMonths.reduce((sum, m) => sum + m.cashflow, 0) / fullMonths.length
+      : 0;
+  return {
+    oilPrice,
+    monthlyPayout,
+    lifetimeIRR: calculateLifetimeIRR(token, oilPrice, mintedSupply, tokens),
+  };
+}
+
+/** When the next payout is expected, from the token's payout schedule. */
+export function expectedFirstPayout(token: TokenMetadata): Date | null {
+  const months = (token.asset?.receiptsData ?? [])
+    .map((receipt) => receipt.month)
+    .filter((month) => typeof month === "string" && month.length > 0)
+    .sort();
+  return calculateExpectedNextPayout(
+    token.firstPaymentDate,
+    months.at(-1),
+    token.asset?.cashflowStartDate,
+  );
+}
+
+export function buildPurchaseQuote(
+  token: TokenMetadata,
+  params: { tokens: number; mintedSupply: number; livePrice: number | null },
+): PurchaseQuote {
+  const { tokens, mintedSupply, livePrice } = params;
+  return {
+    tokens,
+    firstPayout: expectedFirstPayout(token),
+    atAssumption: purchaseScenario(
+      token,
+      oilPriceAssumption(token),
+      mintedSupply,
+      tokens,
+    ),
+    atLivePrice:
+      livePrice !== null && livePrice > 0
+        ? purchaseScenario(token, livePrice, mintedSupply, tokens)
+        : null,
+  };
+}
@@ -7,7 +7,7 @@ import type { TokenMetadata, ReceiptsData } from "$lib/types/MetaboardTypes";
 /**
  * Get current date as YYYY-MM string
  */
-function getCurrentYearMonth(): string {
+export function getCurrentYearMonth(): string {
   const now = new Date();
   const year = now.getFullYear();
   const month = String(now.getMonth() + 1).padStart(2, "0");
@@ -0,0 +1,62 @@
+// src/lib/utils/safeTxBuilder.test.ts
+import { describe, it, expect } from "vitest";
+import {
+  buildSafeClaimBatch,
+  isContractBytecode,
+  safeClaimBatchFileName,
+  SAFE_TX_BUILDER_FORMAT_VERSION,
+} from "./safeTxBuilder";
+
+const SAFE = "0x1234567890AbcdEF1234567890aBcdef12345678";
+const OB_V6 = "0x00000000000000000000000000000000000000b6";
+const OB_V4 = "0x00000000000000000000000000000000000000b4";
+
+describe("buildSafeClaimBatch", () => {
+  it("emits one raw, zero-value transaction per claim call", () => {
+    const batch = buildSafeClaimBatch({
+      safeAddress: SAFE,
+      chainId: 8453,
+      calls: [
+        { to: OB_V6, data: "0xaaaa" },
+        { to: OB_V4, data: "0xbbbb" },
+      ],
+      description: "Claim 3 payouts",
+      createdAt: 1_700_000_000_000,
+    });
+    expect(batch.version).toBe(SAFE_TX_BUILDER_FORMAT_VERSION);
+    expect(batch.chainId).toBe("8453");
+    expect(batch.createdAt).toBe(1_700_000_000_000);
+    expect(batch.meta.createdFromSafeAddress).toBe(SAFE);
+    expect(batch.meta.description).toBe("Claim 3 payouts");
+    expect(batch.transactions).toEqual([
+      { to: OB_V6, value: "0", data: "0xaaaa", contractMethod: null, contractInputsValues: null },
+      { to: OB_V4, value: "0", data: "0xbbbb", contractMethod: null, contractInputsValues: null },
+    ]);
+  });
+
+  it("refuses an empty batch", () => {
+    expect(() =>
+      buildSafeClaimBatch({ safeAddress: SAFE, chainId: 8453, calls: [], description: "" }),
+    ).toThrow(/No claim transactions/);
+  });
+});
+
+describe("safeClaimBatchFileName", () => {
+  it("uses a short lowercase address", () => {
+    expect(safeClaimBatchFileName(SAFE)).toBe("albion-claim-safe-0x12345678.json");
+  });
+});
+
+describe("isContractBytecode", () => {
+  it("treats empty code as an EOA", () => {
+    expect(isContractBytecode(undefined)).toBe(false);
+    expect(isContractBytecode(null)).toBe(false);
+    expect(isContractBytecode("0x")).toBe(false);
+  });
+  it("detects deployed contract code", () => {
+    expect(isContractBytecode("0x608060405234801561001057600080fd5b50")).toBe(true);
+  });
+  it("treats EIP-7702 delegated EOAs as EOAs", () => {
+    expect(isContractBytecode(`0xef0100${"ab".repeat(20)}`)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+// src/lib/utils/safeTxBuilder.ts
+
+/**
+ * Claim export for Safe (and other smart-contract) wallets.
+ *
+ * A Safe cannot sign a `sendTransaction` from the page the way an EOA does —
+ * its owners propose and co-sign transactions in the Safe app. So instead of
+ * sending, the claims page builds the same takeOrders calldata it would send
+ * and exports it as a Safe Transaction Builder batch (the JSON the builder's
+ * "Load" drop zone accepts). The Safe executes the whole batch atomically via
+ * MultiSend, so one entry per OrderBook is enough; there is no per-tx gas
+ * splitting to do here.
+ */
+
+/** Transaction Builder file format version this export targets. */
+export const SAFE_TX_BUILDER_FORMAT_VERSION = "1.0";
+
+export interface SafeTxBuilderTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: null;
+  contractInputsValues: null;
+}
+
+export interface SafeTxBuilderBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeTxBuilderTransaction[];
+}
+
+export interface SafeClaimCall {
+  /** OrderBook the claim is taken from. */
+  to: string;
+  /** Encoded takeOrders call (see buildClaimCalldata). */
+  data: string;
+}
+
+/**
+ * Build a Transaction Builder batch of raw claim calls. Calls carry no ETH
+ * value and no ABI method — the builder shows them as raw calldata, which is
+ * what the Safe owners should verify against the OrderBook address.
+ */
+export function buildSafeClaimBatch(params: {
+  safeAddress: string;
+  chainId: number;
+  calls: SafeClaimCall[];
+  description: string;
+  createdAt?: number;
+}): SafeTxBuilderBatch {
+  if (params.calls.length === 0) {
+    throw new Error("No claim transactions to export");
+  }
+  return {
+    version: SAFE_TX_BUILDER_FORMAT_VERSION,
+    chainId: String(params.chainId),
+    createdAt: params.createdAt ?? Date.now(),
+    meta: {
+      name: "Albion payout claim",
+      description: params.description,
+      txBuilderVersion: "",
+      createdFromSafeAddress: params.safeAddress,
+      createdFromOwnerAddress: "",
+    },
+    transactions: params.calls.map((call) => ({
+      to: call.to,
+      value: "0",
+      data: call.data,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  };
+}
+
+/** File name for a downloaded batch, e.g. `albion-claim-safe-0x1234abcd.json`. */
+export function safeClaimBatchFileName(safeAddress: string): string {
+  return `albion-claim-safe-${safeAddress.slice(0, 10).toLowerCase()}.json`;
+}
+
+/** EIP-7702 delegation designator: an EOA running delegated code. */
+const EIP7702_DELEGATION_PREFIX = "0xef0100";
+
+/**
+ * True when `bytecode` (from eth_getCode) belongs to a smart-contract account.
+ * EIP-7702-delegated EOAs still hold their own key and send transactions
+ * directly, so they count as EOAs here.
+ */
+export function isContractBytecode(
+  bytecode: string | null | undefined,
+): boolean {
+  if (!bytecode || bytecode === "0x") return false;
+  return !bytecode.toLowerCase().startsWith(EIP7702_DELEGATION_PREFIX);
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { OrderV4 } from "@rainlanguage/orderbook";
+
+const m = vi.hoisted(() => ({
+  orders: {} as Record<string, unknown>,
+  records: {
+    sells: [] as { orderHash: string; owner: string; orderBytes: string }[],
+    buys: [] as { orderHash: string; owner: string; orderBytes: string }[],
+  },
+}));
+
+vi.mock("@wagmi/core", () => ({
+  readContract: vi.fn(),
+  sendTransaction: vi.fn(),
+  simulateContract: vi.fn(),
+  waitForTransactionReceipt: vi.fn(),
+  writeContract: vi.fn(),
+}));
+vi.mock("$lib/network", () => ({
+  ORDERBOOK_V6_CONTRACT_ADDRESS: "0x00000000000000000000000000000000000000b6",
+  ENERGY_FIELDS: [
+    {
+      name: "Field",
+      sftTokens: [
+        {
+          address: "0x00000000000000000000000000000000000000aa",
+          symbol: "TKN",
+          claims: [{ orderHash: "0xCLAIM" }],
+        },
+      ],
+    },
+  ],
+}));
+vi.mock("$lib/data/repositories/marketRepository", () => ({
+  marketRepository: { getOpenOrdersForToken: async () => m.records },
+}));
+vi.mock("$lib/utils/orderbook", () => ({
+  decodeOrderBytes: (bytes: string) => m.orders[bytes],
+}));
+
+import { readContract, type Config } from "@wagmi/core";
+import { amount18FromFloatHex, floatHexFromAmount18 } from "./float";
+import {
+  canonicalDecimal,
+  fetchMarketOrders,
+  marketQuote,
+  marketSideForOrder,
+  sellOrderRainlang,
+  takeLimits,
+  takeUsdc18,
+} from "./secondaryMarket";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const USDC = "0x00000000000000000000000000000000000000cc";
+const OTHER = "0x00000000000000000000000000000000000000dd";
+const VAULT = `0x${"01".padStart(64, "0")}`;
+const ONE = 10n ** 18n;
+
+function order(inputs: string[], outputs: string[]): OrderV4 {
+  return {
+    owner: "0x0000000000000000000000000000000000000001",
+    evaluable: { interpreter: OTHER, store: OTHER, bytecode: "0x" },
+    validInputs: inputs.map((token) => ({ token, vaultId: VAULT })),
+    validOutputs: outputs.map((token) => ({ token, vaultId: VAULT })),
+    nonce: VAULT,
+  } as OrderV4;
+}
+
+describe("marketSideForOrder", () => {
+  it("classifies token-out/USDC-in as a sell with its IO indexes", () => {
+    expect(
+      marketSideForOrder(order([OTHER, USDC], [TOKEN]), TOKEN, USDC),
+    ).toEqual({ side: "sell", inputIOIndex: 1, outputIOIndex: 0 });
+  });
+
+  it("classifies USDC-out/token-in as a buy, ignoring address case", () => {
+    expect(
+      marketSideForOrder(
+        order([TOKEN.toUpperCase()], [OTHER, USDC]),
+        TOKEN,
+        USDC,
+      ),
+    ).toEqual({ side: "buy", inputIOIndex: 0, outputIOIndex: 1 });
+  });
+
+  it("ignores orders that don't pair the token with USDC", () => {
+    expect(marketSideForOrder(order([OTHER], [TOKEN]), TOKEN, USDC)).toBeNull();
+  });
+});
+
+describe("marketQuote", () => {
+  it("reads a sell order's ratio as the USDC price", () => {
+    expect(marketQuote("sell", 10n * ONE, 2n * ONE)).toEqual({
+      price18: 2n * ONE,
+      tokens18: 10n * ONE,
+    });
+  });
+
+  it("inverts a buy order's tokens-per-USDC ratio", () => {
+    // 100 USDC offered at 0.5 tokens per USDC: 50 tokens at 2 USDC each
+    expect(marketQuote("buy", 100n * ONE, ONE / 2n)).toEqual({
+      price18: 2n * ONE,
+      tokens18: 50n * ONE,
+    });
+  });
+
+  it("drops orders with nothing to trade", () => {
+    expect(marketQuote("sell", 0n, ONE)).toBeNull();
+    expect(marketQuote("buy", ONE, 0n)).toBeNull();
+  });
+});
+
+describe("takeUsdc18", () => {
+  it("rounds what a buyer pays up and what a seller receives down", () => {
+    expect(takeUsdc18({ side: "sell", ratio18: ONE / 3n }, 1n)).toBe(1n);
+    expect(takeUsdc18({ side: "sell", ratio18: 2n * ONE }, 3n * ONE)).toBe(
+      6n * ONE,
+    );
+    expect(takeUsdc18({ side: "buy", ratio18: 3n * ONE }, 1n * ONE)).toBe(
+      333333333333333333n,
+    );
+  });
+});
+
+describe("takeLimits", () => {
+  const ratio = floatHexFromAmount18(2n * ONE);
+
+  it("bounds the tokens received when buying from a sell order", () => {
+    const limits = takeLimits({ side: "sell", ioRatio: ratio }, 5n * ONE);
+    expect(limits.IOIsInput).toBe(true);
+    expect(limits.maximumIORatio).toBe(ratio);
+    expect(amount18FromFloatHex(limits.minimumIO)).toBe(5n * ONE);
+    expect(amount18FromFloatHex(limits.maximumIO)).toBe(5n * ONE);
+  });
+
+  it("bounds the tokens given when selling into a buy order", () => {
+    expect(takeLimits({ side: "buy", ioRatio: ratio }, ONE).IOIsInput).toBe(
+      false,
+    );
+  });
+});
+
+describe("sell order Rainlang", () => {
+  it("normalizes decimals", () => {
+    expect(canonicalDecimal(" 007.50 ")).toBe("7.5");
+    expect(canonicalDecimal("12")).toBe("12");
+  });
+
+  it("rejects anything that isn't a positive plain decimal", () => {
+    for (const bad of ["", "0", "0.0", "-1", "1e3", "1.2.3", "abc", "1;"]) {
+      expect(() => canonicalDecimal(bad)).toThrow();
+    }
+  });
+
+  it("emits a fixed-price calculate-io and an empty handle-io", () => {
+    expect(sellOrderRainlang("100", "2.50")).toBe(
+      "max-output io-ratio: 100 2.5;\n:;",
+    );
+  });
+});
+
+describe("fetchMarketOrders", () => {
+  const record = (orderHash: string) => ({
+    orderHash,
+    owner: OTHER,
+    orderBytes: orderHash,
+  });
+
+  beforeEach(() => {
+    m.orders = {
+      "0xsell-3": order([USDC], [TOKEN]),
+      "0xsell-2": order([USDC], [TOKEN]),
+      "0xbuy": order([TOKEN], [USDC]),
+      "0xclaim": order([USDC], [TOKEN]),
+      "0xother": order([OTHER], [TOKEN]),
+      "0xempty": order([USDC], [TOKEN]),
+    };
+    m.records = {
+      sells: ["0xsell-3", "0xsell-2", "0xclaim", "0xother", "0xempty"].map(
+        record,
+      ),
+      buys: [record("0xbuy")],
+    };
+    const quotes: Record<string, [boolean, bigint, bigint]> = {
+      "0xsell-3": [true, 5n * ONE, 3n * ONE],
+      "0xsell-2": [true, 1n * ONE, 2n * ONE],
+      "0xbuy": [true, 10n * ONE, ONE],
+      "0xclaim": [true, ONE, ONE],
+      "0xother": [true, ONE, ONE],
+      "0xempty": [false, 0n, 0n],
+    };
+    vi.mocked(readContract).mockImplementation((async (
+      _config: unknown,
+      { args }: { args: [{ order: OrderV4 }] },
+    ) => {
+      const hash = Object.keys(m.orders).find(
+        (h) => m.orders[h] === args[0].order,
+      ) as string;
+      const [exists, out, ratio] = quotes[hash];
+      return [exists, floatHexFromAmount18(out), floatHexFromAmount18(ratio)];
+    }) as never);
+  });
+
+  it("quotes, filters and sorts both sides, skipping claim orders", async () => {
+    const { sells, buys } = await fetchMarketOrders({} as Config, {
+      token: TOKEN,
+      paymentToken: USDC,
+    });
+    expect(sells.map((o) => [o.orderHash, o.price18, o.tokens18])).toEqual([
+      ["0xsell-2", 2n * ONE, 1n * ONE],
+      ["0xsell-3", 3n * ONE, 5n * ONE],
+    ]);
+    expect(buys.map((o) => [o.orderHash, o.price18, o.tokens18])).toEqual([
+      ["0xbuy", ONE, 10n * ONE],
+    ]);
+  });
+
+  it("skips an order whose quote fails", async () => {
+    vi.mocked(readContract).mockRejectedValueOnce(new Error("revert"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { sells } = await fetchMarketOrders({} as Config, {
+      token: TOKEN,
+      paymentToken: USDC,
+    });
+    expect(sells.map((o) => o.orderHash)).toEqual(["0xsell-2"]);
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * Secondary market for royalty tokens: open Raindex orders on the v6 OrderBook
+ * that trade a royalty token against the payment token (USDC).
+ *
+ * A "sell" order outputs the royalty token and takes USDC in; a "buy" order is
+ * the reverse. Prices and amounts come from quote2 against the live chain, so
+ * what the panel shows is what a take would fill right now (the subgraph only
+ * finds candidate orders). Taking goes through the same takeOrders3 calldata
+ * builder as claims. Placing a sell order parses a fixed-price Rainlang
+ * expression on the configured deployment, then adds the order and deposits
+ * the tokens in one multicall.
+ *
+ * Royalty tokens are 18-decimal vault shares; amounts and prices below are
+ * 18-decimal fixed point (`*18`) unless named otherwise.
+ */
+import {
+  readContract,
+  sendTransaction,
+  simulateContract,
+  waitForTransactionReceipt,
+  writeContract,
+  type Config,
+} from "@wagmi/core";
+import {
+  encodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  parseAbi,
+  parseUnits,
+  stringToHex,
+  toHex,
+  zeroHash,
+  type Abi,
+  type Hex,
+} from "viem";
+import type { OrderV4 } from "@rainlanguage/orderbook";
+import {
+  ENERGY_FIELDS,
+  ORDERBOOK_V6_CONTRACT_ADDRESS,
+  type RaindexOrderDeployment,
+} from "$lib/network";
+import orderbookV6Abi from "$lib/abi/orderbook-v6.json";
+import {
+  marketRepository,
+  type MarketOrderRecord,
+} from "$lib/data/repositories/marketRepository";
+import {
+  buildV6TakeOrdersCalldata,
+  type TakeOrdersLimits,
+} from "$lib/utils/claimExecution";
+import { amount18FromFloatHex, floatHexFromAmount18 } from "$lib/utils/float";
+import { decodeOrderBytes } from "$lib/utils/orderbook";
+
+export type MarketSide = "sell" | "buy";
+
+export interface MarketOrder {
+  orderHash: string;
+  owner: string;
+  order: OrderV4;
+  side: MarketSide;
+  /** Indexes into the order's own validInputs / validOutputs. */
+  inputIOIndex: number;
+  outputIOIndex: number;
+  /** USDC per royalty token. */
+  price18: bigint;
+  /** Royalty tokens the order can trade right now. */
+  tokens18: bigint;
+  /** quote2 ratio (order input per order output), Float hex; caps a take. */
+  ioRatio: Hex;
+  ratio18: bigint;
+}
+
+const ONE_18 = 10n ** 18n;
+const orderbookAbi = orderbookV6Abi as Abi;
+const parserAbi = parseAbi([
+  "function parse2(bytes data) view returns (bytes bytecode)",
+]);
+
+const CLAIM_ORDER_HASHES = new Set(
+  ENERGY_FIELDS.flatMap((field) =>
+    field.sftTokens.flatMap((token) =>
+      token.claims.map((claim) => claim.orderHash.toLowerCase()),
+    ),
+  ),
+);
+
+/**
+ * Which side of the market an order is on for `token`, with the IO indexes a
+ * take needs; null when it doesn't trade `token` against `paymentToken`.
+ */
+export function marketSideForOrder(
+  order: OrderV4,
+  token: string,
+  paymentToken: string,
+): Pick<MarketOrder, "side" | "inputIOIndex" | "outputIOIndex"> | null {
+  const find = (ios: OrderV4["validInputs"], address: string) =>
+    ios.findIndex((io) => io.token.toLowerCase() === address.toLowerCase());
+
+  const tokenOut = find(order.validOutputs, token);
+  const paymentIn = find(order.validInputs, paymentToken);
+  if (tokenOut >= 0 && paymentIn >= 0) {
+    return { side: "sell", inputIOIndex: paymentIn, outputIOIndex: tokenOut };
+  }
+  const tokenIn = find(order.validInputs, token);
+  const paymentOut = find(order.validOutputs, paymentToken);
+  if (tokenIn >= 0 && paymentOut >= 0) {
+    return { side: "buy", inputIOIndex: tokenIn, outputIOIndex: paymentOut };
+  }
+  return null;
+}
+
+/**
+ * Price and size from a quote. A sell order's ratio is already USDC per token
+ * and its max output is in tokens; a buy order outputs USDC at a ratio of
+ * tokens per USDC. Null when the order can't trade (nothing left, zero ratio).
+ */
+export function marketQuote(
+  side: MarketSide,
+  maxOutput18: bigint,
+  ratio18: bigint,
+): { price18: bigint; tokens18: bigint } | null {
+  if (maxOutput18 <= 0n || ratio18 <= 0n) return null;
+  if (side === "sell") return { price18: ratio18, tokens18: maxOutput18 };
+  const tokens18 = (maxOutput18 * ratio18) / ONE_18;
+  if (tokens18 === 0n) return null;
+  return { price18: (ONE_18 * ONE_18) / ratio18, tokens18 };
+}
+
+/**
+ * USDC exchanged when taking `tokens18` from `order`: paid for a sell order
+ * (rounded up), received from a buy order (rounded down).
+ */
+export function takeUsdc18(
+  order: Pick<MarketOrder, "side" | "ratio18">,
+  tokens18: bigint,
+): bigint {
+  if (order.side === "sell") {
+    return (tokens18 * order.ratio18 + ONE_18 - 1n) / ONE_18;
+  }
+  return (tokens18 * ONE_18) / order.ratio18;
+}
+
+/**
+ * Limits for taking exactly `tokens18` from one order at no worse than its
+ * quoted ratio. Buying from a sell order bounds what the taker receives
+ * (IOIsInput); selling into a buy order bounds what the taker gives.
+ */
+export function takeLimits(
+  order: Pick<MarketOrder, "side" | "ioRatio">,
+  tokens18: bigint,
+): TakeOrdersLimits {
+  const amount = floatHexFromAmount18(tokens18);
+  return {
+    minimumIO: amount,
+    maximumIO: amount,
+    maximumIORatio: order.ioRatio,
+    IOIsInput: order.side === "sell",
+  };
+}
+
+/** "007.50" → "7.5"; throws on anything but a positive plain decimal. */
+export function canonicalDecimal(value: string): string {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d{1,18})?$/.test(trimmed)) {
+    throw new Error(`Not a plain decimal amount: ${value}`);
+  }
+  const canonical = formatUnits(parseUnits(trimmed, 18), 18);
+  if (canonical === "0") throw new Error("Amount must be greater than zero.");
+  return canonical;
+}
+
+/**
+ * Fixed-price sell order: offer up to `amount` tokens (further capped by the
+ * vault balance) at `price` USDC each. Rain ratios are input per output, which
+ * for a sell order is exactly the USDC price.
+ */
+export function sellOrderRainlang(amount: string, price: string): string {
+  return `max-output io-ratio: ${canonicalDecimal(amount)} ${canonicalDecimal(price)};\n:;`;
+}
+
+/** OrderConfigV4 for addOrder3: the token out of, and USDC into, one vault id. */
+export function buildSellOrderConfig(params: {
+  deployment: RaindexOrderDeployment;
+  bytecode: Hex;
+  token: Hex;
+  paymentToken: Hex;
+  vaultId: Hex;
+  nonce: Hex;
+}) {
+  const { deployment, bytecode, token, paymentToken, vaultId, nonce } = params;
+  return {
+    evaluable: {
+      interpreter: deployment.interpreter,
+      store: deployment.store,
+      bytecode,
+    },
+    validInputs: [{ token: paymentToken, vaultId }],
+    validOutputs: [{ token, vaultId }],
+    nonce,
+    secret: zeroHash,
+    meta: "0x" as Hex,
+  };
+}
+
+function randomBytes32(): Hex {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/** 18-decimal amount in `decimals` token units, rounded up. */
+function toTokenUnitsCeil(amount18: bigint, decimals: number): bigint {
+  const scale = 10n ** BigInt(18 - decimals);
+  return (amount18 + scale - 1n) / scale;
+}
+
+// ---------------------------------------------------------------------------
+// Chain reads and writes
+// ---------------------------------------------------------------------------
+
+async function quoteOrder(
+  config: Config,
+  record: MarketOrderRecord,
+  token: string,
+  paymentToken: string,
+): Promise<MarketOrder | null> {
+  const order = decodeOrderBytes(record.orderBytes);
+  const side = marketSideForOrder(order, token, paymentToken);
+  if (!side) return null;
+  const [exists, maxOutput, ioRatio] = (await readContract(config, {
+    address: ORDERBOOK_V6_CONTRACT_ADDRESS as Hex,
+    abi: orderbookAbi,
+    functionName: "quote2",
+    args: [
+      {
+        order,
+        inputIOIndex: BigInt(side.inputIOIndex),
+        outputIOIndex: BigInt(side.outputIOIndex),
+        signedContext: [],
+      },
+    ],
+  })) as [boolean, Hex, Hex];
+  if (!exists) return null;
+  const ratio18 = amount18FromFloatHex(ioRatio);
+  const quote = marketQuote(
+    side.side,
+    amount18FromFloatHex(maxOutput),
+    ratio18,
+  );
+  if (!quote) return null;
+  return {
+    orderHash: record.orderHash,
+    owner: record.owner,
+    order,
+    ...side,
+    ...quote,
+    ioRatio,
+    ratio18,
+  };
+}
+
+/**
+ * Open orders for `token`, quoted: sells cheapest first, buys highest first.
+ * Claim orders are never listed, and an order that fails to quote is skipped.
+ */
+export async function fetchMarketOrders(
+  config: Config,
+  params: { token: string; paymentToken: string },
+): Promise<{ sells: MarketOrder[]; buys: MarketOrder[] }> {
+  const { token, paymentToken } = params;
+  const { sells, buys } = await marketRepository.getOpenOrdersForToken(token);
+  const records = new Map<string, MarketOrderRecord>();
+  for (const record of [...sells, ...buys]) {
+    const hash = record.orderHash.toLowerCase();
+    if (!CLAIM_ORDER_HASHES.has(hash)) records.set(hash, record);
+  }
+
+  const quoted = await Promise.all(
+    [...records.values()].map((record) =>
+      quoteOrder(config, record, token, paymentToken).catch((error) => {
+        console.warn(
+          `[SecondaryMarket] quote failed for ${record.orderHash}:`,
+          error,
+        );
+        return null;
+      }),
+    ),
+  );
+  const orders = quoted.filter((o): o is MarketOrder => o !== null);
+  const byPrice = (a: MarketOrder, b: MarketOrder) =>
+    a.price18 === b.price18 ? 0 : a.price18 < b.price18 ? -1 : 1;
+  return {
+    sells: orders.filter((o) => o.side === "sell").sort(byPrice),
+    buys: orders.filter((o) => o.side === "buy").sort((a, b) => byPrice(b, a)),
+  };
+}
+
+async function ensureAllowance(
+  config: Config,
+  account: Hex,
+  token: Hex,
+  amount: bigint,
+): Promise<void> {
+  const spender = ORDERBOOK_V6_CONTRACT_ADDRESS as Hex;
+  const allowance = await readContract(config, {
+    address: token,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [account, spender],
+  });
+  if (allowance >= amount) return;
+  const { request } = await simulateContract(config, {
+    account,
+    address: token,
+    abi: erc20Abi,
+    functionName: "approve",
+    args: [spender, amount],
+  });
+  const hash = await writeContract(config, request);
+  await waitForTransactionReceipt(config, { hash });
+}
+
+async function orderbookMulticall(
+  config: Config,
+  account: Hex,
+  calls: Hex[],
+): Promise<Hex> {
+  const { request } = await simulateContract(config, {
+    account,
+    address: ORDERBOOK_V6_CONTRACT_ADDRESS as Hex,
+    abi: orderbookAbi,
+    functionName: "multicall",
+    args: [calls],
+  });
+  const hash = await writeContract(config, request);
+  await waitForTransactionReceipt(config, { hash });
+  return hash;
+}
+
+/**
+ * List `amount` royalty tokens at `price` USDC each: approve the OrderBook if
+ * needed, then add the order and deposit the tokens in one transaction.
+ */
+export async function placeSellOrder(
+  config: Config,
+  params: {
+    account: Hex;
+    deployment: RaindexOrderDeployment;
+    token: Hex;
+    paymentToken: Hex;
+    amount: string;
+    price: string;
+  },
+): Promise<Hex> {
+  const { account, deployment, token, paymentToken } = params;
+  const amount = canonicalDecimal(params.amount);
+  const bytecode = await readContract(config, {
+    address: deployment.parser,
+    abi: parserAbi,
+    functionName: "parse2",
+    args: [stringToHex(sellOrderRainlang(amount, params.price))],
+  });
+  const vaultId = randomBytes32();
+  const orderConfig = buildSellOrderConfig({
+    deployment,
+    bytecode,
+    token,
+    paymentToken,
+    vaultId,
+    nonce: randomBytes32(),
+  });
+  const amount18 = parseUnits(amount, 18);
+
+  await ensureAllowance(config, account, token, amount18);
+  return orderbookMulticall(config, account, [
+    encodeFunctionData({
+      abi: orderbookAbi,
+      functionName: "addOrder3",
+      args: [orderConfig, []],
+    }),
+    encodeFunctionData({
+      abi: orderbookAbi,
+      functionName: "deposit3",
+      args: [token, vaultId, floatHexFromAmount18(amount18), []],
+    }),
+  ]);
+}
+
+/**
+ * Take `tokens18` from `order`: buy from a sell order (paying USDC) or sell
+ * into a buy order (giving tokens), approving the OrderBook first if needed.
+ */
+export async function takeMarketOrder(
+  config: Config,
+  params: {
+    account: Hex;
+    order: MarketOrder;
+    tokens18: bigint;
+    token: Hex;
+    paymentToken: Hex;
+    paymentTokenDecimals: number;
+  },
+): Promise<Hex> {
+  const { account, order, tokens18 } = params;
+  if (tokens18 <= 0n || tokens18 > order.tokens18) {
+    throw new Error("Amount is more than this order offers.");
+  }
+  if (order.side === "sell") {
+    const cost = toTokenUnitsCeil(
+      takeUsdc18(order, tokens18),
+      params.paymentTokenDecimals,
+    );
+    await ensureAllowance(config, account, params.paymentToken, cost);
+  } else {
+    await ensureAllowance(config, account, params.token, tokens18);
+  }
+
+  const data = buildV6TakeOrdersCalldata(
+    [
+      {
+        order: order.order,
+        inputIOIndex: order.inputIOIndex,
+        outputIOIndex: order.outputIOIndex,
+        signedContext: [],
+      },
+    ],
+    takeLimits(order, tokens18),
+  );
+  const hash = await sendTransaction(config, {
+    account,
+    to: ORDERBOOK_V6_CONTRACT_ADDRESS as Hex,
+    data,
+  });
+  await waitForTransactionReceipt(config, { hash });
+  return hash;
+}
+
+/**
+ * Remove one of the account's own orders and withdraw whatever is left in its
+ * vaults (unsold tokens and USDC proceeds) in one transaction.
+ */
+export async function cancelMarketOrder(
+  config: Config,
+  params: { account: Hex; order: MarketOrder },
+): Promise<Hex> {
+  const { account, order } = params;
+  if (order.owner.toLowerCase() !== account.toLowerCase()) {
+    throw new Error("Only the order owner can cancel it.");
+  }
+  const ios = [...order.order.validInputs, ...order.order.validOutputs];
+  const balances = await Promise.all(
+    ios.map(
+      (io) =>
+        readContract(config, {
+          address: ORDERBOOK_V6_CONTRACT_ADDRESS as Hex,
+          abi: orderbookAbi,
+          functionName: "vaultBalance2",
+          args: [account, io.token, io.vaultId],
+        }) as Promise<Hex>,
+    ),
+  );
+
+  const calls: Hex[] = [
+    encodeFunctionData({
+      abi: orderbookAbi,
+      functionName: "removeOrder3",
+      args: [order.order, []],
+    }),
+  ];
+  ios.forEach((io, i) => {
+    if (amount18FromFloatHex(balances[i]) === 0n) return;
+    calls.push(
+      encodeFunctionData({
+        abi: orderbookAbi,
+        functionName: "withdraw3",
+        args: [io.token, io.vaultId, balances[i], []],
+      }),
+    );
+  });
+  return orderbookMulticall(config, account, calls);
+}
@@ -0,0 +1,185 @@
+// src/lib/utils/taxReport.test.ts
+import { describe, it, expect, vi } from "vitest";
+import type { ClaimHistory } from "./claims";
+import {
+  buildTaxReport,
+  ecbDailyRateSource,
+  fixedRateSource,
+  taxReportToCsv,
+  taxReportToHtml,
+  taxYearOf,
+  usdRateSource,
+  type FiatRateSource,
+} from "./taxReport";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const UK = { kind: "fiscal", startMonth: 4, startDay: 6 } as const;
+
+function claim(overrides: Partial<ClaimHistory>): ClaimHistory {
+  return {
+    date: "2025-02-10T12:00:00.000Z",
+    amount: "10.1",
+    asset: "Wressle-1",
+    fieldName: "Wressle-1",
+    symbol: "ALB-WR1-R1",
+    tokenAddress: "0xaaa",
+    txHash: "0xtx1",
+    status: "completed",
+    ...overrides,
+  };
+}
+
+describe("taxYearOf", () => {
+  it("uses calendar years", () => {
+    expect(taxYearOf("2025-12-31T23:59:59Z", { kind: "calendar" })).toEqual({
+      label: "2025",
+      start: "2025-01-01",
+      end: "2025-12-31",
+    });
+  });
+
+  it("splits fiscal years on the start day", () => {
+    expect(taxYearOf("2025-04-05T23:00:00Z", UK)).toEqual({
+      label: "2024/25",
+      start: "2024-04-06",
+      end: "2025-04-05",
+    });
+    expect(taxYearOf("2025-04-06T00:00:00Z", UK).label).toBe("2025/26");
+    expect(
+      taxYearOf("2025-06-30T00:00:00Z", {
+        kind: "fiscal",
+        startMonth: 7,
+        startDay: 1,
+      }).end,
+    ).toBe("2025-06-30");
+  });
+});
+
+describe("buildTaxReport", () => {
+  const history = [
+    claim({}),
+    claim({ date: "2025-03-01T00:00:00.000Z", amount: "0.2" }),
+    claim({
+      date: "2025-05-01T00:00:00.000Z",
+      amount: "5",
+      fieldName: "Bakken",
+      asset: "Bakken",
+      symbol: "ALB-BK1",
+      tokenAddress: "0xbbb",
+      txHash: "0xtx2",
+    }),
+  ];
+
+  it("groups by tax year, token and field with exact USDC totals", async () => {
+    const report = await buildTaxReport(history, {
+      wallet: WALLET,
+      basis: UK,
+      rateSource: usdRateSource,
+    });
+    expect(report.years.map((y) => y.label)).toEqual(["2025/26", "2024/25"]);
+    const [, earlier] = report.years;
+    expect(earlier.count).toBe(2);
+    expect(earlier.totalUsdc).toBe("10.3");
+    expect(earlier.byToken).toHaveLength(1);
+    expect(earlier.byField[0]).toMatchObject({
+      fieldName: "Wressle-1",
+      count: 2,
+      totalUsdc: "10.3",
+    });
+    expect(report.lines.map((l) => l.date)).toEqual(history.map((c) => c.date));
+  });
+
+  it("converts each claim at its own day's rate", async () => {
+    const rateSource: FiatRateSource = {
+      currency: "GBP",
+      label: "test",
+      rateFor: async (date) => (date.startsWith("2025-05") ? 0.5 : 0.8),
+    };
+    const report = await buildTaxReport(history, {
+      wallet: WALLET,
+      basis: { kind: "calendar" },
+      rateSource,
+    });
+    expect(report.years[0].totalFiat).toBeCloseTo(10.3 * 0.8 + 5 * 0.5);
+  });
+
+  it("fails rather than dropping income when a rate is missing", async () => {
+    const rateSource: FiatRateSource = {
+      currency: "EUR",
+      label: "broken",
+      rateFor: async () => {
+        throw new Error("no rate");
+      },
+    };
+    await expect(
+      buildTaxReport(history, {
+        wallet: WALLET,
+        basis: { kind: "calendar" },
+        rateSource,
+      }),
+    ).rejects.toThrow(/no rate/);
+  });
+
+  it("fails rather than counting an unparseable amount as zero", async () => {
+    await expect(
+      buildTaxReport([...history, claim({ amount: "12,5" })], {
+        wallet: WALLET,
+        basis: { kind: "calendar" },
+        rateSource: usdRateSource,
+      }),
+    ).rejects.toThrow(/Unparseable amount "12,5"/);
+  });
+
+  it("exports CSV and a printable summary for one year", async () => {
+    const report = await buildTaxReport(history, {
+      wallet: WALLET,
+      basis: { kind: "calendar" },
+      rateSource: fixedRateSource("EUR", 0.9),
+      now: new Date("2026-01-01T00:00:00Z"),
+    });
+    const csv = taxReportToCsv(report, "2025").split("\n");
+    expect(csv).toContain(
+      "2025-02-10T12:00:00.000Z,2025,Wressle-1,ALB-WR1-R1,10.1,0.9,9.09,0xtx1",
+    );
+    expect(csv[csv.length - 1]).toBe("2025,Total,,,3,15.3,13.77");
+
+    const html = taxReportToHtml(report, "2025");
+    expect(html).toContain("By energy field");
+    expect(html).toContain("€13.77");
+    expect(() => taxReportToHtml(report, "2019")).toThrow(/2019/);
+  });
+});
+
+describe("ecbDailyRateSource", () => {
+  it("fetches one rate per day and caches it", async () => {
+    const fetchFn = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ rates: { GBP: 0.79 } }), { status: 200 }),
+    );
+    const source = ecbDailyRateSource(
+      "GBP",
+      fetchFn as unknown as typeof fetch,
+    );
+    expect(await source.rateFor("2025-02-10T12:00:00Z")).toBe(0.79);
+    expect(await source.rateFor("2025-02-10T18:00:00Z")).toBe(0.79);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(fetchFn).toHaveBeenCalledWith(
+      "https://api.frankfurter.app/2025-02-10?from=USD&to=GBP",
+    );
+  });
+
+  it("retries a day after a failed lookup", async () => {
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ rates: { EUR: 0.92 } }), { status: 200 }),
+      );
+    const source = ecbDailyRateSource(
+      "EUR",
+      fetchFn as unknown as typeof fetch,
+    );
+    await expect(source.rateFor("2025-02-10")).rejects.toThrow(/HTTP 503/);
+    expect(await source.rateFor("2025-02-10")).toBe(0.92);
+  });
+});
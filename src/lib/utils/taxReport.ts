@@ -0,0 +1,466 @@
+// src/lib/utils/taxReport.ts
+import { formatEther } from "viem";
+import type { ClaimHistory } from "./claims";
+import { escapeHtml, toCsv, toWei } from "./fileExport";
+
+/**
+ * Tax-year income report over a wallet's claimed payouts.
+ *
+ * Input is ClaimsService's `claimHistory` — the same list the claims page
+ * renders — so report totals match the page. Income is dated by the claim's
+ * block time (the Context log timestamp), not by the payout month it settles:
+ * the USDC is received when the claim is mined. Amounts are summed exactly in
+ * 18-decimal fixed point; only the fiat conversion is floating point.
+ */
+
+/** Where the USDC→fiat rate for a given day comes from. */
+export interface FiatRateSource {
+  /** ISO 4217 code of the report currency. */
+  currency: string;
+  /** Shown on the report so the reader knows how amounts were converted. */
+  label: string;
+  /** Fiat units per 1 USDC on the UTC day of `dateIso`. */
+  rateFor(dateIso: string): Promise<number>;
+}
+
+/** USDC reported at par in USD. */
+export const usdRateSource: FiatRateSource = {
+  currency: "USD",
+  label: "USDC at par (1 USDC = 1 USD)",
+  rateFor: async () => 1,
+};
+
+/** One rate for every day (e.g. an average rate mandated by a tax authority). */
+export function fixedRateSource(
+  currency: string,
+  rate: number,
+): FiatRateSource {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Invalid ${currency} rate: ${rate}`);
+  }
+  return {
+    currency,
+    label: `Fixed rate 1 USD = ${rate} ${currency}`,
+    rateFor: async () => rate,
+  };
+}
+
+// Fetched from the browser: keep it in connect-src (vercel.json).
+const ECB_RATES_URL = "https://api.frankfurter.app";
+
+/**
+ * Daily ECB reference rates via the Frankfurter API (no key). USDC is taken
+ * at par with USD. Weekends and holidays resolve to the previous working
+ * day's rate, as the API does. Rates are cached per day.
+ */
+export function ecbDailyRateSource(
+  currency: string,
+  fetchFn: typeof fetch = fetch,
+): FiatRateSource {
+  const byDay = new Map<string, Promise<number>>();
+  return {
+    currency,
+    label: `ECB reference rate USD→${currency} on the claim date (USDC at par)`,
+    rateFor(dateIso: string) {
+      const day = dateIso.slice(0, 10);
+      let rate = byDay.get(day);
+      if (!rate) {
+        rate = (async () => {
+          const response = await fetchFn(
+            `${ECB_RATES_URL}/${day}?from=USD&to=${encodeURIComponent(currency)}`,
+          );
+          if (!response.ok) {
+            throw new Error(
+              `Rate lookup failed for ${day} (HTTP ${response.status})`,
+            );
+          }
+          const body = (await response.json()) as {
+            rates?: Record<string, number>;
+          };
+          const value = body.rates?.[currency];
+          if (typeof value !== "number" || !(value > 0)) {
+            throw new Error(`No USD→${currency} rate for ${day}`);
+          }
+          return value;
+        })();
+        // A failed lookup shouldn't poison the cache for a retry.
+        rate.catch(() => byDay.delete(day));
+        byDay.set(day, rate);
+      }
+      return rate;
+    },
+  };
+}
+
+/** Tax year definition: calendar, or a fiscal year starting on month/day. */
+export type TaxYearBasis =
+  | { kind: "calendar" }
+  | { kind: "fiscal"; startMonth: number; startDay: number };
+
+export const TAX_YEAR_PRESETS: Array<{
+  id: string;
+  label: string;
+  basis: TaxYearBasis;
+}> = [
+  {
+    id: "calendar",
+    label: "Calendar year (1 Jan)",
+    basis: { kind: "calendar" },
+  },
+  {
+    id: "uk",
+    label: "UK tax year (6 Apr)",
+    basis: { kind: "fiscal", startMonth: 4, startDay: 6 },
+  },
+  {
+    id: "au",
+    label: "Australian tax year (1 Jul)",
+    basis: { kind: "fiscal", startMonth: 7, startDay: 1 },
+  },
+];
+
+export interface TaxYear {
+  /** "2025" for calendar years, "2024/25" for fiscal years. */
+  label: string;
+  /** First day (inclusive), YYYY-MM-DD. */
+  start: string;
+  /** Last day (inclusive), YYYY-MM-DD. */
+  end: string;
+}
+
+function isoDay(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/** The tax year (UTC) that `dateIso` falls in. */
+export function taxYearOf(dateIso: string, basis: TaxYearBasis): TaxYear {
+  const date = new Date(dateIso);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid claim date: ${dateIso}`);
+  }
+  const year = date.getUTCFullYear();
+  if (basis.kind === "calendar") {
+    return {
+      label: String(year),
+      start: isoDay(year, 1, 1),
+      end: isoDay(year, 12, 31),
+    };
+  }
+  const startThisYear = Date.UTC(year, basis.startMonth - 1, basis.startDay);
+  const startYear = date.getTime() >= startThisYear ? year : year - 1;
+  return {
+    label: `${startYear}/${String((startYear + 1) % 100).padStart(2, "0")}`,
+    start: isoDay(startYear, basis.startMonth, basis.startDay),
+    end: isoDay(startYear + 1, basis.startMonth, basis.startDay - 1),
+  };
+}
+
+export interface TaxReportLine {
+  date: string;
+  taxYear: string;
+  fieldName: string;
+  symbol: string;
+  tokenAddress: string;
+  amountUsdc: string;
+  rate: number;
+  fiatAmount: number;
+  txHash: string;
+}
+
+export interface TaxReportGroup {
+  key: string;
+  fieldName: string;
+  symbol: string;
+  count: number;
+  totalUsdc: string;
+  totalFiat: number;
+}
+
+export interface TaxYearSummary extends TaxYear {
+  count: number;
+  totalUsdc: string;
+  totalFiat: number;
+  byToken: TaxReportGroup[];
+  byField: TaxReportGroup[];
+}
+
+export interface TaxReport {
+  currency: string;
+  rateSourceLabel: string;
+  wallet: string;
+  generatedAt: string;
+  /** Newest year first. */
+  years: TaxYearSummary[];
+  /** Every claimed payout, oldest first. */
+  lines: TaxReportLine[];
+}
+
+function groupLines(
+  lines: TaxReportLine[],
+  keyOf: (line: TaxReportLine) => string,
+): TaxReportGroup[] {
+  const groups = new Map<string, { group: TaxReportGroup; usdcWei: bigint }>();
+  for (const line of lines) {
+    const key = keyOf(line);
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = {
+        group: {
+          key,
+          fieldName: line.fieldName,
+          symbol: line.symbol,
+          count: 0,
+          totalUsdc: "0",
+          totalFiat: 0,
+        },
+        usdcWei: 0n,
+      };
+      groups.set(key, entry);
+    }
+    entry.group.count += 1;
+    entry.group.totalFiat += line.fiatAmount;
+    entry.usdcWei += toWei(line.amountUsdc);
+  }
+  return [...groups.values()]
+    .map(({ group, usdcWei }) => ({
+      ...group,
+      totalUsdc: formatEther(usdcWei),
+    }))
+    .sort(
+      (a, b) =>
+        a.fieldName.localeCompare(b.fieldName) ||
+        a.symbol.localeCompare(b.symbol),
+    );
+}
+
+/**
+ * Convert and group every claimed payout. Rejects if the rate source fails
+ * for any claim date or a claimed amount can't be parsed — a report with
+ * silently missing income is worse than none.
+ */
+export async function buildTaxReport(
+  claimHistory: ClaimHistory[],
+  options: {
+    wallet: string;
+    basis: TaxYearBasis;
+    rateSource: FiatRateSource;
+    now?: Date;
+  },
+): Promise<TaxReport> {
+  const claimed = claimHistory
+    .filter((claim) => claim.status === "completed")
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const lines: TaxReportLine[] = [];
+  for (const claim of claimed) {
+    const rate = await options.rateSource.rateFor(claim.date);
+    const amountUsdc = formatEther(toWei(claim.amount));
+    lines.push({
+      date: claim.date,
+      taxYear: taxYearOf(claim.date, options.basis).label,
+      fieldName: claim.fieldName ?? claim.asset,
+      symbol: claim.symbol ?? "",
+      tokenAddress: claim.tokenAddress ?? "",
+      amountUsdc,
+      rate,
+      fiatAmount: Number(amountUsdc) * rate,
+      txHash: claim.txHash,
+    });
+  }
+
+  const yearsByLabel = new Map<
+    string,
+    { year: TaxYear; lines: TaxReportLine[] }
+  >();
+  for (const line of lines) {
+    let entry = yearsByLabel.get(line.taxYear);
+    if (!entry) {
+      entry = { year: taxYearOf(line.date, options.basis), lines: [] };
+      yearsByLabel.set(line.taxYear, entry);
+    }
+    entry.lines.push(line);
+  }
+
+  const years: TaxYearSummary[] = [...yearsByLabel.values()]
+    .map(({ year, lines: yearLines }) => ({
+      ...year,
+      count: yearLines.length,
+      totalUsdc: formatEther(
+        yearLines.reduce((sum, line) => sum + toWei(line.amountUsdc), 0n),
+      ),
+      totalFiat: yearLines.reduce((sum, line) => sum + line.fiatAmount, 0),
+      byToken: groupLines(yearLines, (line) =>
+        (line.tokenAddress || line.symbol).toLowerCase(),
+      ),
+      byField: groupLines(yearLines, (line) => line.fieldName).map((group) => ({
+        ...group,
+        symbol: "",
+      })),
+    }))
+    .sort((a, b) => b.start.localeCompare(a.start));
+
+  return {
+    currency: options.rateSource.currency,
+    rateSourceLabel: options.rateSource.label,
+    wallet: options.wallet,
+    generatedAt: (options.now ?? new Date()).toISOString(),
+    years,
+    lines,
+  };
+}
+
+function fiat(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * CSV with one row per claimed payout, then per-year totals by token and by
+ * field. Pass `taxYear` to limit both to one year.
+ */
+export function taxReportToCsv(report: TaxReport, taxYear?: string): string {
+  const years = taxYear
+    ? report.years.filter((year) => year.label === taxYear)
+    : report.years;
+  const lines = taxYear
+    ? report.lines.filter((line) => line.taxYear === taxYear)
+    : report.lines;
+  const currency = report.currency;
+  const rows: Array<Array<string | number>> = [
+    ["Wallet", report.wallet],
+    ["Currency", currency],
+    ["Rate source", report.rateSourceLabel],
+    ["Generated", report.generatedAt],
+    [],
+    [
+      "Date (UTC)",
+      "Tax year",
+      "Field",
+      "Symbol",
+      "Amount (USDC)",
+      `Rate (${currency}/USDC)`,
+      `Amount (${currency})`,
+      "Transaction",
+    ],
+    ...lines.map((line) => [
+      line.date,
+      line.taxYear,
+      line.fieldName,
+      line.symbol,
+      line.amountUsdc,
+      line.rate,
+      fiat(line.fiatAmount),
+      line.txHash,
+    ]),
+    [],
+    [
+      "Tax year",
+      "Group",
+      "Name",
+      "Symbol",
+      "Payouts",
+      "Amount (USDC)",
+      `Amount (${currency})`,
+    ],
+  ];
+  for (const year of years) {
+    for (const group of year.byToken) {
+      rows.push([
+        year.label,
+        "Token",
+        group.fieldName,
+        group.symbol,
+        group.count,
+        group.totalUsdc,
+        fiat(group.totalFiat),
+      ]);
+    }
+    for (const group of year.byField) {
+      rows.push([
+        year.label,
+        "Field",
+        group.fieldName,
+        "",
+        group.count,
+        group.totalUsdc,
+        fiat(group.totalFiat),
+      ]);
+    }
+    rows.push([
+      year.label,
+      "Total",
+      "",
+      "",
+      year.count,
+      year.totalUsdc,
+      fiat(year.totalFiat),
+    ]);
+  }
+  return toCsv(rows);
+}
+
+/** Printable one-year summary (open in a window and print / save as PDF). */
+export function taxReportToHtml(report: TaxReport, taxYear: string): string {
+  const year = report.years.find((y) => y.label === taxYear);
+  if (!year) throw new Error(`No claimed income in tax year ${taxYear}`);
+  const money = (value: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: report.currency,
+    }).format(value);
+  const groupRows = (groups: TaxReportGroup[], withSymbol: boolean) =>
+    groups
+      .map(
+        (group) => `<tr>
+<td>${escapeHtml(group.fieldName)}</td>
+${withSymbol ? `<td>${escapeHtml(group.symbol)}</td>` : ""}
+<td class="num">${group.count}</td>
+<td class="num">${escapeHtml(group.totalUsdc)}</td>
+<td class="num">${escapeHtml(money(group.totalFiat))}</td>
+</tr>`,
+      )
+      .join("\n");
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Albion payout income ${escapeHtml(year.label)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 32px; color: #000; }
+h1 { font-size: 20px; margin: 0 0 16px; }
+h2 { font-size: 15px; margin: 24px 0 8px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 13px; }
+dt { font-weight: 700; }
+dd { margin: 0; word-break: break-all; }
+table { width: 100%; border-collapse: collapse; font-size: 12px; }
+th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+.num { text-align: right; }
+</style>
+</head>
+<body>
+<h1>Albion payout income — tax year ${escapeHtml(year.label)}</h1>
+<dl>
+<dt>Wallet</dt><dd>${escapeHtml(report.wallet)}</dd>
+<dt>Period</dt><dd>${escapeHtml(year.start)} to ${escapeHtml(year.end)} (UTC)</dd>
+<dt>Payouts claimed</dt><dd>${year.count}</dd>
+<dt>Total (USDC)</dt><dd>${escapeHtml(year.totalUsdc)}</dd>
+<dt>Total (${escapeHtml(report.currency)})</dt><dd>${escapeHtml(money(year.totalFiat))}</dd>
+<dt>Conversion</dt><dd>${escapeHtml(report.rateSourceLabel)}</dd>
+<dt>Generated</dt><dd>${escapeHtml(report.generatedAt)}</dd>
+</dl>
+<h2>By token</h2>
+<table>
+<thead><tr><th>Field</th><th>Symbol</th><th class="num">Payouts</th><th class="num">USDC</th><th class="num">${escapeHtml(report.currency)}</th></tr></thead>
+<tbody>
+${groupRows(year.byToken, true)}
+</tbody>
+</table>
+<h2>By energy field</h2>
+<table>
+<thead><tr><th>Field</th><th class="num">Payouts</th><th class="num">USDC</th><th class="num">${escapeHtml(report.currency)}</th></tr></thead>
+<tbody>
+${groupRows(year.byField, false)}
+</tbody>
+</table>
+</body>
+</html>`;
+}
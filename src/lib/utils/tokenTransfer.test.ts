@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@wagmi/core", () => ({
+  readContract: vi.fn(),
+  simulateContract: vi.fn(),
+  waitForTransactionReceipt: vi.fn(),
+  writeContract: vi.fn(),
+}));
+
+import {
+  readContract,
+  simulateContract,
+  writeContract,
+  type Config,
+} from "@wagmi/core";
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+  parseAbi,
+  type Hex,
+} from "viem";
+import {
+  checkTokenTransfer,
+  freezeBlock,
+  transferBlockMessage,
+  transferRevertBlock,
+  validateTransfer,
+} from "./tokenTransfer";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa" as Hex;
+const FROM = "0x1111111111111111111111111111111111111111" as Hex;
+const TO = "0x2222222222222222222222222222222222222222";
+const ONE = 10n ** 18n;
+
+const errorsAbi = parseAbi([
+  "error OwnerFrozen(uint256 freezeUntil, address from, address to)",
+  "error CertificationExpired(address from, address to)",
+]);
+
+function revert(data: Hex) {
+  return new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({
+      abi: errorsAbi,
+      data,
+      functionName: "transfer",
+    }),
+    { abi: errorsAbi, functionName: "transfer" },
+  );
+}
+
+describe("validateTransfer", () => {
+  const base = { from: FROM, to: TO, amount18: ONE, balance18: ONE };
+
+  it("accepts a transfer within the balance", () => {
+    expect(validateTransfer(base)).toBeNull();
+  });
+
+  it("rejects bad recipients and amounts", () => {
+    expect(validateTransfer({ ...base, to: "0x12" })?.kind).toBe(
+      "invalid-recipient",
+    );
+    expect(
+      validateTransfer({
+        ...base,
+        to: "0x0000000000000000000000000000000000000000",
+      })?.kind,
+    ).toBe("invalid-recipient");
+    expect(validateTransfer({ ...base, to: FROM })?.kind).toBe("same-wallet");
+    expect(validateTransfer({ ...base, amount18: 0n })?.kind).toBe(
+      "invalid-amount",
+    );
+    expect(validateTransfer({ ...base, amount18: 2n * ONE })?.kind).toBe(
+      "insufficient-balance",
+    );
+  });
+});
+
+describe("freezeBlock", () => {
+  const freeze = { frozenUntil: 200, alwaysAllowedFrom: 0, alwaysAllowedTo: 0 };
+
+  it("blocks while frozen unless either side is exempt", () => {
+    expect(freezeBlock(freeze, 100)).toEqual({ kind: "frozen", until: 200 });
+    expect(freezeBlock(freeze, 200)).toBeNull();
+    expect(freezeBlock({ ...freeze, alwaysAllowedFrom: 1 }, 100)).toBeNull();
+    expect(freezeBlock({ ...freeze, alwaysAllowedTo: 1 }, 100)).toBeNull();
+  });
+});
+
+describe("transferRevertBlock", () => {
+  it("decodes the vault's and authorizer's errors", () => {
+    expect(
+      transferRevertBlock(
+        revert(
+          encodeErrorResult({
+            abi: errorsAbi,
+            errorName: "OwnerFrozen",
+            args: [300n, FROM, TO],
+          }),
+        ),
+      ),
+    ).toEqual({ kind: "frozen", until: 300 });
+    expect(
+      transferRevertBlock(
+        revert(
+          encodeErrorResult({
+            abi: errorsAbi,
+            errorName: "CertificationExpired",
+            args: [FROM, TO],
+          }),
+        ),
+      ),
+    ).toEqual({ kind: "certification-expired" });
+  });
+
+  it("passes other failures through as a message", () => {
+    const block = transferRevertBlock(new Error("rpc down"));
+    expect(block).toEqual({ kind: "reverted", message: "rpc down" });
+    expect(transferBlockMessage(block)).toContain("rpc down");
+  });
+});
+
+describe("checkTokenTransfer", () => {
+  const config = {} as Config;
+  const params = {
+    token: TOKEN,
+    from: FROM,
+    to: TO,
+    amount18: ONE,
+    balance18: ONE,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(readContract).mockResolvedValue(0n);
+  });
+
+  it("explains an active freeze without simulating", async () => {
+    const until = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    vi.mocked(readContract).mockImplementation((async (
+      _config: unknown,
+      { functionName }: { functionName: string },
+    ) => (functionName === "ownerFrozenUntil" ? until : 0n)) as never);
+    const check = await checkTokenTransfer(config, params);
+    expect(check).toEqual({
+      ok: false,
+      block: { kind: "frozen", until: Number(until) },
+    });
+    expect(simulateContract).not.toHaveBeenCalled();
+  });
+
+  it("reports the authorizer's rejection from the simulation", async () => {
+    vi.mocked(simulateContract).mockRejectedValueOnce(
+      revert(
+        encodeErrorResult({
+          abi: errorsAbi,
+          errorName: "CertificationExpired",
+          args: [FROM, TO],
+        }),
+      ),
+    );
+    const check = await checkTokenTransfer(config, params);
+    expect(check).toEqual({
+      ok: false,
+      block: { kind: "certification-expired" },
+    });
+  });
+
+  it("sends the simulated transfer", async () => {
+    const request = { functionName: "transfer" };
+    vi.mocked(simulateContract).mockResolvedValueOnce({ request } as never);
+    vi.mocked(writeContract).mockResolvedValueOnce("0xhash");
+    const check = await checkTokenTransfer(config, params);
+    expect(check.ok).toBe(true);
+    expect(vi.mocked(simulateContract).mock.calls[0][1]).toMatchObject({
+      account: FROM,
+      address: TOKEN,
+      functionName: "transfer",
+      args: [TO, ONE],
+    });
+    if (check.ok) expect(await check.send()).toBe("0xhash");
+    expect(writeContract).toHaveBeenCalledWith(config, request);
+  });
+});
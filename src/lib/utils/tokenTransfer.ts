@@ -0,0 +1,209 @@
+/**
+ * Transferring royalty tokens (vault shares) to another wallet, with the
+ * vault's restrictions checked first.
+ *
+ * A share transfer passes the same gates as a receipt transfer
+ * (`authorizeReceiptTransfer3`): the owner freeze, then the vault's
+ * authorizer. The freeze is read up front so a blocked transfer can be
+ * explained before anything is signed; the authorizer's rules (certification,
+ * roles) are checked by simulating the transfer itself, and its revert is
+ * decoded into the same explanations.
+ */
+import {
+  readContract,
+  simulateContract,
+  waitForTransactionReceipt,
+  writeContract,
+  type Config,
+} from "@wagmi/core";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  isAddress,
+  zeroAddress,
+  type Abi,
+  type Hex,
+} from "viem";
+import vaultAbiJson from "$lib/abi/OffchainAssetReceiptVault.json";
+import authorizerAbiJson from "$lib/abi/authorizer.json";
+
+// Errors an authorizer reverts with bubble up through the vault, so decode
+// against both ABIs.
+const transferAbi = [
+  ...(vaultAbiJson as Abi),
+  ...(authorizerAbiJson as Abi).filter((item) => item.type === "error"),
+] as Abi;
+
+export type TransferBlock =
+  | { kind: "invalid-recipient" }
+  | { kind: "same-wallet" }
+  | { kind: "invalid-amount" }
+  | { kind: "insufficient-balance" }
+  | { kind: "frozen"; until: number }
+  | { kind: "certification-expired" }
+  | { kind: "unauthorized" }
+  | { kind: "reverted"; message: string };
+
+export interface FreezeState {
+  /** Unix seconds; 0 when the owner has never frozen transfers. */
+  frozenUntil: number;
+  /** Non-zero while `from` is exempt from the freeze. */
+  alwaysAllowedFrom: number;
+  /** Non-zero while `to` is exempt from the freeze. */
+  alwaysAllowedTo: number;
+}
+
+/** Why a transfer would be blocked, in words a holder can act on. */
+export function transferBlockMessage(block: TransferBlock): string {
+  switch (block.kind) {
+    case "invalid-recipient":
+      return "Enter a valid recipient address.";
+    case "same-wallet":
+      return "The recipient is the sending wallet.";
+    case "invalid-amount":
+      return "Enter an amount greater than zero.";
+    case "insufficient-balance":
+      return "The amount is more than this wallet holds.";
+    case "frozen":
+      return `Transfers of this token are frozen by the issuer until ${new Date(
+        block.until * 1000,
+      ).toLocaleString()}, and neither wallet is exempt.`;
+    case "certification-expired":
+      return "The vault's certification has expired. Transfers resume once the auditor re-certifies it.";
+    case "unauthorized":
+      return "The vault's authorizer does not allow this transfer (for example, the recipient is not an approved holder).";
+    case "reverted":
+      return `The transfer would fail: ${block.message}`;
+  }
+}
+
+/** Checks that need no chain reads. Null when the inputs are sendable. */
+export function validateTransfer(params: {
+  from: string;
+  to: string;
+  amount18: bigint;
+  balance18: bigint;
+}): TransferBlock | null {
+  const { from, to, amount18, balance18 } = params;
+  if (!isAddress(to, { strict: false }) || to.toLowerCase() === zeroAddress) {
+    return { kind: "invalid-recipient" };
+  }
+  if (to.toLowerCase() === from.toLowerCase()) return { kind: "same-wallet" };
+  if (amount18 <= 0n) return { kind: "invalid-amount" };
+  if (amount18 > balance18) return { kind: "insufficient-balance" };
+  return null;
+}
+
+/**
+ * The owner freeze as the vault applies it: while frozen, a transfer goes
+ * through only if the sender or the recipient is on an always-allowed list.
+ */
+export function freezeBlock(
+  freeze: FreezeState,
+  nowSeconds: number,
+): TransferBlock | null {
+  if (freeze.frozenUntil <= nowSeconds) return null;
+  if (freeze.alwaysAllowedFrom > 0 || freeze.alwaysAllowedTo > 0) return null;
+  return { kind: "frozen", until: freeze.frozenUntil };
+}
+
+/** Map a failed simulation onto a TransferBlock. */
+export function transferRevertBlock(error: unknown): TransferBlock {
+  if (error instanceof BaseError) {
+    const reverted = error.walk(
+      (cause) => cause instanceof ContractFunctionRevertedError,
+    );
+    if (reverted instanceof ContractFunctionRevertedError) {
+      switch (reverted.data?.errorName) {
+        case "OwnerFrozen":
+          return {
+            kind: "frozen",
+            until: Number(reverted.data.args?.[0] ?? 0),
+          };
+        case "CertificationExpired":
+          return { kind: "certification-expired" };
+        case "Unauthorized":
+          return { kind: "unauthorized" };
+      }
+    }
+    return { kind: "reverted", message: error.shortMessage };
+  }
+  return {
+    kind: "reverted",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+async function readFreezeState(
+  config: Config,
+  token: Hex,
+  from: Hex,
+  to: Hex,
+): Promise<FreezeState> {
+  const read = (functionName: string, args: Hex[]) =>
+    readContract(config, {
+      address: token,
+      abi: transferAbi,
+      functionName,
+      args,
+    }) as Promise<bigint>;
+  const [frozenUntil, alwaysAllowedFrom, alwaysAllowedTo] = await Promise.all([
+    read("ownerFrozenUntil", []),
+    read("ownerFreezeAlwaysAllowedFrom", [from]),
+    read("ownerFreezeAlwaysAllowedTo", [to]),
+  ]);
+  return {
+    frozenUntil: Number(frozenUntil),
+    alwaysAllowedFrom: Number(alwaysAllowedFrom),
+    alwaysAllowedTo: Number(alwaysAllowedTo),
+  };
+}
+
+export type TransferCheck =
+  { ok: true; send: () => Promise<Hex> } | { ok: false; block: TransferBlock };
+
+/**
+ * Check whether `from` can send `amount18` of `token` to `to` right now. On
+ * success, `send` submits the already-simulated transfer and resolves once it
+ * is mined.
+ */
+export async function checkTokenTransfer(
+  config: Config,
+  params: {
+    token: Hex;
+    from: Hex;
+    to: string;
+    amount18: bigint;
+    balance18: bigint;
+  },
+): Promise<TransferCheck> {
+  const invalid = validateTransfer(params);
+  if (invalid) return { ok: false, block: invalid };
+  const to = params.to as Hex;
+
+  const frozen = freezeBlock(
+    await readFreezeState(config, params.token, params.from, to),
+    Math.floor(Date.now() / 1000),
+  );
+  if (frozen) return { ok: false, block: frozen };
+
+  try {
+    const { request } = await simulateContract(config, {
+      account: params.from,
+      address: params.token,
+      abi: transferAbi,
+      functionName: "transfer",
+      args: [to, params.amount18],
+    });
+    return {
+      ok: true,
+      send: async () => {
+        const hash = await writeContract(config, request);
+        await waitForTransactionReceipt(config, { hash });
+        return hash;
+      },
+    };
+  } catch (error) {
+    return { ok: false, block: transferRevertBlock(error) };
+  }
+}
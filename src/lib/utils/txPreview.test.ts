@@ -0,0 +1,154 @@
+// src/lib/utils/txPreview.test.ts
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@wagmi/core", () => ({
+  estimateGas: vi.fn(),
+  getGasPrice: vi.fn(),
+  readContract: vi.fn(),
+}));
+
+import {
+  estimateGas,
+  getGasPrice,
+  readContract,
+  type Config,
+} from "@wagmi/core";
+import {
+  HIGH_GAS_SHARE_THRESHOLD,
+  previewTransactions,
+  summarizeTxPreview,
+  __resetTxPreviewForTest,
+} from "./txPreview";
+
+const config = {} as Config;
+const TO = "0x00000000000000000000000000000000000000b6";
+const GWEI = 1_000_000_000n;
+
+describe("summarizeTxPreview", () => {
+  it("subtracts the fee from a claim and adds it to a purchase", () => {
+    const calls = [{ label: "Claim", gas: 100_000n, estimated: true }];
+    // 100k gas × 1 gwei = 0.0001 ETH = $0.30 at $3000
+    const claim = summarizeTxPreview({
+      calls,
+      gasPrice: GWEI,
+      l1FeeWei: 0n,
+      ethUsd: 3000,
+      usdcAmount: 100,
+      direction: "receive",
+    });
+    expect(claim.feeEth).toBeCloseTo(0.0001);
+    expect(claim.feeUsd).toBeCloseTo(0.3);
+    expect(claim.netUsd).toBeCloseTo(99.7);
+    expect(claim.highGasShare).toBe(false);
+
+    const purchase = summarizeTxPreview({
+      calls,
+      gasPrice: GWEI,
+      l1FeeWei: 0n,
+      ethUsd: 3000,
+      usdcAmount: 100,
+      direction: "spend",
+    });
+    expect(purchase.netUsd).toBeCloseTo(100.3);
+  });
+
+  it("includes the L1 data fee", () => {
+    const preview = summarizeTxPreview({
+      calls: [{ label: "Claim", gas: 1n, estimated: true }],
+      gasPrice: 1n,
+      l1FeeWei: 9n,
+      ethUsd: null,
+      usdcAmount: 1,
+      direction: "receive",
+    });
+    expect(preview.feeWei).toBe(10n);
+  });
+
+  it("warns when the fee is a large share of a small claim", () => {
+    const preview = summarizeTxPreview({
+      calls: [{ label: "Claim", gas: 100_000n, estimated: true }],
+      gasPrice: GWEI,
+      l1FeeWei: 0n,
+      ethUsd: 3000,
+      usdcAmount: 0.3 / HIGH_GAS_SHARE_THRESHOLD,
+      direction: "receive",
+    });
+    expect(preview.gasShare).toBeCloseTo(HIGH_GAS_SHARE_THRESHOLD);
+    expect(preview.highGasShare).toBe(true);
+  });
+
+  it("keeps the ETH fee when no price is available", () => {
+    const preview = summarizeTxPreview({
+      calls: [{ label: "Claim", gas: 100_000n, estimated: false }],
+      gasPrice: GWEI,
+      l1FeeWei: 0n,
+      ethUsd: null,
+      usdcAmount: 1,
+      direction: "receive",
+    });
+    expect(preview.feeUsd).toBeNull();
+    expect(preview.netUsd).toBeNull();
+    expect(preview.gasShare).toBeNull();
+    expect(preview.highGasShare).toBe(false);
+    expect(preview.approximate).toBe(true);
+  });
+});
+
+describe("previewTransactions", () => {
+  beforeEach(() => {
+    __resetTxPreviewForTest();
+    vi.mocked(estimateGas).mockReset();
+    vi.mocked(getGasPrice).mockResolvedValue(GWEI);
+    vi.mocked(readContract).mockImplementation(async (_config, params) => {
+      const { functionName } = params as { functionName: string };
+      if (functionName === "decimals") return 8;
+      if (functionName === "latestRoundData")
+        return [0n, 300_000_000_000n, 0n, 0n, 0n];
+      if (functionName === "getL1Fee") return 0n;
+      throw new Error(`unexpected read ${functionName}`);
+    });
+  });
+
+  it("uses known gas and estimates the rest", async () => {
+    vi.mocked(estimateGas).mockResolvedValue(50_000n);
+    const preview = await previewTransactions(config, {
+      calls: [
+        { label: "Batch 1", to: TO, data: "0x01", gas: 100_000n },
+        { label: "Batch 2", to: TO, data: "0x02" },
+      ],
+      usdcAmount: 100,
+      direction: "receive",
+    });
+    expect(estimateGas).toHaveBeenCalledTimes(1);
+    expect(preview.gas).toBe(150_000n);
+    expect(preview.feeUsd).toBeCloseTo(0.45);
+    expect(preview.approximate).toBe(false);
+  });
+
+  it("falls back when a dependent call cannot be estimated yet", async () => {
+    vi.mocked(estimateGas)
+      .mockResolvedValueOnce(46_000n)
+      .mockRejectedValueOnce(new Error("insufficient allowance"));
+    const preview = await previewTransactions(config, {
+      calls: [
+        { label: "Approve USDC", to: TO, data: "0x01" },
+        { label: "Purchase", to: TO, data: "0x02", fallbackGas: 250_000n },
+      ],
+      usdcAmount: 100,
+      direction: "spend",
+    });
+    expect(preview.calls.map((c) => c.gas)).toEqual([46_000n, 250_000n]);
+    expect(preview.approximate).toBe(true);
+  });
+
+  it("fails when a call without a fallback would revert", async () => {
+    vi.mocked(estimateGas).mockRejectedValue(new Error("execution reverted"));
+    await expect(
+      previewTransactions(config, {
+        calls: [{ label: "Claim", to: TO, data: "0x01" }],
+        usdcAmount: 100,
+        direction: "receive",
+      }),
+    ).rejects.toThrow(/execution reverted/);
+  });
+});
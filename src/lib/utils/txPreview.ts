@@ -0,0 +1,214 @@
+// src/lib/utils/txPreview.ts
+import {
+  estimateGas,
+  getGasPrice,
+  readContract,
+  type Config,
+} from "@wagmi/core";
+import { formatEther, parseAbi, type Hex } from "viem";
+
+/**
+ * Pre-signing cost preview for claim and purchase transactions.
+ *
+ * Each call is estimated with eth_estimateGas, which executes it against
+ * current state — a call that would revert fails here, before the wallet ever
+ * prompts. The fee is what Base actually charges: L2 execution (gas × gas
+ * price) plus the L1 data fee from the OP-stack GasPriceOracle. ETH/USD comes
+ * from the Chainlink feed on Base, so the preview needs no API key; if the
+ * price read fails the fee is still shown in ETH.
+ */
+
+/** Chainlink ETH/USD aggregator on Base mainnet. */
+const ETH_USD_FEED = "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70" as const;
+/** OP-stack GasPriceOracle predeploy (L1 data fee for a given calldata). */
+const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F" as const;
+
+const feedAbi = parseAbi([
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)",
+]);
+const gasPriceOracleAbi = parseAbi([
+  "function getL1Fee(bytes) view returns (uint256)",
+]);
+
+/** Warn when the network fee is at least this share of the USDC amount. */
+export const HIGH_GAS_SHARE_THRESHOLD = 0.1;
+
+const ETH_PRICE_TTL_MS = 60 * 1000;
+
+export interface PreviewCall {
+  label: string;
+  to: Hex;
+  data: Hex;
+  value?: bigint;
+  /** Already-known gas estimate (skips the estimate for this call). */
+  gas?: bigint;
+  /**
+   * Gas to assume when the call cannot be estimated yet because it depends on
+   * an earlier call in the same flow (e.g. a deposit that needs the approval
+   * first). Without it, a failed estimate fails the preview.
+   */
+  fallbackGas?: bigint;
+}
+
+export interface TxPreview {
+  calls: Array<{ label: string; gas: bigint; estimated: boolean }>;
+  gas: bigint;
+  feeWei: bigint;
+  feeEth: number;
+  /** Null when the ETH price could not be read. */
+  feeUsd: number | null;
+  /** USDC received (claims) or spent (purchases). */
+  usdcAmount: number;
+  direction: "receive" | "spend";
+  /** USDC received minus fee, or USDC spent plus fee, in USD. */
+  netUsd: number | null;
+  /** Fee as a share of the USDC amount. */
+  gasShare: number | null;
+  highGasShare: boolean;
+  /** True when any call used its fallback gas instead of an estimate. */
+  approximate: boolean;
+}
+
+/**
+ * Combine per-call gas and prices into a preview. Pure, so the arithmetic and
+ * the warning threshold are testable without an RPC.
+ */
+export function summarizeTxPreview(params: {
+  calls: TxPreview["calls"];
+  gasPrice: bigint;
+  l1FeeWei: bigint;
+  ethUsd: number | null;
+  usdcAmount: number;
+  direction: "receive" | "spend";
+}): TxPreview {
+  const gas = params.calls.reduce((sum, c) => sum + c.gas, 0n);
+  const feeWei = gas * params.gasPrice + params.l1FeeWei;
+  const feeEth = Number(formatEther(feeWei));
+  const feeUsd = params.ethUsd === null ? null : feeEth * params.ethUsd;
+  const netUsd =
+    feeUsd === null
+      ? null
+      : params.direction === "receive"
+        ? params.usdcAmount - feeUsd
+        : params.usdcAmount + feeUsd;
+  const gasShare =
+    feeUsd === null || params.usdcAmount <= 0
+      ? null
+      : feeUsd / params.usdcAmount;
+  return {
+    calls: params.calls,
+    gas,
+    feeWei,
+    feeEth,
+    feeUsd,
+    usdcAmount: params.usdcAmount,
+    direction: params.direction,
+    netUsd,
+    gasShare,
+    highGasShare: gasShare !== null && gasShare >= HIGH_GAS_SHARE_THRESHOLD,
+    approximate: params.calls.some((c) => !c.estimated),
+  };
+}
+
+let ethUsdCache: { value: number; fetchedAt: number } | null = null;
+
+/** ETH/USD from Chainlink on Base (cached briefly). Null on any failure. */
+export async function getEthUsdPrice(config: Config): Promise<number | null> {
+  if (ethUsdCache && Date.now() - ethUsdCache.fetchedAt < ETH_PRICE_TTL_MS) {
+    return ethUsdCache.value;
+  }
+  try {
+    const [decimals, round] = await Promise.all([
+      readContract(config, {
+        abi: feedAbi,
+        address: ETH_USD_FEED,
+        functionName: "decimals",
+      }),
+      readContract(config, {
+        abi: feedAbi,
+        address: ETH_USD_FEED,
+        functionName: "latestRoundData",
+      }),
+    ]);
+    const answer = round[1];
+    if (answer <= 0n) return null;
+    const value = Number(answer) / 10 ** Number(decimals);
+    ethUsdCache = { value, fetchedAt: Date.now() };
+    return value;
+  } catch (error) {
+    console.warn("ETH/USD price unavailable for fee preview:", error);
+    return null;
+  }
+}
+
+async function l1FeeFor(config: Config, data: Hex): Promise<bigint> {
+  try {
+    return await readContract(config, {
+      abi: gasPriceOracleAbi,
+      address: GAS_PRICE_ORACLE,
+      functionName: "getL1Fee",
+      args: [data],
+    });
+  } catch {
+    // Not an OP-stack chain (or the oracle read failed): L2 fee only.
+    return 0n;
+  }
+}
+
+/**
+ * Estimate every call, price the total and summarise. Throws when a call
+ * without `fallbackGas` fails to estimate — i.e. it would revert if sent.
+ */
+export async function previewTransactions(
+  config: Config,
+  params: {
+    account?: Hex;
+    calls: PreviewCall[];
+    usdcAmount: number;
+    direction: "receive" | "spend";
+  },
+): Promise<TxPreview> {
+  const calls: TxPreview["calls"] = [];
+  for (const call of params.calls) {
+    if (call.gas !== undefined && call.gas > 0n) {
+      calls.push({ label: call.label, gas: call.gas, estimated: true });
+      continue;
+    }
+    try {
+      const gas = await estimateGas(config, {
+        account: params.account,
+        to: call.to,
+        data: call.data,
+        value: call.value,
+      });
+      calls.push({ label: call.label, gas, estimated: true });
+    } catch (error) {
+      if (call.fallbackGas === undefined) throw error;
+      calls.push({
+        label: call.label,
+        gas: call.fallbackGas,
+        estimated: false,
+      });
+    }
+  }
+
+  const [gasPrice, ethUsd, l1Fees] = await Promise.all([
+    getGasPrice(config),
+    getEthUsdPrice(config),
+    Promise.all(params.calls.map((call) => l1FeeFor(config, call.data))),
+  ]);
+
+  return summarizeTxPreview({
+    calls,
+    gasPrice,
+    l1FeeWei: l1Fees.reduce((sum, fee) => sum + fee, 0n),
+    ethUsd,
+    usdcAmount: params.usdcAmount,
+    direction: params.direction,
+  });
+}
+
+export function __resetTxPreviewForTest(): void {
+  ethUsdCache = null;
+}
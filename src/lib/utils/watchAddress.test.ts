@@ -0,0 +1,59 @@
+// src/lib/utils/watchAddress.test.ts
+import { describe, it, expect, vi } from "vitest";
+import { parseWatchInput, resolveWatchInput } from "./watchAddress";
+
+const LOWER = "0xd8da6bf26964af9d7eed9e03e53415d37aa96045";
+const CHECKSUMMED = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+
+describe("parseWatchInput", () => {
+  it("checksums plain addresses", () => {
+    expect(parseWatchInput(` ${LOWER} `)).toEqual({
+      kind: "address",
+      address: CHECKSUMMED,
+    });
+  });
+
+  it("normalises ENS-style names", () => {
+    expect(parseWatchInput("Vitalik.ETH")).toEqual({
+      kind: "name",
+      name: "vitalik.eth",
+    });
+    expect(parseWatchInput("someone.base.eth")).toEqual({
+      kind: "name",
+      name: "someone.base.eth",
+    });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseWatchInput("")).toBeNull();
+    expect(parseWatchInput(null)).toBeNull();
+    expect(parseWatchInput("0x1234")).toBeNull();
+    expect(parseWatchInput("not a name")).toBeNull();
+    expect(parseWatchInput("vitalik")).toBeNull();
+  });
+});
+
+describe("resolveWatchInput", () => {
+  it("returns addresses without a lookup", async () => {
+    const resolveName = vi.fn();
+    expect(await resolveWatchInput(LOWER, resolveName)).toBe(CHECKSUMMED);
+    expect(resolveName).not.toHaveBeenCalled();
+  });
+
+  it("resolves names through the resolver", async () => {
+    const resolveName = vi.fn().mockResolvedValue(LOWER);
+    expect(await resolveWatchInput("vitalik.eth", resolveName)).toBe(
+      CHECKSUMMED,
+    );
+    expect(resolveName).toHaveBeenCalledWith("vitalik.eth");
+  });
+
+  it("explains unresolvable and invalid input", async () => {
+    await expect(
+      resolveWatchInput("nobody.eth", vi.fn().mockResolvedValue(null)),
+    ).rejects.toThrow(/nobody\.eth does not resolve/);
+    await expect(resolveWatchInput("0x1234", vi.fn())).rejects.toThrow(
+      /not a wallet address or ENS name/,
+    );
+  });
+});
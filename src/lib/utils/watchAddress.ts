@@ -0,0 +1,73 @@
+// src/lib/utils/watchAddress.ts
+import { env as publicEnv } from "$env/dynamic/public";
+import {
+  createPublicClient,
+  getAddress,
+  http,
+  isAddress,
+  type Hex,
+} from "viem";
+import { mainnet } from "viem/chains";
+import { normalize } from "viem/ens";
+
+/**
+ * Read-only "watch address" input (`?address=` on portfolio and claims).
+ *
+ * Accepts a plain 0x address or an ENS-style name (`treasury.eth`,
+ * `someone.base.eth`). Names resolve through ENS on Ethereum mainnet; Basenames
+ * resolve there too via their L1 resolver, so one lookup covers both.
+ */
+
+export type WatchInput =
+  { kind: "address"; address: Hex } | { kind: "name"; name: string };
+
+const NAME_PATTERN = /^[^\s.]+(\.[^\s.]+)+$/;
+
+/** Classify a raw `?address=` value. Null when it is neither form. */
+export function parseWatchInput(
+  raw: string | null | undefined,
+): WatchInput | null {
+  const value = raw?.trim();
+  if (!value) return null;
+  if (isAddress(value, { strict: false })) {
+    return { kind: "address", address: getAddress(value) };
+  }
+  if (NAME_PATTERN.test(value)) {
+    try {
+      return { kind: "name", name: normalize(value) };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+let ensClient: ReturnType<typeof createPublicClient> | null = null;
+
+async function resolveEnsName(name: string): Promise<Hex | null> {
+  ensClient ??= createPublicClient({
+    chain: mainnet,
+    transport: http(publicEnv.PUBLIC_ETH_RPC_URL || undefined),
+  });
+  return ensClient.getEnsAddress({ name });
+}
+
+/**
+ * Resolve a raw watch input to a checksummed address. Throws with a
+ * user-facing message when the input is invalid or the name has no address.
+ */
+export async function resolveWatchInput(
+  raw: string,
+  resolveName: (name: string) => Promise<Hex | null> = resolveEnsName,
+): Promise<Hex> {
+  const input = parseWatchInput(raw);
+  if (!input) {
+    throw new Error(`"${raw}" is not a wallet address or ENS name`);
+  }
+  if (input.kind === "address") return input.address;
+  const address = await resolveName(input.name);
+  if (!address) {
+    throw new Error(`${input.name} does not resolve to an address`);
+  }
+  return getAddress(address);
+}
@@ -1,13 +1,14 @@
 import type { RequestHandler } from "./$types";
 import { collectClaimCids, computeSetHash } from "$lib/utils/claimsBundle";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
 
 /**
  * Discovery endpoint for the publish pipeline and external consumers: the
  * redirect target changes per release, so it must never be cached — only the
  * content-addressed [setHash] URL is immutable.
  */
-export const GET: RequestHandler = async () => {
-  const cids = collectClaimCids();
+export const GET: RequestHandler = async ({ fetch }) => {
+  const cids = collectClaimCids(await loadClaimsManifest(fetch));
   if (cids.length === 0) {
     return new Response(JSON.stringify({ error: "no claims manifest" }), {
       status: 404,
@@ -1,14 +1,16 @@
 import type { RequestHandler } from "./$types";
-import { put, head, type HeadBlobResult } from "@vercel/blob";
 import { verifyCidBytes } from "$lib/server/cidContent";
+import { storage } from "$lib/server/storage";
 import {
   BUNDLE_SCHEMA_VERSION,
   collectClaimCids,
   computeSetHash,
 } from "$lib/utils/claimsBundle";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
 
 // Immutable is safe ONLY because the URL is content-addressed by setHash —
-// a new release means new CIDs → new deployment → new setHash → new URL.
+// a new release (baked or from the signed claims manifest) means new CIDs →
+// new setHash → new URL.
 // Errors must NOT be long-cached: a rollback makes an old setHash current
 // again, and an edge-cached immutable 404 would pin the fallback for a year.
 const IMMUTABLE_HEADERS = {
@@ -26,13 +28,8 @@ const blobKey = (setHash: string) => `claims-bundle/${setHash}.json`;
 
 async function readFromBlob(setHash: string): Promise<string | null> {
   try {
-    const meta: HeadBlobResult | null = await head(blobKey(setHash)).catch(
-      () => null,
-    );
-    if (!meta?.url) return null;
-    const response = await fetch(meta.url);
-    if (!response.ok) return null;
-    return await response.text();
+    const stored = await storage().get(blobKey(setHash));
+    return stored ? new TextDecoder().decode(stored.body) : null;
   } catch {
     return null;
   }
@@ -40,10 +37,8 @@ async function readFromBlob(setHash: string): Promise<string | null> {
 
 async function writeToBlob(setHash: string, json: string): Promise<void> {
   try {
-    await put(blobKey(setHash), json, {
-      access: "public",
-      addRandomSuffix: false,
-      allowOverwrite: true, // content-addressed — idempotent re-writes are fine
+    // Content-addressed — idempotent re-writes are fine.
+    await storage().put(blobKey(setHash), json, {
       contentType: "application/json",
     });
   } catch (err) {
@@ -88,7 +83,8 @@ async function buildEnvelope(
 
 export const GET: RequestHandler = async ({ params, fetch }) => {
   const requested = params.setHash;
-  const cids = collectClaimCids();
+  // Same manifest resolution as the client, so both sides hash the same set.
+  const cids = collectClaimCids(await loadClaimsManifest(fetch));
   const current = cids.length > 0 ? await computeSetHash(cids) : null;
 
   if (!requested || !current || requested !== current) {
@@ -3,15 +3,15 @@ import { CID } from "multiformats/cid";
 import { sha256 } from "multiformats/hashes/sha2";
 import * as raw from "multiformats/codecs/raw";
 
-const putMock = vi.fn(async (..._a: unknown[]): Promise<unknown> => ({}));
-const headMock = vi.fn(
-  async (..._a: unknown[]): Promise<{ url: string } | null> => {
-    throw new Error("not found");
-  },
+const putMock = vi.fn(async (..._a: unknown[]): Promise<string> => "etag");
+const getMock = vi.fn(
+  async (..._a: unknown[]): Promise<{ body: Uint8Array } | null> => null,
 );
-vi.mock("@vercel/blob", () => ({
-  put: (...a: unknown[]) => putMock(...a),
-  head: (...a: unknown[]) => headMock(...a),
+vi.mock("$lib/server/storage", () => ({
+  storage: () => ({
+    put: (...a: unknown[]) => putMock(...a),
+    get: (...a: unknown[]) => getMock(...a),
+  }),
 }));
 
 async function cidOf(text: string): Promise<string> {
@@ -123,16 +123,13 @@ describe("GET /api/claims-bundle/[setHash]", () => {
     expect(r.headers.get("cache-control")).toContain("immutable");
   });
 
-  it("serves from Blob without building (X-Store: blob, no inner fetch, no put)", async () => {
+  it("serves from storage without building (X-Store: blob, no inner fetch, no put)", async () => {
     const { cids } = await seedManifest("tblob");
     const setHash = await computeSetHash(cids);
     const envelope = JSON.stringify({ schema: 1, setHash, files: {} });
-    headMock.mockResolvedValueOnce({ url: "https://blob.test/x" });
-    // readFromBlob uses the GLOBAL fetch (not event.fetch) for the blob URL
-    vi.stubGlobal(
-      "fetch",
-      vi.fn(async () => new Response(envelope, { status: 200 })),
-    );
+    getMock.mockResolvedValueOnce({
+      body: new TextEncoder().encode(envelope),
+    });
     const r = await invoke(setHash);
     expect(r.status).toBe(200);
     expect(r.headers.get("x-store")).toBe("blob");
@@ -165,7 +162,9 @@ describe("GET /api/claims-bundle (bare)", () => {
   it("307-redirects to the current setHash URL with no-store", async () => {
     const { cids } = await seedManifest("tbare");
     const setHash = await computeSetHash(cids);
-    const r = await (GET_BARE as unknown as () => Promise<Response>)();
+    const r = await (
+      GET_BARE as unknown as (event: { fetch: typeof fetch }) => Promise<Response>
+    )({ fetch: innerFetch as unknown as typeof fetch });
     expect(r.status).toBe(307);
     expect(r.headers.get("location")).toBe(`/api/claims-bundle/${setHash}`);
     expect(r.headers.get("cache-control")).toBe("no-store");
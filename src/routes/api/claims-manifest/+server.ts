@@ -0,0 +1,96 @@
+/**
+ * GET  /api/claims-manifest  → { cid, version } of the current signed manifest
+ * POST /api/claims-manifest  { cid } → publish a newer signed manifest
+ *
+ * The pointer is the only mutable piece of the runtime claims manifest, and it
+ * is deliberately untrusted: clients re-verify the document it names (CID +
+ * signer + baked coverage, see $lib/utils/claimsManifest), so this route only
+ * ever chooses between documents a manifest signer already approved. POST is
+ * therefore unauthenticated — it runs the same verification and refuses
+ * anything that is not a strictly newer version, so replaying an old signed
+ * manifest cannot roll the pointer back.
+ */
+import { json, type RequestEvent } from "@sveltejs/kit";
+import { getJson, putJson, storage } from "$lib/server/storage";
+import {
+  trustedManifestSigners,
+  verifyClaimsManifest,
+  type ClaimsManifestPointer,
+} from "$lib/utils/claimsManifest";
+
+const POINTER_BLOB_KEY = "claims-manifest/current.json";
+const NO_STORE_HEADERS = { "Cache-Control": "no-store" } as const;
+
+async function readPointer(): Promise<ClaimsManifestPointer | null> {
+  try {
+    const pointer = (
+      await getJson<ClaimsManifestPointer>(storage(), POINTER_BLOB_KEY)
+    )?.value;
+    if (
+      typeof pointer?.cid !== "string" ||
+      !Number.isInteger(pointer.version)
+    ) {
+      return null;
+    }
+    return pointer;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET() {
+  if (trustedManifestSigners().length === 0) {
+    return json(
+      { error: "manifest_not_configured" },
+      { status: 404, headers: NO_STORE_HEADERS },
+    );
+  }
+  const pointer = await readPointer();
+  if (!pointer) {
+    return json(
+      { error: "no_manifest" },
+      { status: 404, headers: NO_STORE_HEADERS },
+    );
+  }
+  return json(pointer, { headers: NO_STORE_HEADERS });
+}
+
+export async function POST({ request, fetch }: RequestEvent) {
+  if (trustedManifestSigners().length === 0) {
+    return json({ error: "manifest_not_configured" }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json();
+    const cid = body?.cid;
+    if (typeof cid !== "string" || !/^[a-z0-9]+$/i.test(cid)) {
+      return json({ error: "invalid_request" }, { status: 400 });
+    }
+
+    // Fetch through the IPFS proxy so the document is pinned into the same
+    // Blob/edge cache clients will read it from.
+    const response = await fetch(`/api/ipfs/${cid}`);
+    if (!response.ok) {
+      return json({ error: "manifest_unavailable" }, { status: 502 });
+    }
+    const manifest = await verifyClaimsManifest(
+      new Uint8Array(await response.arrayBuffer()),
+      cid,
+    );
+    if (!manifest) {
+      return json({ error: "invalid_manifest" }, { status: 400 });
+    }
+
+    const current = await readPointer();
+    if (current && manifest.version <= current.version) {
+      return json({ error: "stale_manifest", current }, { status: 409 });
+    }
+
+    const pointer: ClaimsManifestPointer = { cid, version: manifest.version };
+    await putJson(storage(), POINTER_BLOB_KEY, pointer);
+    return json(pointer);
+  } catch (err) {
+    console.error("claims-manifest publish error:", err);
+    return json({ error: "publish_failed" }, { status: 500 });
+  }
+}
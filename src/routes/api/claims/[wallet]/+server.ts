@@ -0,0 +1,55 @@
+/**
+ * GET /api/claims/<wallet> → ClaimsResult (holdings, history, totals)
+ *
+ * The same claims load the claims page runs in the browser, executed on the
+ * server for clients that can't run the app bundle (mobile, bots, back office).
+ * `event.fetch` is handed to ClaimsService so the manifest, claims bundle and
+ * Context-event requests hit this deployment's cached `/api/*` routes
+ * in-process: CSVs are still re-verified against their pinned CIDs, and
+ * claimed-state comes from the shared high-water-mark Context scan.
+ *
+ * Display data only — no merkle proofs or signed contexts. A wallet's claims
+ * cannot be executed from this response.
+ */
+import { json, type RequestHandler } from "@sveltejs/kit";
+import { getAddress, isAddress } from "viem";
+import { ClaimsService } from "$lib/services/ClaimsService";
+
+// Same cadence as the context-events refetch interval: a fresher response
+// could not contain newer claim events anyway.
+const RESULT_HEADERS = {
+  "Cache-Control": "public, max-age=0, s-maxage=30, stale-while-revalidate=60",
+  "Access-Control-Allow-Origin": "*",
+} as const;
+const NO_STORE_HEADERS = {
+  "Cache-Control": "no-store",
+  "Access-Control-Allow-Origin": "*",
+} as const;
+
+export const GET: RequestHandler = async ({ params, fetch }) => {
+  const wallet = params.wallet ?? "";
+  if (!isAddress(wallet, { strict: false })) {
+    return json(
+      { error: "wallet must be a 0x address" },
+      { status: 400, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  try {
+    const result = await new ClaimsService(fetch).loadClaimsForWallet(
+      getAddress(wallet),
+    );
+    // A CSV or Context-scan failure means claimed/unclaimed can't be trusted:
+    // return the (flagged) result with 503 so callers retry instead of caching it.
+    if (result.hasCsvLoadError) {
+      return json(result, { status: 503, headers: NO_STORE_HEADERS });
+    }
+    return json(result, { headers: RESULT_HEADERS });
+  } catch (error) {
+    console.error("Server claims load failed:", error);
+    return json(
+      { error: "Failed to load claims" },
+      { status: 500, headers: NO_STORE_HEADERS },
+    );
+  }
+};
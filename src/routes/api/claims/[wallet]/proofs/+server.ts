@@ -0,0 +1,106 @@
+/**
+ * GET /api/claims/<wallet>/proofs[?orderHash=0x…&orderHash=0x…]
+ *   → ClaimProofsResponse: per order, the merkle root plus the wallet's leaves
+ *     and proof paths, built from the CID-verified CSV.
+ *
+ * Without `orderHash` every order on a claimable OrderBook is included. Orders
+ * whose CSV can't be loaded (or whose rebuilt root doesn't match the committed
+ * one) are left out; the client builds those trees locally. The response is
+ * not trusted by the client — see verifyClaimLeafProof.
+ */
+import { json, type RequestHandler } from "@sveltejs/kit";
+import { getAddress, isAddress } from "viem";
+import {
+  ORDERBOOK_V6_CONTRACT_ADDRESS,
+  getOrderbookSource,
+  type Claim,
+} from "$lib/network";
+import { ClaimsService } from "$lib/services/ClaimsService";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
+import type { ClaimProofsResponse } from "$lib/utils/claimProofs";
+
+const MAX_ORDER_HASHES = 64;
+const HEX_HASH_RE = /^0x[a-fA-F0-9]{64}$/;
+
+// Proofs only change when the manifest does; a stale response at worst lacks a
+// new order, which the client then proves locally.
+const RESULT_HEADERS = {
+  "Cache-Control":
+    "public, max-age=0, s-maxage=300, stale-while-revalidate=600",
+  "Access-Control-Allow-Origin": "*",
+} as const;
+const NO_STORE_HEADERS = {
+  "Cache-Control": "no-store",
+  "Access-Control-Allow-Origin": "*",
+} as const;
+
+export const GET: RequestHandler = async ({ params, url, fetch }) => {
+  const wallet = params.wallet ?? "";
+  if (!isAddress(wallet, { strict: false })) {
+    return json(
+      { error: "wallet must be a 0x address" },
+      { status: 400, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const requested = url.searchParams.getAll("orderHash");
+  if (requested.length > MAX_ORDER_HASHES) {
+    return json(
+      { error: `at most ${MAX_ORDER_HASHES} orderHash values per request` },
+      { status: 400, headers: NO_STORE_HEADERS },
+    );
+  }
+  if (!requested.every((hash) => HEX_HASH_RE.test(hash))) {
+    return json(
+      { error: "orderHash must be a 0x order hash" },
+      { status: 400, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const allClaims: Claim[] = (await loadClaimsManifest(fetch)).flatMap(
+    (field) => field.sftTokens.flatMap((token) => token.claims ?? []),
+  );
+  let claims: Claim[];
+  if (requested.length > 0) {
+    const wanted = new Set(requested.map((hash) => hash.toLowerCase()));
+    claims = allClaims.filter((claim) =>
+      wanted.has(claim.orderHash.toLowerCase()),
+    );
+    if (claims.length === 0) {
+      return json(
+        { error: "unknown orderHash" },
+        { status: 404, headers: NO_STORE_HEADERS },
+      );
+    }
+  } else {
+    claims = allClaims.filter(
+      (claim) =>
+        getOrderbookSource(claim.orderbook ?? ORDERBOOK_V6_CONTRACT_ADDRESS)
+          ?.claimable ?? true,
+    );
+  }
+
+  const owner = getAddress(wallet);
+  const service = new ClaimsService(fetch);
+  const settled = await Promise.allSettled(
+    claims.map((claim) => service.getClaimOrderProofs(owner, claim)),
+  );
+  const orders = settled.flatMap((result, index) => {
+    if (result.status === "fulfilled") return [result.value];
+    console.warn(
+      `Claim proofs unavailable for ${claims[index].orderHash}:`,
+      result.reason,
+    );
+    return [];
+  });
+
+  if (orders.length === 0 && claims.length > 0) {
+    return json(
+      { error: "proofs_unavailable" },
+      { status: 503, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const body: ClaimProofsResponse = { wallet: owner, orders };
+  return json(body, { headers: RESULT_HEADERS });
+};
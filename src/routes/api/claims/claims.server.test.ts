@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ClaimsResult } from "$lib/services/ClaimsService";
+
+const loadClaimsForWallet = vi.fn();
+const getClaimOrderProofs = vi.fn();
+const constructedWith: unknown[] = [];
+vi.mock("$lib/services/ClaimsService", () => ({
+  ClaimsService: class {
+    constructor(fetchFn: unknown) {
+      constructedWith.push(fetchFn);
+    }
+    loadClaimsForWallet = loadClaimsForWallet;
+    getClaimOrderProofs = getClaimOrderProofs;
+  },
+}));
+
+const V4_ORDER = `0x${"04".repeat(32)}`;
+const V6_ORDER = `0x${"06".repeat(32)}`;
+const V6_ORDER_FAILING = `0x${"66".repeat(32)}`;
+vi.mock("$lib/utils/claimsManifest", async () => {
+  const { ORDERBOOK_CONTRACT_ADDRESS } =
+    await vi.importActual<typeof import("$lib/network")>("$lib/network");
+  return {
+    loadClaimsManifest: async () => [
+      {
+        name: "F",
+        sftTokens: [
+          {
+            address: "0x1",
+            symbol: "S",
+            claims: [
+              { orderHash: V4_ORDER, orderbook: ORDERBOOK_CONTRACT_ADDRESS },
+              { orderHash: V6_ORDER },
+              { orderHash: V6_ORDER_FAILING },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+});
+
+import { GET } from "./[wallet]/+server";
+import { GET as GET_PROOFS } from "./[wallet]/proofs/+server";
+
+type Handler = (event: {
+  params: { wallet?: string };
+  fetch: typeof fetch;
+}) => Promise<Response>;
+
+const eventFetch = vi.fn() as unknown as typeof fetch;
+const invoke = (wallet: string) =>
+  (GET as unknown as Handler)({ params: { wallet }, fetch: eventFetch });
+
+const RESULT: ClaimsResult = {
+  holdings: [],
+  claimHistory: [],
+  totals: { earned: 3, claimed: 1, unclaimed: 2 },
+  hasCsvLoadError: false,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  constructedWith.length = 0;
+});
+
+describe("GET /api/claims/[wallet]", () => {
+  it("rejects a non-address wallet", async () => {
+    const r = await invoke("vitalik.eth");
+    expect(r.status).toBe(400);
+    expect(loadClaimsForWallet).not.toHaveBeenCalled();
+  });
+
+  it("loads claims through event.fetch for the checksummed wallet", async () => {
+    loadClaimsForWallet.mockResolvedValueOnce(RESULT);
+    const r = await invoke("0xd8da6bf26964af9d7eed9e03e53415d37aa96045");
+    expect(r.status).toBe(200);
+    expect(await r.json()).toEqual(RESULT);
+    expect(constructedWith).toEqual([eventFetch]);
+    expect(loadClaimsForWallet).toHaveBeenCalledWith(
+      "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045",
+    );
+    expect(r.headers.get("cache-control")).toContain("s-maxage=30");
+  });
+
+  it("returns 503 without caching when the load is incomplete", async () => {
+    loadClaimsForWallet.mockResolvedValueOnce({
+      ...RESULT,
+      hasCsvLoadError: true,
+    });
+    const r = await invoke("0xd8da6bf26964af9d7eed9e03e53415d37aa96045");
+    expect(r.status).toBe(503);
+    expect(r.headers.get("cache-control")).toBe("no-store");
+    expect((await r.json()).hasCsvLoadError).toBe(true);
+  });
+});
+
+type ProofsHandler = (event: {
+  params: { wallet?: string };
+  url: URL;
+  fetch: typeof fetch;
+}) => Promise<Response>;
+
+const WALLET = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
+const invokeProofs = (query = "") =>
+  (GET_PROOFS as unknown as ProofsHandler)({
+    params: { wallet: WALLET.toLowerCase() },
+    url: new URL(`http://localhost/api/claims/${WALLET}/proofs${query}`),
+    fetch: eventFetch,
+  });
+
+describe("GET /api/claims/[wallet]/proofs", () => {
+  beforeEach(() => {
+    getClaimOrderProofs.mockImplementation(
+      async (_owner: string, claim: { orderHash: string }) => {
+        if (claim.orderHash === V6_ORDER_FAILING) throw new Error("csv");
+        return { orderHash: claim.orderHash, root: "0xroot", proofs: [] };
+      },
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("defaults to claimable orders and omits ones that fail", async () => {
+    const r = await invokeProofs();
+    expect(r.status).toBe(200);
+    const body = await r.json();
+    expect(body.wallet).toBe(WALLET);
+    expect(body.orders.map((o: { orderHash: string }) => o.orderHash)).toEqual([
+      V6_ORDER,
+    ]);
+    expect(getClaimOrderProofs).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves explicitly requested orders, including legacy ones", async () => {
+    const r = await invokeProofs(
+      `?orderHash=${V4_ORDER.toUpperCase().replace("0X", "0x")}`,
+    );
+    expect(r.status).toBe(200);
+    expect((await r.json()).orders).toHaveLength(1);
+    expect(getClaimOrderProofs.mock.calls[0][1].orderHash).toBe(V4_ORDER);
+  });
+
+  it("rejects malformed and unknown order hashes", async () => {
+    expect((await invokeProofs("?orderHash=0x12")).status).toBe(400);
+    expect((await invokeProofs(`?orderHash=0x${"99".repeat(32)}`)).status).toBe(
+      404,
+    );
+  });
+
+  it("returns 503 when no requested order could be proven", async () => {
+    const r = await invokeProofs(`?orderHash=${V6_ORDER_FAILING}`);
+    expect(r.status).toBe(503);
+    expect(r.headers.get("cache-control")).toBe("no-store");
+  });
+});
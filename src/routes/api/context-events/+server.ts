@@ -1,9 +1,10 @@
 /**
- * Server-side cached Context event scanner with Vercel Blob persistence.
+ * Server-side cached Context event scanner with Blob persistence
+ * ($lib/server/storage: Vercel Blob in production).
  *
  * Two-layer cache:
  * 1. In-memory (fast, lost on cold start)
- * 2. Vercel Blob (durable, survives cold starts and deployments)
+ * 2. Blob storage (durable, survives cold starts and deployments)
  *
  * High-water-mark pattern: stores all events up to block N.
  * On each request, only fetches blocks N+1 → chain tip.
@@ -17,10 +18,10 @@
  * a rolled-back deployment still finds its own format.
  */
 import { json, type RequestEvent } from "@sveltejs/kit";
-import { put, head, type HeadBlobResult } from "@vercel/blob";
 import axios from "axios";
 import { PRIVATE_HYPERSYNC_API_KEY } from "$env/static/private";
 import { ORDERBOOK_SOURCES } from "$lib/network";
+import { getJson, putJson, storage } from "$lib/server/storage";
 import {
   mergeLogs,
   migrateCacheData,
@@ -131,13 +132,7 @@ const inFlightFullScan = new Map<string, Promise<BlobCacheData | null>>();
 
 async function fetchBlobJson<T>(key: string): Promise<T | null> {
   try {
-    const blobMeta: HeadBlobResult | null = await head(key).catch(() => null);
-    if (!blobMeta?.url) return null;
-
-    const response = await fetch(blobMeta.url);
-    if (!response.ok) return null;
-
-    return (await response.json()) as T;
+    return (await getJson<T>(storage(), key))?.value ?? null;
   } catch {
     return null;
   }
@@ -184,7 +179,7 @@ async function loadCache(
 }
 
 /**
- * Save cache to both in-memory and Vercel Blob
+ * Save cache to both in-memory and Blob storage
  */
 async function saveCache(
   contractAddress: string,
@@ -195,11 +190,7 @@ async function saveCache(
   setMemCache(key, data);
 
   try {
-    await put(key, JSON.stringify(data), {
-      access: "public",
-      addRandomSuffix: false,
-      contentType: "application/json",
-    });
+    await putJson(storage(), key, data);
   } catch (error) {
     console.warn("Failed to save context events to Blob:", error);
     // In-memory cache still works for this instance
@@ -0,0 +1,61 @@
+/**
+ * GET /api/cost-basis?wallet=<address> → { acquisitions, disposals }
+ *
+ * A wallet's royalty token transfers, priced from the USDC that moved in the
+ * same transaction (Hypersync). Primary deposits are not included: the client
+ * already has them from the SFT subgraph. The scan reaches the chain tip, so
+ * results are only cached briefly.
+ */
+import { json, type RequestHandler } from "@sveltejs/kit";
+import { isAddress } from "viem";
+import {
+  BASE_USDC_ADDRESS,
+  BASE_USDC_DECIMALS,
+  ORDERBOOK_SOURCES,
+} from "$lib/network";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
+import { pairWalletTransfers } from "$lib/utils/costBasis";
+import { scanWalletTransferLegs } from "./transfers";
+
+const RESULT_HEADERS = {
+  "Cache-Control": "public, max-age=60, s-maxage=300",
+} as const;
+const NO_STORE_HEADERS = { "Cache-Control": "no-store" } as const;
+
+export const GET: RequestHandler = async ({ url, fetch }) => {
+  const wallet = url.searchParams.get("wallet") ?? "";
+  if (!isAddress(wallet, { strict: false })) {
+    return json(
+      { error: "wallet must be a 0x address" },
+      { status: 400, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const tokens = (await loadClaimsManifest(fetch)).flatMap((field) =>
+    field.sftTokens.map((token) => token.address.toLowerCase()),
+  );
+  if (tokens.length === 0) {
+    return json(
+      { acquisitions: [], disposals: [] },
+      { headers: RESULT_HEADERS },
+    );
+  }
+
+  const legs = await scanWalletTransferLegs(wallet, tokens, BASE_USDC_ADDRESS);
+  if (!legs) {
+    return json(
+      { error: "Transfer scan unavailable" },
+      { status: 503, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  return json(
+    pairWalletTransfers({
+      wallet,
+      ...legs,
+      usdcDecimals: BASE_USDC_DECIMALS,
+      escrows: ORDERBOOK_SOURCES.map((source) => source.address),
+    }),
+    { headers: RESULT_HEADERS },
+  );
+};
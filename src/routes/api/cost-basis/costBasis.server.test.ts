@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { TOKEN, scanWalletTransferLegs } = vi.hoisted(() => ({
+  TOKEN: "0x00000000000000000000000000000000000000aa",
+  scanWalletTransferLegs: vi.fn(),
+}));
+const WALLET = "0x1111111111111111111111111111111111111111";
+const SELLER = "0x2222222222222222222222222222222222222222";
+
+vi.mock("$lib/utils/claimsManifest", () => ({
+  loadClaimsManifest: async () => [
+    { name: "F", sftTokens: [{ address: TOKEN, symbol: "S", claims: [] }] },
+  ],
+}));
+
+vi.mock("./transfers", () => ({ scanWalletTransferLegs }));
+
+import { GET } from "./+server";
+
+type Handler = (event: { url: URL }) => Promise<Response>;
+
+const invoke = (wallet: string) =>
+  (GET as unknown as Handler)({
+    url: new URL(`http://localhost/api/cost-basis?wallet=${wallet}`),
+  });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("GET /api/cost-basis", () => {
+  it("rejects a bad wallet", async () => {
+    expect((await invoke("0x12")).status).toBe(400);
+    expect(scanWalletTransferLegs).not.toHaveBeenCalled();
+  });
+
+  it("returns priced transfers", async () => {
+    scanWalletTransferLegs.mockResolvedValueOnce({
+      tokenTransfers: [
+        {
+          address: TOKEN,
+          txHash: "0xbuy",
+          blockNumber: 5,
+          logIndex: 1,
+          timestamp: 100,
+          from: SELLER,
+          to: WALLET,
+          value: 2n * 10n ** 18n,
+        },
+      ],
+      usdcTransfers: [
+        {
+          address: "usdc",
+          txHash: "0xbuy",
+          blockNumber: 5,
+          logIndex: 0,
+          timestamp: 100,
+          from: WALLET,
+          to: SELLER,
+          value: 3_000_000n,
+        },
+      ],
+    });
+    const r = await invoke(WALLET);
+    expect(r.status).toBe(200);
+    expect(await r.json()).toEqual({
+      acquisitions: [
+        {
+          id: "0xbuy:1",
+          token: TOKEN,
+          timestamp: 100,
+          quantity: 2,
+          cost: 3,
+          source: "purchase",
+          counterparty: SELLER,
+        },
+      ],
+      disposals: [],
+    });
+    expect(scanWalletTransferLegs).toHaveBeenCalledWith(
+      WALLET,
+      [TOKEN],
+      expect.stringMatching(/^0x833589/i),
+    );
+  });
+
+  it("reports an unavailable scan as 503", async () => {
+    scanWalletTransferLegs.mockResolvedValueOnce(null);
+    const r = await invoke(WALLET);
+    expect(r.status).toBe(503);
+    expect(r.headers.get("cache-control")).toBe("no-store");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Hypersync scan of one wallet's royalty token transfers and the USDC legs of
+ * the same transactions, for cost-basis tracking.
+ *
+ * Two passes: every SFT Transfer to or from the wallet first, then USDC
+ * Transfers to or from the wallet within the block range those span. Only USDC
+ * legs sharing a transaction with a token transfer are kept, so payout claims
+ * and unrelated payments never become a price.
+ */
+import axios from "axios";
+import { padHex } from "viem";
+import { PRIVATE_HYPERSYNC_API_KEY } from "$env/static/private";
+import { TRANSFER_EVENT_TOPIC } from "$lib/utils/holderSnapshot";
+import type { TransferLeg } from "$lib/utils/costBasis";
+
+interface RawLog {
+  block_number: string | number;
+  log_index: string | number;
+  transaction_hash: string;
+  address: string;
+  topic1: string;
+  topic2: string;
+  data: string;
+}
+
+interface RawBlock {
+  number: string | number;
+  timestamp: string | number;
+}
+
+interface HypersyncResponse {
+  data: Array<{ logs?: RawLog[]; blocks?: RawBlock[] }>;
+  next_block: number;
+  archive_height?: number;
+}
+
+const HYPERSYNC_URL = "https://8453.hypersync.xyz/query";
+
+function addressFromTopic(topic: string): string {
+  return `0x${topic.slice(-40)}`.toLowerCase();
+}
+
+/**
+ * Transfer logs of `contracts` with `wallet` as sender or recipient, in blocks
+ * [fromBlock, toBlock) (open-ended to the chain tip when `toBlock` is
+ * omitted). Null when the scan fails part-way.
+ */
+async function scanWalletTransfers(
+  contracts: string[],
+  wallet: string,
+  fromBlock: number,
+  toBlock?: number,
+): Promise<TransferLeg[] | null> {
+  const walletTopic = padHex(wallet.toLowerCase() as `0x${string}`, {
+    size: 32,
+  });
+  const legs: TransferLeg[] = [];
+  let currentBlock = fromBlock;
+
+  try {
+    while (toBlock === undefined || currentBlock < toBlock) {
+      const res = await axios.post<HypersyncResponse>(
+        HYPERSYNC_URL,
+        {
+          from_block: currentBlock,
+          ...(toBlock === undefined ? {} : { to_block: toBlock }),
+          logs: [
+            {
+              address: contracts,
+              topics: [[TRANSFER_EVENT_TOPIC], [walletTopic]],
+            },
+            {
+              address: contracts,
+              topics: [[TRANSFER_EVENT_TOPIC], [], [walletTopic]],
+            },
+          ],
+          field_selection: {
+            log: [
+              "block_number",
+              "log_index",
+              "transaction_hash",
+              "address",
+              "topic1",
+              "topic2",
+              "data",
+            ],
+            block: ["number", "timestamp"],
+          },
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${PRIVATE_HYPERSYNC_API_KEY}`,
+          },
+        },
+      );
+
+      const responseData = res.data;
+      if (!responseData?.data) return null;
+      const timestamps = new Map<number, number>();
+      for (const entry of responseData.data) {
+        for (const block of entry.blocks ?? []) {
+          timestamps.set(Number(block.number), Number(block.timestamp));
+        }
+      }
+      for (const entry of responseData.data) {
+        for (const log of entry.logs ?? []) {
+          legs.push({
+            address: log.address.toLowerCase(),
+            txHash: log.transaction_hash.toLowerCase(),
+            blockNumber: Number(log.block_number),
+            logIndex: Number(log.log_index),
+            timestamp: timestamps.get(Number(log.block_number)) ?? 0,
+            from: addressFromTopic(log.topic1),
+            to: addressFromTopic(log.topic2),
+            value: BigInt(log.data === "0x" ? 0 : log.data),
+          });
+        }
+      }
+
+      if (!responseData.next_block || responseData.next_block <= currentBlock) {
+        break;
+      }
+      currentBlock = responseData.next_block;
+      // Open-ended scans stop at the indexed tip.
+      if (
+        toBlock === undefined &&
+        responseData.archive_height !== undefined &&
+        currentBlock > responseData.archive_height
+      ) {
+        break;
+      }
+    }
+  } catch (error) {
+    console.warn("Hypersync fetch error in cost-basis:", error);
+    return null;
+  }
+
+  return legs;
+}
+
+export interface WalletTransferLegs {
+  tokenTransfers: TransferLeg[];
+  usdcTransfers: TransferLeg[];
+}
+
+/**
+ * `wallet`'s transfers of `tokens` up to the indexed tip, with the USDC
+ * transfers that share a transaction with one of them. Null if either pass
+ * fails: a price-less history would read as gifts.
+ */
+export async function scanWalletTransferLegs(
+  wallet: string,
+  tokens: string[],
+  usdc: string,
+): Promise<WalletTransferLegs | null> {
+  const tokenTransfers = await scanWalletTransfers(tokens, wallet, 0);
+  if (!tokenTransfers) return null;
+  if (tokenTransfers.length === 0) {
+    return { tokenTransfers, usdcTransfers: [] };
+  }
+
+  const blocks = tokenTransfers.map((leg) => leg.blockNumber);
+  const usdcTransfers = await scanWalletTransfers(
+    [usdc],
+    wallet,
+    Math.min(...blocks),
+    Math.max(...blocks) + 1,
+  );
+  if (!usdcTransfers) return null;
+  const txHashes = new Set(tokenTransfers.map((leg) => leg.txHash));
+  return {
+    tokenTransfers,
+    usdcTransfers: usdcTransfers.filter((leg) => txHashes.has(leg.txHash)),
+  };
+}
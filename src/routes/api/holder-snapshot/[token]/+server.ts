@@ -0,0 +1,121 @@
+/**
+ * GET /api/holder-snapshot/<token>?block=<n> → HolderSnapshot
+ *
+ * Holder balances of an SFT as of a block, for pro-rata payouts. Balances come
+ * from replaying the vault's Transfer events through `block` (Hypersync); if
+ * that scan fails or is inconsistent, the subgraph's block-pinned
+ * `tokenHolders` is used instead. Both describe a block in the past, so a
+ * finished snapshot never changes and is cached hard.
+ */
+import { json, type RequestHandler } from "@sveltejs/kit";
+import { getAddress, isAddress } from "viem";
+import { sftRepository } from "$lib/data/repositories";
+import {
+  HolderSnapshotError,
+  buildHolderSnapshot,
+  replayTransfers,
+  toHolderBalances,
+  type HolderSnapshot,
+} from "$lib/utils/holderSnapshot";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
+import { scanTransfers } from "../transfers";
+
+const RESULT_HEADERS = {
+  "Cache-Control": "public, max-age=300, s-maxage=86400",
+  "Access-Control-Allow-Origin": "*",
+} as const;
+const NO_STORE_HEADERS = {
+  "Cache-Control": "no-store",
+  "Access-Control-Allow-Origin": "*",
+} as const;
+
+// Only snapshot known SFTs (baked or released through the claims manifest): an
+// arbitrary address would let a caller point a full-history Hypersync scan at
+// any contract.
+async function isKnownSft(
+  address: string,
+  fetchFn: typeof fetch,
+): Promise<boolean> {
+  const lower = address.toLowerCase();
+  return (await loadClaimsManifest(fetchFn)).some((field) =>
+    field.sftTokens.some((token) => token.address.toLowerCase() === lower),
+  );
+}
+
+const SNAPSHOT_CACHE_MAX_ENTRIES = 64;
+const snapshotCache = new Map<string, HolderSnapshot>();
+
+async function takeSnapshot(
+  token: string,
+  blockNumber: number,
+): Promise<HolderSnapshot> {
+  const transfers = await scanTransfers(token, blockNumber);
+  if (transfers) {
+    try {
+      return buildHolderSnapshot(
+        token,
+        blockNumber,
+        replayTransfers(transfers, blockNumber),
+        "hypersync",
+      );
+    } catch (error) {
+      if (!(error instanceof HolderSnapshotError)) throw error;
+      console.warn("Transfer replay inconsistent, using subgraph:", error);
+    }
+  }
+  const holders = await sftRepository.getTokenHoldersAtBlock(
+    token,
+    blockNumber,
+  );
+  return buildHolderSnapshot(
+    token,
+    blockNumber,
+    toHolderBalances(holders),
+    "subgraph",
+  );
+}
+
+export const GET: RequestHandler = async ({ params, url, fetch }) => {
+  const token = params.token ?? "";
+  if (!isAddress(token, { strict: false })) {
+    return json(
+      { error: "token must be a 0x address" },
+      { status: 400, headers: NO_STORE_HEADERS },
+    );
+  }
+  if (!(await isKnownSft(token, fetch))) {
+    return json(
+      { error: "token is not a known SFT" },
+      { status: 404, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const blockParam = url.searchParams.get("block") ?? "";
+  const blockNumber = Number(blockParam);
+  if (!/^\d+$/.test(blockParam) || !Number.isSafeInteger(blockNumber)) {
+    return json(
+      { error: "block must be a block number" },
+      { status: 400, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const address = getAddress(token);
+  const key = `${address.toLowerCase()}:${blockNumber}`;
+  try {
+    let snapshot = snapshotCache.get(key);
+    if (!snapshot) {
+      snapshot = await takeSnapshot(address, blockNumber);
+      if (snapshotCache.size >= SNAPSHOT_CACHE_MAX_ENTRIES) {
+        snapshotCache.clear();
+      }
+      snapshotCache.set(key, snapshot);
+    }
+    return json(snapshot, { headers: RESULT_HEADERS });
+  } catch (error) {
+    console.error("Holder snapshot failed:", error);
+    return json(
+      { error: "Failed to build holder snapshot" },
+      { status: 503, headers: NO_STORE_HEADERS },
+    );
+  }
+};
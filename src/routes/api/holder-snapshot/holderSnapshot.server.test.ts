@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { TokenTransfer } from "$lib/utils/holderSnapshot";
+
+const { TOKEN, scanTransfers, getTokenHoldersAtBlock } = vi.hoisted(() => ({
+  TOKEN: "0xbcAd416434984Cca2b4a950dCd95f47C4126E980",
+  scanTransfers: vi.fn(),
+  getTokenHoldersAtBlock: vi.fn(),
+}));
+const A = "0x1111111111111111111111111111111111111111";
+const B = "0x2222222222222222222222222222222222222222";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+vi.mock("$lib/utils/claimsManifest", () => ({
+  loadClaimsManifest: async () => [
+    { name: "F", sftTokens: [{ address: TOKEN, symbol: "S", claims: [] }] },
+  ],
+}));
+
+vi.mock("./transfers", () => ({ scanTransfers }));
+
+vi.mock("$lib/data/repositories", () => ({
+  sftRepository: { getTokenHoldersAtBlock },
+}));
+
+import { GET } from "./[token]/+server";
+
+type Handler = (event: {
+  params: { token?: string };
+  url: URL;
+}) => Promise<Response>;
+
+const invoke = (token: string, block: string | number = 1) =>
+  (GET as unknown as Handler)({
+    params: { token },
+    url: new URL(
+      `http://localhost/api/holder-snapshot/${token}?block=${block}`,
+    ),
+  });
+
+const mint = (to: string, value: bigint, blockNumber: number) =>
+  ({ from: ZERO, to, value, blockNumber, logIndex: 0 }) as TokenTransfer;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("GET /api/holder-snapshot/[token]", () => {
+  it("rejects bad tokens and blocks", async () => {
+    expect((await invoke("0x12")).status).toBe(400);
+    expect((await invoke(A)).status).toBe(404);
+    expect((await invoke(TOKEN, "latest")).status).toBe(400);
+    expect((await invoke(TOKEN, "-1")).status).toBe(400);
+    expect(scanTransfers).not.toHaveBeenCalled();
+  });
+
+  it("replays Hypersync transfers and caches the snapshot", async () => {
+    scanTransfers.mockResolvedValueOnce([mint(A, 3n, 1), mint(B, 5n, 2)]);
+    const r = await invoke(TOKEN.toLowerCase(), 7);
+    expect(r.status).toBe(200);
+    expect(await r.json()).toEqual({
+      token: TOKEN,
+      blockNumber: 7,
+      totalSupply: "8",
+      holders: [
+        { address: B, balance: "5" },
+        { address: A, balance: "3" },
+      ],
+      source: "hypersync",
+    });
+    expect(scanTransfers).toHaveBeenCalledWith(TOKEN, 7);
+    expect(r.headers.get("cache-control")).toContain("s-maxage=86400");
+
+    expect((await invoke(TOKEN, 7)).status).toBe(200);
+    expect(scanTransfers).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the subgraph when the scan fails or is inconsistent", async () => {
+    getTokenHoldersAtBlock.mockResolvedValue([
+      { address: A.toUpperCase().replace("0X", "0x"), balance: "2" },
+      { address: B, balance: "0" },
+    ]);
+
+    scanTransfers.mockResolvedValueOnce(null);
+    const failed = await (await invoke(TOKEN, 8)).json();
+    expect(failed.source).toBe("subgraph");
+    expect(failed.holders).toEqual([{ address: A, balance: "2" }]);
+
+    scanTransfers.mockResolvedValueOnce([
+      { from: A, to: B, value: 1n, blockNumber: 1, logIndex: 0 },
+    ]);
+    expect((await (await invoke(TOKEN, 9)).json()).source).toBe("subgraph");
+    expect(getTokenHoldersAtBlock).toHaveBeenCalledWith(TOKEN, 9);
+  });
+
+  it("returns 503 without caching when both sources fail", async () => {
+    scanTransfers.mockResolvedValue(null);
+    getTokenHoldersAtBlock.mockRejectedValueOnce(new Error("not indexed"));
+    const r = await invoke(TOKEN, 10);
+    expect(r.status).toBe(503);
+    expect(r.headers.get("cache-control")).toBe("no-store");
+
+    getTokenHoldersAtBlock.mockResolvedValueOnce([]);
+    expect((await invoke(TOKEN, 10)).status).toBe(200);
+  });
+});
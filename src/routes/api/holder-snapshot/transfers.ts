@@ -0,0 +1,79 @@
+/**
+ * Hypersync scan of an SFT vault's `Transfer` events, for holder snapshots.
+ *
+ * Unlike the Context-event scan there is no persisted cache: a snapshot needs
+ * every transfer from genesis up to one block, the vault's transfer history is
+ * small next to the OrderBook's, and the route memoises the finished snapshot
+ * (past blocks never change).
+ */
+import axios from "axios";
+import { PRIVATE_HYPERSYNC_API_KEY } from "$env/static/private";
+import {
+  TRANSFER_EVENT_TOPIC,
+  decodeTransferLog,
+  type RawTransferLog,
+  type TokenTransfer,
+} from "$lib/utils/holderSnapshot";
+
+interface HypersyncTransferResponse {
+  data: Array<{ logs: RawTransferLog[] }>;
+  next_block: number;
+}
+
+const HYPERSYNC_URL = "https://8453.hypersync.xyz/query";
+
+/**
+ * Every Transfer of `token` in blocks [0, blockNumber]. Returns null when the
+ * scan fails or Hypersync has not indexed up to `blockNumber` yet — callers
+ * must not replay a partial history.
+ */
+export async function scanTransfers(
+  token: string,
+  blockNumber: number,
+): Promise<TokenTransfer[] | null> {
+  const transfers: TokenTransfer[] = [];
+  // to_block is exclusive.
+  const toBlock = blockNumber + 1;
+  let currentBlock = 0;
+
+  try {
+    while (currentBlock < toBlock) {
+      const res = await axios.post<HypersyncTransferResponse>(
+        HYPERSYNC_URL,
+        {
+          from_block: currentBlock,
+          to_block: toBlock,
+          logs: [{ address: [token], topics: [[TRANSFER_EVENT_TOPIC]] }],
+          field_selection: {
+            log: ["block_number", "log_index", "topic1", "topic2", "data"],
+          },
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${PRIVATE_HYPERSYNC_API_KEY}`,
+          },
+        },
+      );
+
+      const responseData = res.data;
+      if (!responseData?.data) return null;
+      for (const entry of responseData.data) {
+        for (const log of entry.logs) {
+          transfers.push(decodeTransferLog(log));
+        }
+      }
+
+      // No progress means the chain tip (as Hypersync sees it) is below the
+      // requested block.
+      if (!responseData.next_block || responseData.next_block <= currentBlock) {
+        return null;
+      }
+      currentBlock = responseData.next_block;
+    }
+  } catch (error) {
+    console.warn("Hypersync fetch error in holder-snapshot:", error);
+    return null;
+  }
+
+  return transfers;
+}
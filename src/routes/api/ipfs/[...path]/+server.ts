@@ -2,12 +2,13 @@ import type { RequestHandler } from "./$types";
 import { error } from "@sveltejs/kit";
 import { env as publicEnv } from "$env/dynamic/public";
 import { pinata } from "$lib/server/pinata";
-import { put, head, type HeadBlobResult } from "@vercel/blob";
 import { verifyCidBytes } from "$lib/server/cidContent";
+import { storage } from "$lib/server/storage";
 
 // Three-layer origin for immutable IPFS content, fastest first:
 //   1. in-memory Map  — instant, but lost on cold start / per-instance
-//   2. Vercel Blob    — durable, ~ms, survives cold starts + deployments
+//   2. storage (Vercel Blob in production, $lib/server/storage) — durable, ~ms,
+//      survives cold starts + deployments
 //   3. Pinata / public gateways — slow (~2s), the source of truth
 // The edge CDN (Cache-Control headers below) sits in front of all three, so a
 // warm edge skips the function entirely; Blob makes the cold-edge misses cheap.
@@ -26,18 +27,9 @@ async function readFromBlob(
   path: string,
 ): Promise<{ body: Uint8Array; contentType: string } | null> {
   try {
-    const meta: HeadBlobResult | null = await head(blobKey(path)).catch(
-      () => null,
-    );
-    if (!meta?.url) return null;
-    const response = await fetch(meta.url);
-    if (!response.ok) return null;
-    const body = new Uint8Array(await response.arrayBuffer());
-    const contentType =
-      meta.contentType ||
-      response.headers.get("content-type") ||
-      "application/octet-stream";
-    return { body, contentType };
+    const stored = await storage().get(blobKey(path));
+    if (!stored) return null;
+    return { body: stored.body, contentType: stored.contentType };
   } catch {
     return null;
   }
@@ -49,17 +41,14 @@ async function writeToBlob(
   contentType: string,
 ): Promise<void> {
   try {
-    await put(blobKey(path), Buffer.from(body), {
-      access: "public",
-      addRandomSuffix: false,
-      allowOverwrite: true, // immutable content — idempotent re-writes are fine
-      contentType,
-    });
+    // Immutable content — idempotent re-writes are fine.
+    await storage().put(blobKey(path), body, { contentType });
   } catch (err) {
-    // Blob is an optimization; the in-memory cache + edge still serve this hit,
-    // and the gateways remain the source of truth. Requires BLOB_READ_WRITE_TOKEN
-    // in the deployment's runtime env (present on production; absent on previews
-    // unless the Blob store is linked to the Preview environment).
+    // Storage is an optimization; the in-memory cache + edge still serve this
+    // hit, and the gateways remain the source of truth. The Blob backend needs
+    // BLOB_READ_WRITE_TOKEN in the deployment's runtime env (present on
+    // production; absent on previews unless the Blob store is linked to the
+    // Preview environment).
     console.warn("IPFS proxy: failed to persist to Blob:", err);
   }
 }
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { memoryEmailProvider } from "./email";
+
+describe("memoryEmailProvider", () => {
+  it("upserts by email and tracks groups and fields", async () => {
+    const email = memoryEmailProvider();
+    const a = await email.subscribe(
+      " Alice@Example.com ",
+      { wallet_addresses: "0x1" },
+      "alerts",
+    );
+    const again = await email.subscribe(
+      "alice@example.com",
+      { wallet_addresses: "0x1,0x2" },
+      "alerts",
+    );
+    expect(again.id).toBe(a.id);
+    expect((await email.lookup(a.id))?.fields).toEqual({
+      wallet_addresses: "0x1,0x2",
+    });
+    expect((await email.lookup("ALICE@example.com"))?.id).toBe(a.id);
+    expect(await email.lookup("nobody@example.com")).toBeNull();
+
+    await email.updateFields(a.id, { payout_reminders: "off" });
+    expect((await email.lookup(a.id))?.fields?.payout_reminders).toBe("off");
+
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    await email.addToGroup(a.id, "trigger");
+    expect((await email.listGroup("trigger")).map((s) => s.id)).toEqual([a.id]);
+    await email.unsubscribe(a.id, "trigger");
+    await email.unsubscribe("missing", "trigger");
+    expect(await email.listGroup("trigger")).toEqual([]);
+    expect(await email.listGroup("alerts")).toHaveLength(1);
+    await expect(email.updateFields("missing", {})).rejects.toThrow();
+  });
+
+  it("persists to a local file across provider instances", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "email-provider-"));
+    try {
+      const filePath = join(dir, "nested", "email.json");
+      const first = memoryEmailProvider({ filePath });
+      const sub = await first.subscribe("bob@example.com", {}, "alerts");
+      expect(
+        JSON.parse(await readFile(filePath, "utf8")).subscribers,
+      ).toHaveProperty(sub.id);
+
+      const second = memoryEmailProvider({ filePath });
+      expect((await second.listGroup("alerts")).map((s) => s.email)).toEqual([
+        "bob@example.com",
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Email provider behind the notification routes.
+ *
+ * The routes only need a handful of list operations — look a subscriber up,
+ * subscribe (upsert + attach a group), detach from a group, attach to a group
+ * (which is what fires "joins group" automations), rewrite custom fields, and
+ * list a group. MailerLite (./mailerlite.ts) is the production implementation;
+ * the in-memory one below, optionally persisted to a local JSON file, lets the
+ * routes run end-to-end in development and tests without credentials. It
+ * sends nothing: automation-triggering group joins are logged (as warnings,
+ * so they stand out in dev output) instead.
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface EmailSubscriber {
+  id: string;
+  email: string;
+  fields?: Record<string, string | null>;
+}
+
+export interface EmailProvider {
+  /** Shown in logs. */
+  name: string;
+  /** Fetch by email or id; null when not found. */
+  lookup(emailOrId: string): Promise<EmailSubscriber | null>;
+  /** Create-or-update by email, merging `fields` and attaching `groupId`. */
+  subscribe(
+    email: string,
+    fields: Record<string, string>,
+    groupId: string,
+  ): Promise<EmailSubscriber>;
+  /** Detach from a group; already detached is not an error. */
+  unsubscribe(subscriberId: string, groupId: string): Promise<void>;
+  addToGroup(subscriberId: string, groupId: string): Promise<void>;
+  /** Update custom fields; others are left untouched. */
+  updateFields(
+    subscriberId: string,
+    fields: Record<string, string>,
+  ): Promise<void>;
+  /** Every subscriber in a group. */
+  listGroup(groupId: string): Promise<EmailSubscriber[]>;
+}
+
+interface MemoryEmailState {
+  subscribers: Record<string, EmailSubscriber & { groups: string[] }>;
+}
+
+/**
+ * Development/test provider. State lives in memory and, with `filePath`, is
+ * re-read before and written after every call so it survives dev-server
+ * restarts and can be inspected (or edited) by hand.
+ */
+export function memoryEmailProvider(
+  options: { filePath?: string } = {},
+): EmailProvider {
+  const { filePath } = options;
+  const name = filePath ? `local file (${filePath})` : "in-memory";
+  let state: MemoryEmailState = { subscribers: {} };
+
+  async function load(): Promise<MemoryEmailState> {
+    if (!filePath) return state;
+    try {
+      const data = JSON.parse(await readFile(filePath, "utf8"));
+      if (data && typeof data.subscribers === "object") state = data;
+    } catch {
+      // missing or unreadable file: start from the in-memory state
+    }
+    return state;
+  }
+
+  async function save(): Promise<void> {
+    if (!filePath) return;
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(state, null, 2));
+  }
+
+  const find = (s: MemoryEmailState, emailOrId: string) =>
+    s.subscribers[emailOrId] ??
+    Object.values(s.subscribers).find(
+      (sub) => sub.email === emailOrId.trim().toLowerCase(),
+    ) ??
+    null;
+
+  const strip = ({ id, email, fields }: EmailSubscriber): EmailSubscriber => ({
+    id,
+    email,
+    fields: { ...fields },
+  });
+
+  function required(s: MemoryEmailState, subscriberId: string) {
+    const sub = s.subscribers[subscriberId];
+    if (!sub) throw new Error(`Unknown subscriber ${subscriberId}`);
+    return sub;
+  }
+
+  return {
+    name,
+
+    async lookup(emailOrId) {
+      const sub = find(await load(), emailOrId);
+      return sub ? strip(sub) : null;
+    },
+
+    async subscribe(email, fields, groupId) {
+      const s = await load();
+      const normalized = email.trim().toLowerCase();
+      const existing = find(s, normalized);
+      const sub = existing ?? {
+        id: `local-${Object.keys(s.subscribers).length + 1}`,
+        email: normalized,
+        fields: {},
+        groups: [],
+      };
+      sub.fields = { ...sub.fields, ...fields };
+      if (!sub.groups.includes(groupId)) sub.groups.push(groupId);
+      s.subscribers[sub.id] = sub;
+      await save();
+      return strip(sub);
+    },
+
+    async unsubscribe(subscriberId, groupId) {
+      const s = await load();
+      const sub = s.subscribers[subscriberId];
+      if (!sub) return;
+      sub.groups = sub.groups.filter((g) => g !== groupId);
+      await save();
+    },
+
+    async addToGroup(subscriberId, groupId) {
+      const s = await load();
+      const sub = required(s, subscriberId);
+      if (!sub.groups.includes(groupId)) sub.groups.push(groupId);
+      await save();
+      console.warn(
+        `[email:${name}] ${sub.email} joined group ${groupId} (automation email not sent)`,
+      );
+    },
+
+    async updateFields(subscriberId, fields) {
+      const s = await load();
+      const sub = required(s, subscriberId);
+      sub.fields = { ...sub.fields, ...fields };
+      await save();
+    },
+
+    async listGroup(groupId) {
+      const s = await load();
+      return Object.values(s.subscribers)
+        .filter((sub) => sub.groups.includes(groupId))
+        .map(strip);
+    },
+  };
+}
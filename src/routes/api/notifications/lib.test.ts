@@ -1,15 +1,24 @@
 import { describe, it, expect } from "vitest";
 import {
+  activePreferences,
   applyLink,
+  applyPause,
+  applyPreferences,
+  applyRemindersOff,
   applyUnlink,
+  applyUnlinkAll,
   coerceLinkMap,
   emptyLinkMap,
+  linkPreferences,
   maskEmail,
   mergeWalletIntoField,
   parseWalletsField,
+  preferenceFields,
   removeWalletFromField,
+  subscriberPreferences,
   type LinkMap,
 } from "./lib";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "$lib/utils/notificationPreferences";
 
 const W1 = "0xAAAA000000000000000000000000000000000001";
 const W2 = "0xbbbb000000000000000000000000000000000002";
@@ -99,3 +108,102 @@ describe("coerceLinkMap (corrupt blob never breaks the feature)", () => {
     expect(coerceLinkMap({ version: 99 })).toEqual(emptyLinkMap());
   });
 });
+
+describe("notification preferences on the link map", () => {
+  const link = (subscriberId: string) => ({
+    subscriberId,
+    emailMasked: "a•••@g•••.com",
+    updatedAt: 1,
+  });
+  const reports = {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    payouts: false,
+    productionReports: true,
+    releases: ["Field A"],
+  };
+
+  it("defaults until saved, and only saves for a linked wallet", () => {
+    const map: LinkMap = { version: 1, links: { [W1.toLowerCase()]: link("sub-1") } };
+    expect(linkPreferences(map.links[W1.toLowerCase()])).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+
+    const saved = applyPreferences(map, W1, reports, 5);
+    expect(saved.link).toEqual({ ...link("sub-1"), preferences: reports, updatedAt: 5 });
+    expect(map.links[W1.toLowerCase()].preferences).toBeUndefined();
+
+    const missing = applyPreferences(map, W2, reports, 5);
+    expect(missing.link).toBeNull();
+    expect(missing.map).toBe(map);
+  });
+
+  it("unions a subscriber's wallets into MailerLite fields", () => {
+    const { map } = applyPreferences(
+      { version: 1, links: { [W1.toLowerCase()]: link("sub-1"), [W2]: link("sub-1") } },
+      W2,
+      reports,
+      5,
+    );
+    expect(preferenceFields(subscriberPreferences(map, "sub-1"))).toEqual({
+      payout_alerts: "on",
+      payout_reminders: "on",
+      production_reports: "on",
+      release_fields: "Field A",
+    });
+  });
+
+  it("turns reminders off for every wallet of a subscriber", () => {
+    const map = applyRemindersOff(
+      { version: 1, links: { [W1.toLowerCase()]: link("sub-1"), [W2]: link("sub-2") } },
+      "sub-1",
+      9,
+    );
+    expect(linkPreferences(map.links[W1.toLowerCase()]).reminders).toBe(false);
+    expect(map.links[W2].preferences).toBeUndefined();
+  });
+});
+
+describe("self-serve account actions (/notifications)", () => {
+  const link = (subscriberId: string) => ({
+    subscriberId,
+    emailMasked: "a•••@g•••.com",
+    updatedAt: 1,
+  });
+  const W3 = "0xcccc000000000000000000000000000000000003";
+  const map: LinkMap = {
+    version: 1,
+    links: { [W1.toLowerCase()]: link("sub-1"), [W2]: link("sub-1"), [W3]: link("sub-2") },
+  };
+
+  it("pauses every wallet on the caller's email and keeps saved preferences", () => {
+    const { map: paused, link: saved } = applyPause(map, W1, true, 7);
+    expect(saved).toEqual({ ...link("sub-1"), paused: true, updatedAt: 7 });
+    expect(paused.links[W2].paused).toBe(true);
+    expect(paused.links[W3].paused).toBeUndefined();
+    expect(linkPreferences(paused.links[W2])).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+    expect(activePreferences(paused.links[W2])).toEqual({
+      payouts: false,
+      reminders: false,
+      productionReports: false,
+      releases: [],
+    });
+    expect(applyPause(paused, W2, false, 8).map.links[W1.toLowerCase()].paused).toBe(false);
+    expect(applyPause(map, "0xdead", true, 7)).toEqual({ map, link: null });
+  });
+
+  it("sends a paused subscriber nothing via MailerLite fields", () => {
+    const { map: paused } = applyPause(map, W1, true, 7);
+    expect(preferenceFields(subscriberPreferences(paused, "sub-1"))).toEqual({
+      payout_alerts: "off",
+      payout_reminders: "off",
+      production_reports: "off",
+      release_fields: "",
+    });
+  });
+
+  it("unlinks every wallet on the caller's email, and only those", () => {
+    const { map: next, subscriberId, removed } = applyUnlinkAll(map, W2);
+    expect(subscriberId).toBe("sub-1");
+    expect(removed.sort()).toEqual([W1.toLowerCase(), W2].sort());
+    expect(Object.keys(next.links)).toEqual([W3]);
+    expect(applyUnlinkAll(next, W1)).toEqual({ map: next, subscriberId: null, removed: [] });
+  });
+});
@@ -12,6 +12,16 @@
  * Blob store is public-access; a subscriber id is useless without the API key,
  * and the masked email exists only so the UI can show "linked as a•••@g•••.com".
  */
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationPreferences,
+} from "$lib/utils/notificationPreferences";
+import { REMINDERS_FIELD } from "./reminders";
+
+/** Custom fields (type: text) mirroring a subscriber's preferences. */
+export const PAYOUTS_FIELD = "payout_alerts";
+export const REPORTS_FIELD = "production_reports";
+export const RELEASES_FIELD = "release_fields";
 
 export interface WalletLink {
   /** MailerLite subscriber id — the key we use to update/unlink later. */
@@ -19,6 +29,13 @@ export interface WalletLink {
   /** Display-only masked email; never the raw address. */
   emailMasked: string;
   updatedAt: number;
+  /** Absent until the wallet saves preferences; defaults apply until then. */
+  preferences?: NotificationPreferences;
+  /**
+   * Set from the /notifications page: nothing is sent for this wallet until it
+   * is resumed, but the link and saved preferences are kept.
+   */
+  paused?: boolean;
 }
 
 export interface LinkMap {
@@ -113,6 +130,138 @@ export function applyUnlink(
   return { map: { ...map, links }, removed };
 }
 
+/**
+ * Link-map transition for "unlink all": drops every wallet linked to the same
+ * subscriber as `wallet`. Null subscriberId when `wallet` is not linked.
+ */
+export function applyUnlinkAll(
+  map: LinkMap,
+  wallet: string,
+): { map: LinkMap; subscriberId: string | null; removed: string[] } {
+  const subscriberId = map.links[wallet.toLowerCase()]?.subscriberId ?? null;
+  if (!subscriberId) return { map, subscriberId: null, removed: [] };
+  const links: Record<string, WalletLink> = {};
+  const removed: string[] = [];
+  for (const [key, link] of Object.entries(map.links)) {
+    if (link.subscriberId === subscriberId) removed.push(key);
+    else links[key] = link;
+  }
+  return { map: { ...map, links }, subscriberId, removed };
+}
+
+/** Saved preferences (or the defaults), regardless of pausing. */
+export function linkPreferences(
+  link: WalletLink | null | undefined,
+): NotificationPreferences {
+  return link?.preferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+/** What is actually sent for a wallet: nothing while paused. */
+export function activePreferences(
+  link: WalletLink | null | undefined,
+): NotificationPreferences {
+  if (link?.paused) {
+    return {
+      payouts: false,
+      reminders: false,
+      productionReports: false,
+      releases: [],
+    };
+  }
+  return linkPreferences(link);
+}
+
+/** Link-map transition for a preferences save; null link when not linked. */
+export function applyPreferences(
+  map: LinkMap,
+  wallet: string,
+  preferences: NotificationPreferences,
+  now: number,
+): { map: LinkMap; link: WalletLink | null } {
+  const key = wallet.toLowerCase();
+  const existing = map.links[key];
+  if (!existing) return { map, link: null };
+  const link = { ...existing, preferences, updatedAt: now };
+  return { map: { ...map, links: { ...map.links, [key]: link } }, link };
+}
+
+/**
+ * Link-map transition for the reminder email's opt-out link: the link is per
+ * subscriber, so every wallet on that email stops wanting reminders.
+ */
+export function applyRemindersOff(
+  map: LinkMap,
+  subscriberId: string,
+  now: number,
+): LinkMap {
+  const links = { ...map.links };
+  for (const [wallet, link] of Object.entries(links)) {
+    if (link.subscriberId !== subscriberId) continue;
+    links[wallet] = {
+      ...link,
+      preferences: { ...linkPreferences(link), reminders: false },
+      updatedAt: now,
+    };
+  }
+  return { ...map, links };
+}
+
+/**
+ * Link-map transition for pausing or resuming alerts. Pausing is per email,
+ * like the reminder opt-out: every wallet on `wallet`'s subscriber is paused or
+ * resumed together. Null link when `wallet` is not linked.
+ */
+export function applyPause(
+  map: LinkMap,
+  wallet: string,
+  paused: boolean,
+  now: number,
+): { map: LinkMap; link: WalletLink | null } {
+  const key = wallet.toLowerCase();
+  const existing = map.links[key];
+  if (!existing) return { map, link: null };
+  const links = { ...map.links };
+  for (const [other, link] of Object.entries(links)) {
+    if (link.subscriberId !== existing.subscriberId) continue;
+    links[other] = { ...link, paused, updatedAt: now };
+  }
+  return { map: { ...map, links }, link: links[key] };
+}
+
+/**
+ * A subscriber's effective preferences: MailerLite is keyed by email, which
+ * may cover several wallets, so a topic is on if any linked (and unpaused)
+ * wallet wants it.
+ */
+export function subscriberPreferences(
+  map: LinkMap,
+  subscriberId: string,
+): NotificationPreferences {
+  const links = Object.values(map.links).filter(
+    (link) => link.subscriberId === subscriberId,
+  );
+  const prefs = links.map(activePreferences);
+  return {
+    payouts: prefs.some((p) => p.payouts),
+    reminders: prefs.some((p) => p.reminders),
+    productionReports: prefs.some((p) => p.productionReports),
+    releases: [...new Set(prefs.flatMap((p) => p.releases))].sort(),
+  };
+}
+
+/** MailerLite custom-field values for a subscriber's effective preferences. */
+export function preferenceFields(
+  prefs: NotificationPreferences,
+): Record<string, string> {
+  const flag = (on: boolean) => (on ? "on" : "off");
+  return {
+    [PAYOUTS_FIELD]: flag(prefs.payouts),
+    [REMINDERS_FIELD]: flag(prefs.reminders),
+    [REPORTS_FIELD]: flag(prefs.productionReports),
+    [RELEASES_FIELD]: prefs.releases.join(","),
+  };
+}
+
 /** Normalise an unknown blob payload into a LinkMap (tolerates missing/corrupt). */
 export function coerceLinkMap(data: unknown): LinkMap {
   if (
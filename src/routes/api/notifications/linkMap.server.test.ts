@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { KeyValueStore } from "$lib/server/storage";
+import type { LinkMap, WalletLink } from "./lib";
+
+const m = vi.hoisted(() => ({ store: null as unknown as KeyValueStore }));
+
+vi.mock("$env/dynamic/private", () => ({ env: {} }));
+vi.mock("$lib/server/storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("$lib/server/storage")>()),
+  storage: () => m.store,
+}));
+
+const KEY = "payout-alerts-links.json";
+const link = (subscriberId: string): WalletLink => ({
+  subscriberId,
+  emailMasked: "a***@x.com",
+  updatedAt: 1,
+});
+const withLink =
+  (wallet: string, subscriberId: string) =>
+  (map: LinkMap): LinkMap => ({
+    ...map,
+    links: { ...map.links, [wallet]: link(subscriberId) },
+  });
+
+async function stored(): Promise<LinkMap | null> {
+  const { getJson } = await import("$lib/server/storage");
+  return (await getJson<LinkMap>(m.store, KEY))?.value ?? null;
+}
+
+// The service keeps the map in module state; load it fresh per test.
+async function loadService() {
+  vi.resetModules();
+  return import("./service");
+}
+
+beforeEach(async () => {
+  const { memoryStore } = await import("$lib/server/storage");
+  m.store = memoryStore();
+  vi.spyOn(Math, "random").mockReturnValue(0); // no backoff waits
+});
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("updateLinkMap (compare-and-swap)", () => {
+  it("re-applies the transition when another instance wrote in between", async () => {
+    const { putJson } = await import("$lib/server/storage");
+    await putJson(m.store, KEY, { version: 1, links: {} });
+    const cas = m.store.compareAndSwap.bind(m.store);
+    let raced = false;
+    m.store.compareAndSwap = async (...args) => {
+      if (!raced) {
+        raced = true;
+        await putJson(m.store, KEY, {
+          version: 1,
+          links: { "0xb": link("sub-b") },
+        });
+      }
+      return cas(...args);
+    };
+    const transition = vi.fn(withLink("0xa", "sub-a"));
+
+    const { updateLinkMap } = await loadService();
+    const result = await updateLinkMap(transition);
+
+    expect(transition).toHaveBeenCalledTimes(2);
+    expect(Object.keys(result.links).sort()).toEqual(["0xa", "0xb"]);
+    expect(Object.keys((await stored())?.links ?? {}).sort()).toEqual([
+      "0xa",
+      "0xb",
+    ]);
+  });
+
+  it("creates the map when none exists yet", async () => {
+    const { updateLinkMap, loadLinkMap } = await loadService();
+    await updateLinkMap(withLink("0xa", "sub-a"));
+    expect((await stored())?.links["0xa"]?.subscriberId).toBe("sub-a");
+    expect((await loadLinkMap()).links["0xa"]?.subscriberId).toBe("sub-a");
+  });
+
+  it("does not overwrite a stored map it failed to read", async () => {
+    const { putJson } = await import("$lib/server/storage");
+    await putJson(m.store, KEY, {
+      version: 1,
+      links: { "0xb": link("sub-b") },
+    });
+    const get = m.store.get.bind(m.store);
+    m.store.get = vi
+      .fn<KeyValueStore["get"]>()
+      .mockRejectedValueOnce(new Error("blob down"))
+      .mockImplementation(get);
+
+    const { updateLinkMap } = await loadService();
+    await updateLinkMap(withLink("0xa", "sub-a"));
+
+    expect(Object.keys((await stored())?.links ?? {}).sort()).toEqual([
+      "0xa",
+      "0xb",
+    ]);
+  });
+
+  it("fails after repeated conflicts instead of clobbering", async () => {
+    m.store.compareAndSwap = async () => null;
+    const transition = vi.fn(withLink("0xa", "sub-a"));
+
+    const { updateLinkMap } = await loadService();
+    await expect(updateLinkMap(transition)).rejects.toThrow(
+      "link map write kept conflicting",
+    );
+    expect(transition).toHaveBeenCalledTimes(5);
+    expect(await stored()).toBeNull();
+  });
+
+  it("keeps serving from memory when the backend is unavailable", async () => {
+    m.store.get = async () => {
+      throw new Error("no token");
+    };
+    m.store.compareAndSwap = async () => {
+      throw new Error("no token");
+    };
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { updateLinkMap, loadLinkMap } = await loadService();
+    await updateLinkMap(withLink("0xa", "sub-a"));
+    expect((await loadLinkMap()).links["0xa"]?.subscriberId).toBe("sub-a");
+  });
+});
+
+describe("updateReminderState (compare-and-swap)", () => {
+  const REMINDERS_KEY = "payout-alerts-reminders.json";
+
+  it("merges with a send another run recorded in between", async () => {
+    const { getJson, putJson } = await import("$lib/server/storage");
+    const cas = m.store.compareAndSwap.bind(m.store);
+    let raced = false;
+    m.store.compareAndSwap = async (...args) => {
+      if (!raced) {
+        raced = true;
+        await putJson(m.store, REMINDERS_KEY, {
+          version: 1,
+          sentAt: { "sub-b": 2 },
+        });
+      }
+      return cas(...args);
+    };
+
+    const { updateReminderState } = await loadService();
+    await updateReminderState((state) => ({
+      ...state,
+      sentAt: { ...state.sentAt, "sub-a": 1 },
+    }));
+
+    expect((await getJson(m.store, REMINDERS_KEY))?.value).toEqual({
+      version: 1,
+      sentAt: { "sub-a": 1, "sub-b": 2 },
+    });
+  });
+
+  it("throws when the state can't be read", async () => {
+    m.store.get = async () => {
+      throw new Error("blob down");
+    };
+    const { updateReminderState } = await loadService();
+    await expect(updateReminderState((state) => state)).rejects.toThrow(
+      "blob down",
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import { mailerliteProvider } from "./mailerlite";
+
+function stubFetch(responses: Array<{ status: number; body?: unknown }>) {
+  const calls: Array<{ url: string; method?: string; body?: unknown }> = [];
+  const fetchFn = vi.fn(async (url: string, init?: RequestInit) => {
+    calls.push({
+      url,
+      method: init?.method,
+      body: init?.body ? JSON.parse(init.body as string) : undefined,
+    });
+    const { status, body } = responses.shift() ?? { status: 200 };
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+    });
+  });
+  return { fetchFn: fetchFn as unknown as typeof fetch, calls };
+}
+
+const ML = "https://connect.mailerlite.com/api";
+
+describe("mailerliteProvider", () => {
+  it("maps lookups, treating 404 as not found", async () => {
+    const { fetchFn, calls } = stubFetch([
+      { status: 200, body: { data: { id: "1", email: "a@b.co" } } },
+      { status: 404 },
+      { status: 500 },
+    ]);
+    const email = mailerliteProvider("key", fetchFn);
+    expect(await email.lookup("a@b.co")).toEqual({ id: "1", email: "a@b.co" });
+    expect(calls[0].url).toBe(`${ML}/subscribers/a%40b.co`);
+    expect(await email.lookup("x")).toBeNull();
+    await expect(email.lookup("x")).rejects.toThrow("500");
+  });
+
+  it("subscribes with fields and the group attached", async () => {
+    const { fetchFn, calls } = stubFetch([
+      { status: 200, body: { data: { id: "1", email: "a@b.co" } } },
+    ]);
+    await mailerliteProvider("key", fetchFn).subscribe(
+      "a@b.co",
+      { wallet_addresses: "0x1" },
+      "alerts",
+    );
+    expect(calls[0]).toEqual({
+      url: `${ML}/subscribers`,
+      method: "POST",
+      body: {
+        email: "a@b.co",
+        fields: { wallet_addresses: "0x1" },
+        groups: ["alerts"],
+      },
+    });
+  });
+
+  it("treats detaching an already-detached subscriber as success", async () => {
+    const { fetchFn, calls } = stubFetch([{ status: 404 }, { status: 500 }]);
+    const email = mailerliteProvider("key", fetchFn);
+    await email.unsubscribe("1", "g");
+    expect(calls[0]).toMatchObject({
+      url: `${ML}/subscribers/1/groups/g`,
+      method: "DELETE",
+    });
+    await expect(email.unsubscribe("1", "g")).rejects.toThrow("500");
+  });
+
+  it("follows group list cursors", async () => {
+    const { fetchFn, calls } = stubFetch([
+      {
+        status: 200,
+        body: {
+          data: [{ id: "1", email: "a@b.co" }],
+          meta: { next_cursor: "c2" },
+        },
+      },
+      { status: 200, body: { data: [{ id: "2", email: "c@d.co" }], meta: {} } },
+    ]);
+    const subs = await mailerliteProvider("key", fetchFn).listGroup("g");
+    expect(subs.map((s) => s.id)).toEqual(["1", "2"]);
+    expect(calls[1].url).toBe(`${ML}/groups/g/subscribers?limit=100&cursor=c2`);
+  });
+});
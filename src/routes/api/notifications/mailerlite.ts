@@ -0,0 +1,120 @@
+/**
+ * MailerLite implementation of EmailProvider (connect.mailerlite.com "new" API).
+ */
+import type { EmailProvider, EmailSubscriber } from "./email";
+
+const ML_BASE = "https://connect.mailerlite.com/api";
+
+export function mailerliteProvider(
+  apiKey: string,
+  fetchFn: typeof fetch = fetch,
+): EmailProvider {
+  async function mlRequest(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<{ status: number; json: unknown }> {
+    const res = await fetchFn(`${ML_BASE}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    let json: unknown = null;
+    try {
+      json = await res.json();
+    } catch {
+      // 204s and some errors have no body
+    }
+    return { status: res.status, json };
+  }
+
+  const groupPath = (subscriberId: string, groupId: string) =>
+    `/subscribers/${encodeURIComponent(subscriberId)}/groups/${encodeURIComponent(groupId)}`;
+
+  return {
+    name: "MailerLite",
+
+    async lookup(emailOrId) {
+      const { status, json } = await mlRequest(
+        "GET",
+        `/subscribers/${encodeURIComponent(emailOrId)}`,
+      );
+      if (status === 404) return null;
+      if (status >= 400) throw new Error(`MailerLite GET subscriber ${status}`);
+      return subscriberFrom(json);
+    },
+
+    // The endpoint upserts on an existing email.
+    async subscribe(email, fields, groupId) {
+      const { status, json } = await mlRequest("POST", "/subscribers", {
+        email,
+        fields,
+        groups: [groupId],
+      });
+      if (status >= 400) throw new Error(`MailerLite upsert ${status}`);
+      const sub = subscriberFrom(json);
+      if (!sub) throw new Error("MailerLite upsert: malformed response");
+      return sub;
+    },
+
+    async unsubscribe(subscriberId, groupId) {
+      const { status } = await mlRequest(
+        "DELETE",
+        groupPath(subscriberId, groupId),
+      );
+      // 404 = already detached; treat as success.
+      if (status >= 400 && status !== 404) {
+        throw new Error(`MailerLite group detach ${status}`);
+      }
+    },
+
+    async addToGroup(subscriberId, groupId) {
+      const { status } = await mlRequest(
+        "POST",
+        groupPath(subscriberId, groupId),
+      );
+      if (status >= 400) throw new Error(`MailerLite group assign ${status}`);
+    },
+
+    async updateFields(subscriberId, fields) {
+      const { status } = await mlRequest(
+        "PUT",
+        `/subscribers/${encodeURIComponent(subscriberId)}`,
+        { fields },
+      );
+      if (status >= 400) throw new Error(`MailerLite update ${status}`);
+    },
+
+    // Cursor-paginated, 100 per page.
+    async listGroup(groupId) {
+      const subscribers: EmailSubscriber[] = [];
+      let cursor: string | null = null;
+      do {
+        const qs = new URLSearchParams({ limit: "100" });
+        if (cursor) qs.set("cursor", cursor);
+        const { status, json } = await mlRequest(
+          "GET",
+          `/groups/${encodeURIComponent(groupId)}/subscribers?${qs}`,
+        );
+        if (status >= 400) throw new Error(`MailerLite group list ${status}`);
+        const page = json as {
+          data?: EmailSubscriber[];
+          meta?: { next_cursor?: string | null };
+        } | null;
+        subscribers.push(...(page?.data ?? []));
+        cursor = page?.meta?.next_cursor ?? null;
+      } while (cursor);
+      return subscribers;
+    },
+  };
+}
+
+function subscriberFrom(json: unknown): EmailSubscriber | null {
+  const data = (json as { data?: EmailSubscriber } | null)?.data;
+  if (!data?.id || !data?.email) return null;
+  return data;
+}
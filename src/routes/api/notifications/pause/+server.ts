@@ -0,0 +1,82 @@
+/**
+ * POST /api/notifications/pause
+ *
+ * Pauses or resumes payout alerts from the /notifications page. Body:
+ *   { walletAddress, paused, issuedAt, signature }
+ *
+ * The signature covers the canonical "pause" or "resume" message. Pausing is
+ * per email: every wallet linked to the same subscriber stops (or restarts)
+ * together, keeping its link and saved preferences. Flow:
+ *   1. verify signature + freshness
+ *   2. flag the subscriber's wallets in the link map (payout-watch and the
+ *      reminder cron skip paused wallets)
+ *   3. mirror the subscriber's effective preferences — all off while paused —
+ *      into MailerLite custom fields, so campaigns skip them too
+ */
+import { json, type RequestEvent } from "@sveltejs/kit";
+import { isIssuedAtFresh } from "$lib/utils/payoutAlertsMessage";
+import { applyPause, type WalletLink } from "../lib";
+import {
+  emailConfig,
+  syncSubscriberPreferences,
+  updateLinkMap,
+  verifyWalletSignature,
+} from "../service";
+
+export async function POST({ request }: RequestEvent) {
+  const config = emailConfig();
+  if (!config) {
+    return json({ error: "notifications_not_configured" }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json();
+    const { walletAddress, paused, issuedAt, signature } = body ?? {};
+
+    if (
+      typeof walletAddress !== "string" ||
+      typeof paused !== "boolean" ||
+      typeof issuedAt !== "string" ||
+      typeof signature !== "string" ||
+      !walletAddress.startsWith("0x")
+    ) {
+      return json({ error: "invalid_request" }, { status: 400 });
+    }
+    if (!isIssuedAtFresh(issuedAt, Date.now())) {
+      return json({ error: "stale_signature" }, { status: 400 });
+    }
+
+    const verified = await verifyWalletSignature(
+      { action: paused ? "pause" : "resume", walletAddress, issuedAt },
+      signature,
+    );
+    if (!verified) {
+      return json({ error: "invalid_signature" }, { status: 401 });
+    }
+
+    let link: WalletLink | null = null;
+    const map = await updateLinkMap((current) => {
+      const result = applyPause(current, walletAddress, paused, Date.now());
+      link = result.link;
+      return result.map;
+    });
+    // Assigned inside the transition, which control-flow analysis can't see.
+    const saved = link as WalletLink | null;
+    if (!saved) {
+      return json({ error: "not_linked" }, { status: 404 });
+    }
+
+    // Best-effort, like ../preferences: the link map already gates payout
+    // alerts and reminders; the next change re-syncs the fields.
+    try {
+      await syncSubscriberPreferences(config.provider, saved.subscriberId, map);
+    } catch (error) {
+      console.warn("payout-alerts: preferences sync failed:", error);
+    }
+
+    return json({ paused });
+  } catch (err) {
+    console.error("payout-alerts pause error:", err);
+    return json({ error: "pause_failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * GET /api/notifications/payout-watch  (Vercel cron, `Authorization: Bearer $CRON_SECRET`)
+ *
+ * Announces newly funded payouts. Each run checks every claimable order in the
+ * claims manifest that has not been announced yet; once an order's vault holds
+ * a balance, the wallets in its (CID-verified) CSV are matched against the
+ * payout-alerts group and each matching subscriber is added to the trigger
+ * group, whose MailerLite automation sends the email. Each subscriber is
+ * recorded against the order (compare-and-swap, see ./payouts.ts) before
+ * their trigger is sent and released again if it fails, so each distribution
+ * notifies each subscriber at most once even across failed or overlapping
+ * runs; a run that dies between recording and sending skips that subscriber.
+ *
+ * Replaces running scripts/build-distribution-audience.mjs by hand; the script
+ * remains for one-off campaigns.
+ */
+import { json, type RequestEvent } from "@sveltejs/kit";
+import {
+  ORDERBOOK_V6_CONTRACT_ADDRESS,
+  getOrderbookSource,
+  type Claim,
+} from "$lib/network";
+import { fetchAndVerifyCSV } from "$lib/utils/claims";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
+import {
+  WALLETS_FIELD,
+  isClaimOrderFunded,
+  isCronAuthorized,
+  loadLinkMap,
+  loadPayoutNoticeState,
+  emailConfig,
+  payoutTriggerGroupId,
+  triggerGroupAutomation,
+  updatePayoutNoticeState,
+} from "../service";
+import type { EmailSubscriber } from "../email";
+import {
+  applyNotice,
+  completeNotice,
+  emptyPayoutNoticeState,
+  fundedAt,
+  isNoticeComplete,
+  matchSubscribers,
+  notifiedSubscriberIds,
+  releaseSubscriber,
+  reserveSubscriber,
+} from "../payouts";
+import { activePreferences, type LinkMap } from "../lib";
+
+const NO_STORE_HEADERS = { "Cache-Control": "no-store" } as const;
+
+export async function GET({ request, fetch }: RequestEvent) {
+  if (!isCronAuthorized(request)) {
+    return json(
+      { error: "unauthorized" },
+      { status: 401, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const config = emailConfig();
+  const triggerGroupId = payoutTriggerGroupId();
+  if (!config || !triggerGroupId) {
+    return json({ configured: false }, { headers: NO_STORE_HEADERS });
+  }
+
+  let stored;
+  try {
+    stored = await loadPayoutNoticeState();
+  } catch (error) {
+    console.error("payout-watch: notice state unreadable:", error);
+    return json(
+      { error: "state_unavailable" },
+      { status: 503, headers: NO_STORE_HEADERS },
+    );
+  }
+  // First run: record what is already funded instead of announcing history.
+  const seeding = stored === null;
+  let state = stored ?? emptyPayoutNoticeState();
+
+  const claims: Claim[] = (await loadClaimsManifest(fetch)).flatMap((field) =>
+    field.sftTokens.flatMap((token) => token.claims ?? []),
+  );
+  // Funding is read from the order's own vaults, so orderBytes is required.
+  const pending = claims.filter(
+    (claim): claim is Claim & { orderBytes: string } =>
+      !!claim.orderBytes &&
+      (getOrderbookSource(claim.orderbook ?? ORDERBOOK_V6_CONTRACT_ADDRESS)
+        ?.claimable ??
+        false) &&
+      !isNoticeComplete(state, claim.orderHash),
+  );
+
+  let subscribers: EmailSubscriber[] | null = null;
+  let linkMap: LinkMap | null = null;
+  const notified: Array<{ orderHash: string; subscribers: number }> = [];
+  const seeded: string[] = [];
+  const failed: string[] = [];
+
+  for (const claim of pending) {
+    try {
+      const funded = await isClaimOrderFunded(
+        claim.orderbook ?? ORDERBOOK_V6_CONTRACT_ADDRESS,
+        claim.orderBytes,
+      );
+      if (!funded) continue;
+
+      const firstSeen = fundedAt(state, claim.orderHash) ?? Date.now();
+      if (seeding) {
+        state = applyNotice(state, claim.orderHash, {
+          fundedAt: firstSeen,
+          subscriberIds: [],
+          completedAt: Date.now(),
+          seeded: true,
+        });
+        seeded.push(claim.orderHash);
+        continue;
+      }
+
+      const rows = await fetchAndVerifyCSV(
+        claim.csvLink,
+        claim.expectedContentHash,
+        fetch,
+      );
+      if (!rows) throw new Error("distribution CSV unavailable");
+      linkMap ??= await loadLinkMap();
+      const links = linkMap.links;
+      // Wallets that paused alerts or turned payout alerts off are left out.
+      const wallets = new Set(
+        rows
+          .map((row) => row.address.toLowerCase())
+          .filter((wallet) => activePreferences(links[wallet]).payouts),
+      );
+
+      subscribers ??= await config.provider.listGroup(config.groupId);
+      const matched = matchSubscribers(subscribers, wallets, WALLETS_FIELD);
+
+      for (const sub of matched) {
+        // Reserve against the freshest state; another run may have got here.
+        let reserved = false;
+        state = await updatePayoutNoticeState((current) => {
+          const base = current ?? emptyPayoutNoticeState();
+          reserved = !notifiedSubscriberIds(base, claim.orderHash).has(sub.id);
+          return reserved
+            ? reserveSubscriber(base, claim.orderHash, sub.id, firstSeen)
+            : base;
+        });
+        if (!reserved) continue;
+        try {
+          await triggerGroupAutomation(config.provider, triggerGroupId, sub.id);
+        } catch (error) {
+          state = await updatePayoutNoticeState((current) =>
+            releaseSubscriber(
+              current ?? emptyPayoutNoticeState(),
+              claim.orderHash,
+              sub.id,
+            ),
+          );
+          throw error;
+        }
+      }
+      state = await updatePayoutNoticeState((current) =>
+        completeNotice(
+          current ?? emptyPayoutNoticeState(),
+          claim.orderHash,
+          firstSeen,
+          matched.map((sub) => sub.id),
+          Date.now(),
+        ),
+      );
+      notified.push({
+        orderHash: claim.orderHash,
+        subscribers: notifiedSubscriberIds(state, claim.orderHash).size,
+      });
+    } catch (error) {
+      console.warn(`payout-watch: ${claim.orderHash} not processed:`, error);
+      failed.push(claim.orderHash);
+    }
+  }
+
+  if (seeding) {
+    try {
+      // Another run may have seeded first; its record stands.
+      const seededState = state;
+      await updatePayoutNoticeState((current) => current ?? seededState);
+    } catch (error) {
+      console.error("payout-watch: failed to persist seeded state:", error);
+      return json(
+        { error: "state_unavailable" },
+        { status: 503, headers: NO_STORE_HEADERS },
+      );
+    }
+  }
+
+  return json(
+    { configured: true, checked: pending.length, notified, seeded, failed },
+    { headers: NO_STORE_HEADERS },
+  );
+}
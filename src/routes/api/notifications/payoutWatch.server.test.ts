@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { PayoutNoticeState } from "./payouts";
+
+const m = vi.hoisted(() => ({
+  env: { CRON_SECRET: "s3cret" } as Record<string, string | undefined>,
+  claims: [] as unknown[],
+  state: null as PayoutNoticeState | null,
+  /** What this run reads up front, when another run has written since. */
+  stale: null as PayoutNoticeState | null,
+  saved: [] as PayoutNoticeState[],
+  funded: new Set<string>(),
+  csvRows: [] as Array<{ address: string }>,
+  subscribers: [] as Array<{ id: string; fields: Record<string, string> }>,
+  links: {} as Record<string, unknown>,
+  triggered: [] as string[],
+  failOn: null as string | null,
+}));
+
+vi.mock("$lib/utils/claimsManifest", () => ({
+  loadClaimsManifest: async () => [
+    {
+      name: "F",
+      sftTokens: [{ address: "0x1", symbol: "S", claims: m.claims }],
+    },
+  ],
+}));
+vi.mock("$lib/utils/claims", () => ({
+  fetchAndVerifyCSV: async () => m.csvRows,
+}));
+vi.mock("./service", () => ({
+  WALLETS_FIELD: "wallet_addresses",
+  isCronAuthorized: (request: Request) =>
+    !!m.env.CRON_SECRET &&
+    request.headers.get("authorization") === `Bearer ${m.env.CRON_SECRET}`,
+  emailConfig: () => ({
+    provider: { listGroup: async () => m.subscribers },
+    groupId: "alerts",
+  }),
+  payoutTriggerGroupId: () => "trigger",
+  loadPayoutNoticeState: async () => m.stale ?? m.state,
+  updatePayoutNoticeState: async (
+    transition: (state: PayoutNoticeState | null) => PayoutNoticeState,
+  ) => {
+    m.state = transition(m.state);
+    m.saved.push(m.state);
+    return m.state;
+  },
+  isClaimOrderFunded: async (_orderbook: string, orderBytes: string) =>
+    m.funded.has(orderBytes),
+  loadLinkMap: async () => ({ version: 1, links: m.links }),
+  triggerGroupAutomation: async (
+    _provider: unknown,
+    _group: string,
+    id: string,
+  ) => {
+    if (id === m.failOn) throw new Error("ml down");
+    m.triggered.push(id);
+  },
+}));
+
+import { GET } from "./payout-watch/+server";
+
+type Handler = (event: {
+  request: Request;
+  fetch: typeof fetch;
+}) => Promise<Response>;
+
+const run = async (auth = "Bearer s3cret") => {
+  const r = await (GET as unknown as Handler)({
+    request: new Request("http://localhost/api/notifications/payout-watch", {
+      headers: { authorization: auth },
+    }),
+    fetch: vi.fn() as unknown as typeof fetch,
+  });
+  return { status: r.status, body: await r.json() };
+};
+
+const order = (n: string) => ({
+  orderHash: `0x${n.repeat(64)}`,
+  csvLink: `/api/ipfs/${n}`,
+  expectedMerkleRoot: "0x0",
+  expectedContentHash: n,
+  orderBytes: `bytes-${n}`,
+});
+
+const W1 = "0xaaaa000000000000000000000000000000000001";
+const W2 = "0xbbbb000000000000000000000000000000000002";
+
+beforeEach(() => {
+  m.claims = [order("1"), order("2")];
+  m.state = { version: 1, notices: {} };
+  m.stale = null;
+  m.saved = [];
+  m.funded = new Set();
+  m.csvRows = [{ address: W1 }];
+  m.subscribers = [
+    { id: "sub-1", fields: { wallet_addresses: W1 } },
+    { id: "sub-2", fields: { wallet_addresses: W2 } },
+  ];
+  m.links = {};
+  m.triggered = [];
+  m.failOn = null;
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("GET /api/notifications/payout-watch", () => {
+  it("requires the cron secret", async () => {
+    expect((await run("Bearer nope")).status).toBe(401);
+    m.env.CRON_SECRET = undefined;
+    expect((await run()).status).toBe(401);
+    m.env.CRON_SECRET = "s3cret";
+  });
+
+  it("alerts matching subscribers once a distribution is funded, exactly once", async () => {
+    expect((await run()).body.notified).toEqual([]);
+    expect(m.triggered).toEqual([]);
+
+    m.funded.add("bytes-1");
+    const { body } = await run();
+    expect(body.notified).toEqual([
+      { orderHash: order("1").orderHash, subscribers: 1 },
+    ]);
+    expect(m.triggered).toEqual(["sub-1"]);
+
+    await run();
+    expect(m.triggered).toEqual(["sub-1"]);
+    expect((await run()).body.checked).toBe(1);
+  });
+
+  it("resumes a half-finished distribution without repeating anyone", async () => {
+    m.csvRows = [{ address: W1 }, { address: W2 }];
+    m.funded.add("bytes-2");
+    m.failOn = "sub-2";
+    const first = await run();
+    expect(first.body.failed).toEqual([order("2").orderHash]);
+    expect(m.triggered).toEqual(["sub-1"]);
+
+    m.failOn = null;
+    await run();
+    expect(m.triggered).toEqual(["sub-1", "sub-2"]);
+  });
+
+  it("skips subscribers an overlapping run has already reserved", async () => {
+    m.funded.add("bytes-1");
+    m.stale = { version: 1, notices: {} };
+    m.state = {
+      version: 1,
+      notices: {
+        [order("1").orderHash]: {
+          fundedAt: 1,
+          subscriberIds: ["sub-1"],
+          completedAt: null,
+        },
+      },
+    };
+    const { body } = await run();
+    expect(m.triggered).toEqual([]);
+    expect(body.notified).toEqual([
+      { orderHash: order("1").orderHash, subscribers: 1 },
+    ]);
+    expect(m.state.notices[order("1").orderHash].completedAt).not.toBeNull();
+  });
+
+  it("leaves out wallets whose preferences turn payout alerts off", async () => {
+    m.csvRows = [{ address: W1 }, { address: W2 }];
+    m.links = {
+      [W2]: {
+        subscriberId: "sub-2",
+        emailMasked: "b•••@e•••.com",
+        updatedAt: 1,
+        preferences: {
+          payouts: false,
+          reminders: true,
+          productionReports: false,
+          releases: [],
+        },
+      },
+    };
+    m.funded.add("bytes-1");
+    await run();
+    expect(m.triggered).toEqual(["sub-1"]);
+  });
+
+  it("records already-funded orders on the first run without alerting", async () => {
+    m.state = null;
+    m.funded.add("bytes-1");
+    const { body } = await run();
+    expect(body.seeded).toEqual([order("1").orderHash]);
+    expect(m.triggered).toEqual([]);
+    expect(m.saved).toHaveLength(1);
+
+    m.funded.add("bytes-2");
+    await run();
+    expect(m.triggered).toEqual(["sub-1"]);
+  });
+});
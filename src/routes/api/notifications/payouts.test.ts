@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyNotice,
+  coercePayoutNoticeState,
+  completeNotice,
+  emptyPayoutNoticeState,
+  fundedAt,
+  isNoticeComplete,
+  matchSubscribers,
+  notifiedSubscriberIds,
+  releaseSubscriber,
+  reserveSubscriber,
+} from "./payouts";
+
+const ORDER = `0x${"AB".repeat(32)}`;
+const W1 = "0xaaaa000000000000000000000000000000000001";
+const W2 = "0xbbbb000000000000000000000000000000000002";
+
+describe("payout notice state (each distribution notifies once)", () => {
+  it("tracks progress per lowercase order hash without mutating", () => {
+    const empty = emptyPayoutNoticeState();
+    const partial = applyNotice(empty, ORDER, {
+      fundedAt: 1,
+      subscriberIds: ["sub-1"],
+      completedAt: null,
+    });
+    expect(empty.notices).toEqual({});
+    expect(isNoticeComplete(partial, ORDER)).toBe(false);
+    expect([...notifiedSubscriberIds(partial, ORDER.toLowerCase())]).toEqual([
+      "sub-1",
+    ]);
+
+    const done = applyNotice(partial, ORDER, {
+      fundedAt: 1,
+      subscriberIds: ["sub-1", "sub-2"],
+      completedAt: 5,
+    });
+    expect(isNoticeComplete(done, ORDER)).toBe(true);
+    expect(notifiedSubscriberIds(done, `0x${"cd".repeat(32)}`).size).toBe(0);
+    expect(fundedAt(done, ORDER.toLowerCase())).toBe(1);
+    expect(fundedAt(done, `0x${"cd".repeat(32)}`)).toBeNull();
+  });
+
+  it("treats a missing or corrupt blob as no state (first run)", () => {
+    const valid = { version: 1, notices: {} };
+    expect(coercePayoutNoticeState(valid)).toBe(valid);
+    expect(coercePayoutNoticeState(null)).toBeNull();
+    expect(coercePayoutNoticeState({ version: 2, notices: {} })).toBeNull();
+  });
+
+  it("reserves subscribers before sending and releases failed ones", () => {
+    let state = reserveSubscriber(emptyPayoutNoticeState(), ORDER, "sub-1", 1);
+    state = reserveSubscriber(state, ORDER, "sub-2", 9);
+    expect(fundedAt(state, ORDER)).toBe(1);
+    expect([...notifiedSubscriberIds(state, ORDER)]).toEqual([
+      "sub-1",
+      "sub-2",
+    ]);
+
+    state = releaseSubscriber(state, ORDER, "sub-2");
+    expect([...notifiedSubscriberIds(state, ORDER)]).toEqual(["sub-1"]);
+    expect(isNoticeComplete(state, ORDER)).toBe(false);
+  });
+
+  it("completes an order only when every match is recorded", () => {
+    const state = reserveSubscriber(
+      emptyPayoutNoticeState(),
+      ORDER,
+      "sub-1",
+      1,
+    );
+    expect(
+      isNoticeComplete(
+        completeNotice(state, ORDER, 1, ["sub-1", "sub-2"], 5),
+        ORDER,
+      ),
+    ).toBe(false);
+    expect(
+      isNoticeComplete(completeNotice(state, ORDER, 1, ["sub-1"], 5), ORDER),
+    ).toBe(true);
+  });
+});
+
+describe("matchSubscribers", () => {
+  it("keeps subscribers with any linked wallet in the distribution", () => {
+    const subs = [
+      { id: "a", fields: { wallet_addresses: `${W1.toUpperCase()}, junk` } },
+      { id: "b", fields: { wallet_addresses: W2 } },
+      { id: "c", fields: { wallet_addresses: null } },
+      { id: "d" },
+    ];
+    expect(
+      matchSubscribers(subs, new Set([W1]), "wallet_addresses").map(
+        (s) => s.id,
+      ),
+    ).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Pure helpers for the funded-payout watcher (./payout-watch).
+ *
+ * The watcher remembers, per claim order, which payout-alert subscribers it has
+ * already triggered. That record is what makes it idempotent: a distribution is
+ * announced once, a run that dies half-way resumes with the subscribers it did
+ * not reach, and orders that were already funded before the watcher first ran
+ * are recorded as `seeded` instead of being announced retroactively. Like the
+ * link map it holds no PII — MailerLite subscriber ids only.
+ */
+import { parseWalletsField } from "./lib";
+
+export interface PayoutNotice {
+  /** When the watcher first saw the order funded (ms): the payout's age. */
+  fundedAt: number;
+  /** Subscribers whose payout alert has been triggered for this order. */
+  subscriberIds: string[];
+  /** Set once every matching subscriber was reached; the order is then done. */
+  completedAt: number | null;
+  /** Already funded when the watcher first ran; recorded, never announced. */
+  seeded?: boolean;
+}
+
+export interface PayoutNoticeState {
+  version: 1;
+  /** Keyed by lowercase order hash. */
+  notices: Record<string, PayoutNotice>;
+}
+
+export function emptyPayoutNoticeState(): PayoutNoticeState {
+  return { version: 1, notices: {} };
+}
+
+/** Normalise an unknown blob payload; null when there is no usable state. */
+export function coercePayoutNoticeState(
+  data: unknown,
+): PayoutNoticeState | null {
+  if (
+    data &&
+    typeof data === "object" &&
+    (data as PayoutNoticeState).version === 1 &&
+    typeof (data as PayoutNoticeState).notices === "object" &&
+    (data as PayoutNoticeState).notices !== null
+  ) {
+    return data as PayoutNoticeState;
+  }
+  return null;
+}
+
+export function isNoticeComplete(
+  state: PayoutNoticeState,
+  orderHash: string,
+): boolean {
+  return !!state.notices[orderHash.toLowerCase()]?.completedAt;
+}
+
+/** When an order was first seen funded, or null if the watcher never saw it. */
+export function fundedAt(
+  state: PayoutNoticeState,
+  orderHash: string,
+): number | null {
+  return state.notices[orderHash.toLowerCase()]?.fundedAt ?? null;
+}
+
+/** Subscribers already triggered for an order (empty for a new one). */
+export function notifiedSubscriberIds(
+  state: PayoutNoticeState,
+  orderHash: string,
+): Set<string> {
+  return new Set(state.notices[orderHash.toLowerCase()]?.subscriberIds ?? []);
+}
+
+/** Record progress for an order. Never mutates the input state. */
+export function applyNotice(
+  state: PayoutNoticeState,
+  orderHash: string,
+  notice: PayoutNotice,
+): PayoutNoticeState {
+  return {
+    ...state,
+    notices: { ...state.notices, [orderHash.toLowerCase()]: notice },
+  };
+}
+
+/**
+ * Record a subscriber as triggered before the trigger is sent, so an
+ * overlapping run that reads the state afterwards skips them.
+ */
+export function reserveSubscriber(
+  state: PayoutNoticeState,
+  orderHash: string,
+  subscriberId: string,
+  firstSeen: number,
+): PayoutNoticeState {
+  const notice = state.notices[orderHash.toLowerCase()];
+  return applyNotice(state, orderHash, {
+    fundedAt: notice?.fundedAt ?? firstSeen,
+    subscriberIds: [
+      ...new Set([...(notice?.subscriberIds ?? []), subscriberId]),
+    ],
+    completedAt: notice?.completedAt ?? null,
+  });
+}
+
+/** Undo a reservation whose trigger failed, so a later run retries it. */
+export function releaseSubscriber(
+  state: PayoutNoticeState,
+  orderHash: string,
+  subscriberId: string,
+): PayoutNoticeState {
+  const notice = state.notices[orderHash.toLowerCase()];
+  if (!notice) return state;
+  return applyNotice(state, orderHash, {
+    ...notice,
+    subscriberIds: notice.subscriberIds.filter((id) => id !== subscriberId),
+    completedAt: null,
+  });
+}
+
+/**
+ * Mark an order done once every matching subscriber is recorded. Left open
+ * when one of them is missing, e.g. released by an overlapping run whose
+ * trigger failed.
+ */
+export function completeNotice(
+  state: PayoutNoticeState,
+  orderHash: string,
+  firstSeen: number,
+  subscriberIds: string[],
+  at: number,
+): PayoutNoticeState {
+  const notice = state.notices[orderHash.toLowerCase()];
+  const recorded = new Set(notice?.subscriberIds ?? []);
+  return applyNotice(state, orderHash, {
+    fundedAt: notice?.fundedAt ?? firstSeen,
+    subscriberIds: [...recorded],
+    completedAt:
+      notice?.completedAt ??
+      (subscriberIds.every((id) => recorded.has(id)) ? at : null),
+  });
+}
+
+/**
+ * Subscribers with at least one linked wallet in the distribution — the same
+ * match scripts/build-distribution-audience.mjs makes by hand.
+ */
+export function matchSubscribers<
+  T extends { id: string; fields?: Record<string, string | null> },
+>(subscribers: T[], wallets: Set<string>, walletsField: string): T[] {
+  return subscribers.filter((sub) =>
+    parseWalletsField(sub.fields?.[walletsField]).some((w) => wallets.has(w)),
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * POST /api/notifications/preferences
+ *
+ * Saves a linked wallet's notification preferences. Body:
+ *   { walletAddress, preferences, issuedAt, signature }
+ *
+ * The signature covers the canonical preferences line (same message builder as
+ * link/unlink), so only the wallet owner can change what it is sent. Flow:
+ *   1. validate preferences (release topics limited to known energy fields)
+ *   2. verify signature + freshness
+ *   3. store them on the wallet's link in the link map
+ *   4. mirror the subscriber's effective preferences (every wallet on that
+ *      email) into MailerLite custom fields
+ */
+import { json, type RequestEvent } from "@sveltejs/kit";
+import { loadClaimsManifest } from "$lib/utils/claimsManifest";
+import { normalizePreferences } from "$lib/utils/notificationPreferences";
+import { isIssuedAtFresh } from "$lib/utils/payoutAlertsMessage";
+import { applyPreferences, type WalletLink } from "../lib";
+import {
+  emailConfig,
+  syncSubscriberPreferences,
+  updateLinkMap,
+  verifyWalletSignature,
+} from "../service";
+
+export async function POST({ request, fetch }: RequestEvent) {
+  const config = emailConfig();
+  if (!config) {
+    return json({ error: "notifications_not_configured" }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json();
+    const { walletAddress, issuedAt, signature } = body ?? {};
+    const preferences = normalizePreferences(
+      body?.preferences,
+      (await loadClaimsManifest(fetch)).map((field) => field.name),
+    );
+
+    if (
+      typeof walletAddress !== "string" ||
+      typeof issuedAt !== "string" ||
+      typeof signature !== "string" ||
+      !walletAddress.startsWith("0x") ||
+      !preferences
+    ) {
+      return json({ error: "invalid_request" }, { status: 400 });
+    }
+    if (!isIssuedAtFresh(issuedAt, Date.now())) {
+      return json({ error: "stale_signature" }, { status: 400 });
+    }
+
+    const verified = await verifyWalletSignature(
+      { action: "preferences", walletAddress, preferences, issuedAt },
+      signature,
+    );
+    if (!verified) {
+      return json({ error: "invalid_signature" }, { status: 401 });
+    }
+
+    let link: WalletLink | null = null;
+    const map = await updateLinkMap((current) => {
+      const result = applyPreferences(
+        current,
+        walletAddress,
+        preferences,
+        Date.now(),
+      );
+      link = result.link;
+      return result.map;
+    });
+    // Assigned inside the transition, which control-flow analysis can't see.
+    const saved = link as WalletLink | null;
+    if (!saved) {
+      return json({ error: "not_linked" }, { status: 404 });
+    }
+
+    // The link map drives payout alerts and reminders; the MailerLite fields
+    // feed campaigns (reports, releases). Best-effort, like the old-subscriber
+    // cleanup in ../subscribe — the next save re-syncs.
+    try {
+      await syncSubscriberPreferences(config.provider, saved.subscriberId, map);
+    } catch (error) {
+      console.warn("payout-alerts: preferences sync failed:", error);
+    }
+
+    return json({ saved: true, preferences });
+  } catch (err) {
+    console.error("payout-alerts preferences error:", err);
+    return json({ error: "preferences_failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ReminderState } from "./reminders";
+import { reminderOptOutToken } from "./reminders";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const m = vi.hoisted(() => ({
+  links: {} as Record<string, { subscriberId: string }>,
+  fundedAt: {} as Record<string, number>,
+  reminders: { version: 1, sentAt: {} } as ReminderState,
+  /** What this run reads up front, when another run has written since. */
+  stale: null as ReminderState | null,
+  subscribers: [] as Array<{ id: string; fields: Record<string, string> }>,
+  claims: {} as Record<
+    string,
+    {
+      rows: Array<{ orderHash: string; unclaimedAmount: number }>;
+      error?: boolean;
+    }
+  >,
+  fields: [] as Array<{ id: string; fields: Record<string, string> }>,
+  triggered: [] as string[],
+}));
+
+vi.mock("$lib/services/ClaimsService", () => ({
+  ClaimsService: class {
+    async loadClaimsForWallet(wallet: string) {
+      const { rows, error } = m.claims[wallet] ?? { rows: [] };
+      return {
+        holdings: [{ holdings: rows }],
+        claimHistory: [],
+        totals: {
+          earned: 0,
+          claimed: 0,
+          unclaimed: rows.reduce((sum, r) => sum + r.unclaimedAmount, 0),
+        },
+        hasCsvLoadError: !!error,
+      };
+    }
+  },
+}));
+vi.mock("./service", () => ({
+  isCronAuthorized: (request: Request) =>
+    request.headers.get("authorization") === "Bearer s3cret",
+  emailConfig: () => ({
+    provider: {
+      listGroup: async () => m.subscribers,
+      updateFields: async (id: string, fields: Record<string, string>) => {
+        m.fields.push({ id, fields });
+      },
+    },
+    groupId: "alerts",
+  }),
+  reminderConfig: () => ({
+    groupId: "reminder",
+    signingSecret: "sign",
+    windowDays: 14,
+  }),
+  loadLinkMap: async () => ({ version: 1, links: m.links }),
+  loadPayoutNoticeState: async () => ({
+    version: 1,
+    notices: Object.fromEntries(
+      Object.entries(m.fundedAt).map(([hash, fundedAt]) => [
+        hash,
+        { fundedAt, subscriberIds: [], completedAt: fundedAt },
+      ]),
+    ),
+  }),
+  loadReminderState: async () => m.stale ?? m.reminders,
+  updateReminderState: async (
+    transition: (state: ReminderState) => ReminderState,
+  ) => {
+    m.reminders = transition(m.reminders);
+    return m.reminders;
+  },
+  triggerGroupAutomation: async (
+    _provider: unknown,
+    _group: string,
+    id: string,
+  ) => {
+    m.triggered.push(id);
+  },
+}));
+
+import { GET } from "./reminders/+server";
+
+type Handler = (event: {
+  request: Request;
+  fetch: typeof fetch;
+  url: URL;
+}) => Promise<Response>;
+
+const run = async (auth = "Bearer s3cret") => {
+  const url = new URL("https://app.example/api/notifications/reminders");
+  const r = await (GET as unknown as Handler)({
+    request: new Request(url, { headers: { authorization: auth } }),
+    fetch: vi.fn() as unknown as typeof fetch,
+    url,
+  });
+  return { status: r.status, body: await r.json() };
+};
+
+const OLD = `0x${"1".repeat(64)}`;
+const NEW = `0x${"2".repeat(64)}`;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: 100 * DAY });
+  m.links = {
+    "0xa1": { subscriberId: "sub-1" },
+    "0xa2": { subscriberId: "sub-1" },
+    "0xb1": { subscriberId: "sub-2" },
+  };
+  m.fundedAt = { [OLD]: 80 * DAY, [NEW]: 95 * DAY };
+  m.reminders = { version: 1, sentAt: {} };
+  m.stale = null;
+  m.subscribers = [
+    { id: "sub-1", fields: {} },
+    { id: "sub-2", fields: {} },
+  ];
+  m.claims = {
+    "0xa1": { rows: [{ orderHash: OLD, unclaimedAmount: 10 }] },
+    "0xa2": { rows: [{ orderHash: NEW, unclaimedAmount: 2.5 }] },
+    "0xb1": { rows: [{ orderHash: NEW, unclaimedAmount: 7 }] },
+  };
+  m.fields = [];
+  m.triggered = [];
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  return () => vi.useRealTimers();
+});
+
+describe("GET /api/notifications/reminders", () => {
+  it("requires the cron secret", async () => {
+    expect((await run("Bearer nope")).status).toBe(401);
+  });
+
+  it("reminds subscribers with an overdue payout, totalling every wallet", async () => {
+    const { body } = await run();
+    expect(body.reminded).toEqual(["sub-1"]);
+    expect(m.triggered).toEqual(["sub-1"]);
+
+    const [{ id, fields }] = m.fields;
+    expect(id).toBe("sub-1");
+    expect(fields.unclaimed_total).toBe("US$12.50");
+    expect(fields.claims_url).toBe("https://app.example/claims");
+    const optOut = new URL(fields.reminder_opt_out_url);
+    expect(optOut.pathname).toBe("/api/notifications/reminders/opt-out");
+    expect(optOut.searchParams.get("t")).toBe(
+      reminderOptOutToken("sub-1", "sign"),
+    );
+  });
+
+  it("waits a full window before reminding again", async () => {
+    await run();
+    await run();
+    expect(m.triggered).toEqual(["sub-1"]);
+
+    vi.setSystemTime(114 * DAY);
+    await run();
+    expect(m.triggered).toEqual(["sub-1", "sub-1", "sub-2"]);
+  });
+
+  it("doesn't send a reminder an overlapping run has already recorded", async () => {
+    m.stale = { version: 1, sentAt: {} };
+    m.reminders = { version: 1, sentAt: { "sub-1": 100 * DAY } };
+    const { body } = await run();
+    expect(body.reminded).toEqual([]);
+    expect(m.triggered).toEqual([]);
+  });
+
+  it("skips opted-out subscribers and wallets with untrusted claims", async () => {
+    m.subscribers[0].fields = { payout_reminders: "off" };
+    m.claims["0xb1"] = {
+      rows: [{ orderHash: OLD, unclaimedAmount: 1 }],
+      error: true,
+    };
+    const { body } = await run();
+    expect(body.reminded).toEqual([]);
+    expect(body.failed).toEqual(["sub-2"]);
+    expect(m.triggered).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyReminderSent,
+  coerceReminderState,
+  emptyReminderState,
+  hasOverdueUnclaimed,
+  isReminderDue,
+  reminderOptOutToken,
+  remindersOptedOut,
+  verifyReminderOptOutToken,
+  walletsBySubscriber,
+} from "./reminders";
+
+const DAY = 24 * 60 * 60 * 1000;
+const ORDER = `0x${"ab".repeat(32)}`;
+
+describe("reminder state", () => {
+  it("reminds at most once per window", () => {
+    const empty = emptyReminderState();
+    expect(isReminderDue(empty, "sub-1", 100 * DAY, 14)).toBe(true);
+
+    const sent = applyReminderSent(empty, "sub-1", 100 * DAY);
+    expect(empty.sentAt).toEqual({});
+    expect(isReminderDue(sent, "sub-1", 113 * DAY, 14)).toBe(false);
+    expect(isReminderDue(sent, "sub-1", 114 * DAY, 14)).toBe(true);
+    expect(isReminderDue(sent, "sub-2", 100 * DAY, 14)).toBe(true);
+  });
+
+  it("starts over from a missing or corrupt blob", () => {
+    const valid = { version: 1, sentAt: { a: 1 } };
+    expect(coerceReminderState(valid)).toBe(valid);
+    expect(coerceReminderState(null)).toEqual(emptyReminderState());
+    expect(coerceReminderState({ version: 1, sentAt: null })).toEqual(
+      emptyReminderState(),
+    );
+  });
+});
+
+describe("walletsBySubscriber", () => {
+  it("groups every linked wallet under its subscriber", () => {
+    const link = (subscriberId: string) => ({
+      subscriberId,
+      emailMasked: "a***@example.com",
+      updatedAt: 1,
+    });
+    const grouped = walletsBySubscriber({
+      version: 1,
+      links: { "0x1": link("a"), "0x2": link("b"), "0x3": link("a") },
+    });
+    expect(Object.fromEntries(grouped)).toEqual({
+      a: ["0x1", "0x3"],
+      b: ["0x2"],
+    });
+  });
+
+  it("leaves out wallets that turned reminders off", () => {
+    const grouped = walletsBySubscriber({
+      version: 1,
+      links: {
+        "0x1": { subscriberId: "a", emailMasked: "m", updatedAt: 1 },
+        "0x2": {
+          subscriberId: "a",
+          emailMasked: "m",
+          updatedAt: 1,
+          preferences: {
+            payouts: true,
+            reminders: false,
+            productionReports: false,
+            releases: [],
+          },
+        },
+      },
+    });
+    expect(Object.fromEntries(grouped)).toEqual({ a: ["0x1"] });
+  });
+
+  it("leaves out paused wallets", () => {
+    const grouped = walletsBySubscriber({
+      version: 1,
+      links: {
+        "0x1": { subscriberId: "a", emailMasked: "m", updatedAt: 1 },
+        "0x2": {
+          subscriberId: "b",
+          emailMasked: "m",
+          updatedAt: 1,
+          paused: true,
+        },
+      },
+    });
+    expect(Object.fromEntries(grouped)).toEqual({ a: ["0x1"] });
+  });
+});
+
+describe("hasOverdueUnclaimed", () => {
+  const funded = (hash: string) => (hash === ORDER ? 0 : null);
+
+  it("needs an unclaimed row from an order funded a full window ago", () => {
+    const row = { orderHash: ORDER, unclaimedAmount: "1.5" };
+    expect(hasOverdueUnclaimed([row], funded, 14 * DAY, 14)).toBe(true);
+    expect(hasOverdueUnclaimed([row], funded, 13 * DAY, 14)).toBe(false);
+    expect(
+      hasOverdueUnclaimed(
+        [{ ...row, unclaimedAmount: 0 }],
+        funded,
+        30 * DAY,
+        14,
+      ),
+    ).toBe(false);
+  });
+
+  it("never counts rows whose funding time is unknown", () => {
+    const rows = [
+      { orderHash: `0x${"cd".repeat(32)}`, unclaimedAmount: 5 },
+      { unclaimedAmount: 5 },
+    ];
+    expect(hasOverdueUnclaimed(rows, funded, 365 * DAY, 14)).toBe(false);
+  });
+});
+
+describe("reminder opt-out", () => {
+  it("reads the opt-out field", () => {
+    expect(remindersOptedOut({ payout_reminders: " OFF " })).toBe(true);
+    expect(remindersOptedOut({ payout_reminders: null })).toBe(false);
+    expect(remindersOptedOut(undefined)).toBe(false);
+  });
+
+  it("accepts only the token signed for that subscriber", () => {
+    const token = reminderOptOutToken("sub-1", "secret");
+    expect(verifyReminderOptOutToken("sub-1", token, "secret")).toBe(true);
+    expect(verifyReminderOptOutToken("sub-2", token, "secret")).toBe(false);
+    expect(verifyReminderOptOutToken("sub-1", token, "other")).toBe(false);
+    expect(verifyReminderOptOutToken("sub-1", "short", "secret")).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Pure helpers for unclaimed-payout reminders (./reminders).
+ *
+ * A subscriber is reminded when any of their linked wallets holds a payout
+ * that has sat unclaimed for at least the reminder window, and again at most
+ * once per window after that. Payout age is measured from when the payout
+ * watcher first saw the order funded (./payouts.ts), the same moment the
+ * announcement went out. Reminders are opt-out per subscriber, independently
+ * of payout announcements, through a signed link in the reminder email.
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { LinkMap } from "./lib";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Custom field (type: text) holding "off" once a subscriber opts out. */
+export const REMINDERS_FIELD = "payout_reminders";
+
+export interface ReminderState {
+  version: 1;
+  /** Last reminder sent (ms), keyed by MailerLite subscriber id. */
+  sentAt: Record<string, number>;
+}
+
+export function emptyReminderState(): ReminderState {
+  return { version: 1, sentAt: {} };
+}
+
+/** Normalise an unknown blob payload (tolerates missing/corrupt). */
+export function coerceReminderState(data: unknown): ReminderState {
+  if (
+    data &&
+    typeof data === "object" &&
+    (data as ReminderState).version === 1 &&
+    typeof (data as ReminderState).sentAt === "object" &&
+    (data as ReminderState).sentAt !== null
+  ) {
+    return data as ReminderState;
+  }
+  return emptyReminderState();
+}
+
+export function applyReminderSent(
+  state: ReminderState,
+  subscriberId: string,
+  at: number,
+): ReminderState {
+  return { ...state, sentAt: { ...state.sentAt, [subscriberId]: at } };
+}
+
+/**
+ * Undo a send recorded at `at` whose reminder failed, restoring the previous
+ * send time. Left alone when another run has recorded a newer send since.
+ */
+export function releaseReminder(
+  state: ReminderState,
+  subscriberId: string,
+  at: number,
+  previous: number | undefined,
+): ReminderState {
+  if (state.sentAt[subscriberId] !== at) return state;
+  const sentAt = { ...state.sentAt };
+  if (previous === undefined) delete sentAt[subscriberId];
+  else sentAt[subscriberId] = previous;
+  return { ...state, sentAt };
+}
+
+export function isReminderDue(
+  state: ReminderState,
+  subscriberId: string,
+  now: number,
+  windowDays: number,
+): boolean {
+  const last = state.sentAt[subscriberId];
+  return last === undefined || now - last >= windowDays * DAY_MS;
+}
+
+/**
+ * Linked wallets grouped by subscriber (one email, many wallets), leaving out
+ * paused wallets and those whose saved preferences turn reminders off.
+ */
+export function walletsBySubscriber(map: LinkMap): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const [wallet, link] of Object.entries(map.links)) {
+    if (link.paused || link.preferences?.reminders === false) continue;
+    const wallets = grouped.get(link.subscriberId) ?? [];
+    wallets.push(wallet);
+    grouped.set(link.subscriberId, wallets);
+  }
+  return grouped;
+}
+
+/**
+ * True when at least one unclaimed row is from an order funded `windowDays`
+ * or more ago. Rows whose funding time is unknown never count as overdue.
+ */
+export function hasOverdueUnclaimed(
+  rows: Array<{ orderHash?: string; unclaimedAmount: number | string }>,
+  fundedAt: (orderHash: string) => number | null,
+  now: number,
+  windowDays: number,
+): boolean {
+  return rows.some((row) => {
+    if (!row.orderHash || !(Number(row.unclaimedAmount) > 0)) return false;
+    const funded = fundedAt(row.orderHash);
+    return funded !== null && now - funded >= windowDays * DAY_MS;
+  });
+}
+
+export function remindersOptedOut(
+  fields: Record<string, string | null> | undefined,
+): boolean {
+  return fields?.[REMINDERS_FIELD]?.trim().toLowerCase() === "off";
+}
+
+/** Opt-out link token: HMAC of the subscriber id, so links can't be forged. */
+export function reminderOptOutToken(
+  subscriberId: string,
+  secret: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`payout-reminders-opt-out:${subscriberId}`)
+    .digest("hex");
+}
+
+export function verifyReminderOptOutToken(
+  subscriberId: string,
+  token: string,
+  secret: string,
+): boolean {
+  const expected = Buffer.from(reminderOptOutToken(subscriberId, secret));
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,190 @@
+/**
+ * GET /api/notifications/reminders  (Vercel cron, `Authorization: Bearer $CRON_SECRET`)
+ *
+ * Reminds subscribers about payouts they have left unclaimed. For every
+ * subscriber in the link map who has not opted out and was not reminded within
+ * the window, each linked wallet's claims are computed server-side (the same
+ * ClaimsService load as /api/claims/<wallet>, over the cached Context events).
+ * If any unclaimed payout was funded at least `windowDays` ago, the subscriber's
+ * reminder fields (total unclaimed, claims link, signed opt-out link) are set
+ * and they are added to the reminder trigger group, whose MailerLite
+ * automation sends the email. The send time is recorded (compare-and-swap)
+ * before each reminder goes out and restored if it fails, so overlapping or
+ * retried runs don't double-send (see ../reminders.ts).
+ */
+import { json, type RequestEvent } from "@sveltejs/kit";
+import { ClaimsService } from "$lib/services/ClaimsService";
+import { formatCurrency } from "$lib/utils/formatters";
+import {
+  emailConfig,
+  isCronAuthorized,
+  loadLinkMap,
+  loadPayoutNoticeState,
+  loadReminderState,
+  reminderConfig,
+  triggerGroupAutomation,
+  updateReminderState,
+} from "../service";
+import type { LinkMap } from "../lib";
+import { fundedAt, type PayoutNoticeState } from "../payouts";
+import {
+  applyReminderSent,
+  hasOverdueUnclaimed,
+  isReminderDue,
+  releaseReminder,
+  reminderOptOutToken,
+  remindersOptedOut,
+  walletsBySubscriber,
+  type ReminderState,
+} from "../reminders";
+
+const NO_STORE_HEADERS = { "Cache-Control": "no-store" } as const;
+
+export async function GET({ request, fetch, url }: RequestEvent) {
+  if (!isCronAuthorized(request)) {
+    return json(
+      { error: "unauthorized" },
+      { status: 401, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const config = emailConfig();
+  const reminders = reminderConfig();
+  if (!config || !reminders) {
+    return json({ configured: false }, { headers: NO_STORE_HEADERS });
+  }
+
+  let linkMap: LinkMap;
+  let notices: PayoutNoticeState | null;
+  let state: ReminderState;
+  try {
+    [linkMap, notices, state] = await Promise.all([
+      loadLinkMap(),
+      loadPayoutNoticeState(),
+      loadReminderState(),
+    ]);
+  } catch (error) {
+    console.error("reminders: state unreadable:", error);
+    return json(
+      { error: "state_unavailable" },
+      { status: 503, headers: NO_STORE_HEADERS },
+    );
+  }
+  // Payout age comes from the payout watcher; until it has run, nothing is overdue.
+  if (!notices) {
+    return json(
+      { configured: true, checked: 0, reminded: [], failed: [] },
+      { headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const now = Date.now();
+  const due = [...walletsBySubscriber(linkMap)].filter(([subscriberId]) =>
+    isReminderDue(state, subscriberId, now, reminders.windowDays),
+  );
+
+  const reminded: string[] = [];
+  const failed: string[] = [];
+  if (due.length === 0) {
+    return json(
+      { configured: true, checked: 0, reminded, failed },
+      { headers: NO_STORE_HEADERS },
+    );
+  }
+
+  // Opt-outs live on the subscriber record; unsubscribed people drop out here too.
+  let subscribers;
+  try {
+    subscribers = new Map(
+      (await config.provider.listGroup(config.groupId)).map((sub) => [
+        sub.id,
+        sub,
+      ]),
+    );
+  } catch (error) {
+    console.error("reminders: failed to list subscribers:", error);
+    return json(
+      { error: "mailerlite_unavailable" },
+      { status: 502, headers: NO_STORE_HEADERS },
+    );
+  }
+
+  const claimsService = new ClaimsService(fetch);
+  for (const [subscriberId, wallets] of due) {
+    const subscriber = subscribers.get(subscriberId);
+    if (!subscriber || remindersOptedOut(subscriber.fields)) continue;
+
+    try {
+      let overdue = false;
+      let total = 0;
+      // Sequential on purpose: every load shares the same cached Context scan.
+      for (const wallet of wallets) {
+        const result = await claimsService.loadClaimsForWallet(wallet);
+        // Claimed state can't be trusted; never remind off a partial load.
+        if (result.hasCsvLoadError) throw new Error(`claims load ${wallet}`);
+        const rows = result.holdings.flatMap((group) => group.holdings);
+        overdue ||= hasOverdueUnclaimed(
+          rows,
+          (orderHash) => fundedAt(notices, orderHash),
+          now,
+          reminders.windowDays,
+        );
+        total += result.totals.unclaimed;
+      }
+      if (!overdue) continue;
+
+      // Reserve against the freshest state; another run may have sent already.
+      let reserved = false;
+      let previous: number | undefined;
+      await updateReminderState((current) => {
+        previous = current.sentAt[subscriberId];
+        reserved = isReminderDue(
+          current,
+          subscriberId,
+          now,
+          reminders.windowDays,
+        );
+        return reserved
+          ? applyReminderSent(current, subscriberId, now)
+          : current;
+      });
+      if (!reserved) continue;
+
+      const optOut = new URL(
+        "/api/notifications/reminders/opt-out",
+        url.origin,
+      );
+      optOut.searchParams.set("s", subscriberId);
+      optOut.searchParams.set(
+        "t",
+        reminderOptOutToken(subscriberId, reminders.signingSecret),
+      );
+      try {
+        await config.provider.updateFields(subscriberId, {
+          unclaimed_total: formatCurrency(total),
+          claims_url: `${url.origin}/claims`,
+          reminder_opt_out_url: optOut.toString(),
+        });
+        await triggerGroupAutomation(
+          config.provider,
+          reminders.groupId,
+          subscriberId,
+        );
+      } catch (error) {
+        await updateReminderState((current) =>
+          releaseReminder(current, subscriberId, now, previous),
+        );
+        throw error;
+      }
+      reminded.push(subscriberId);
+    } catch (error) {
+      console.warn(`reminders: ${subscriberId} not processed:`, error);
+      failed.push(subscriberId);
+    }
+  }
+
+  return json(
+    { configured: true, checked: due.length, reminded, failed },
+    { headers: NO_STORE_HEADERS },
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * GET/POST /api/notifications/reminders/opt-out?s=<subscriberId>&t=<token>
+ *
+ * The opt-out link in unclaimed-payout reminder emails. `t` is an HMAC of the
+ * subscriber id (../../reminders.ts), so the link only opts out its own
+ * recipient. GET renders a confirm button and POST applies it: mail scanners
+ * prefetch links, and a bare GET would opt people out without them clicking.
+ *
+ * Only reminders stop; payout announcements and the MailerLite subscription
+ * are untouched (MailerLite's own unsubscribe link covers everything). The
+ * subscriber's wallets get reminders turned off in their saved preferences
+ * too, so the preferences panel shows the same thing.
+ */
+import type { RequestEvent } from "@sveltejs/kit";
+import type { EmailProvider } from "../../email";
+import { applyRemindersOff } from "../../lib";
+import { REMINDERS_FIELD, verifyReminderOptOutToken } from "../../reminders";
+import { emailConfig, reminderConfig, updateLinkMap } from "../../service";
+
+const HTML_HEADERS = {
+  "Content-Type": "text/html; charset=utf-8",
+  "Cache-Control": "no-store",
+} as const;
+
+function page(body: string, status = 200): Response {
+  return new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Payout reminders</title></head><body style="font-family: sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem">${body}</body></html>`,
+    { status, headers: HTML_HEADERS },
+  );
+}
+
+/** The recipient when the link is genuine, otherwise an error page. */
+function verify(
+  url: URL,
+): { provider: EmailProvider; subscriberId: string } | Response {
+  const config = emailConfig();
+  const reminders = reminderConfig();
+  if (!config || !reminders) {
+    return page("<p>Payout reminders are not available right now.</p>", 503);
+  }
+  const subscriberId = url.searchParams.get("s") ?? "";
+  const token = url.searchParams.get("t") ?? "";
+  if (
+    !subscriberId ||
+    !verifyReminderOptOutToken(subscriberId, token, reminders.signingSecret)
+  ) {
+    return page("<p>This opt-out link is invalid or incomplete.</p>", 400);
+  }
+  return { provider: config.provider, subscriberId };
+}
+
+export function GET({ url }: RequestEvent) {
+  const verified = verify(url);
+  if (verified instanceof Response) return verified;
+  return page(
+    `<p>Stop emails reminding you about unclaimed payouts? You'll still be told when new payouts are funded.</p><form method="POST"><button type="submit">Stop reminders</button></form>`,
+  );
+}
+
+export async function POST({ url }: RequestEvent) {
+  const verified = verify(url);
+  if (verified instanceof Response) return verified;
+  try {
+    await verified.provider.updateFields(verified.subscriberId, {
+      [REMINDERS_FIELD]: "off",
+    });
+    await updateLinkMap((map) =>
+      applyRemindersOff(map, verified.subscriberId, Date.now()),
+    );
+  } catch (error) {
+    console.error("reminders opt-out failed:", error);
+    return page("<p>Something went wrong. Please try again later.</p>", 502);
+  }
+  return page(
+    "<p>Done — you won't get unclaimed payout reminders any more.</p>",
+  );
+}
@@ -1,6 +1,7 @@
 /**
- * IO layer for the payout-alerts notification routes: MailerLite API client,
- * Blob-backed wallet→subscriber link map, and wallet-signature verification.
+ * IO layer for the payout-alerts notification routes: email provider selection
+ * (./email.ts), Blob-backed wallet→subscriber link map, and wallet-signature
+ * verification.
  *
  * MailerLite is the system of record (email, opt-in state, unsubscribes — its
  * unsubscribe links keep working regardless of anything stored here). The Blob
@@ -8,27 +9,108 @@
  * "which subscriber is linked to wallet 0xabc?" needs a local index. It holds
  * no raw emails — see ./lib.ts.
  */
-import { put, head, type HeadBlobResult } from "@vercel/blob";
 import { env } from "$env/dynamic/private";
-import { createPublicClient, http } from "viem";
+import { createPublicClient, http, type Abi } from "viem";
 import { base } from "viem/chains";
+import orderbookV6Abi from "$lib/abi/orderbook-v6.json";
+import { casJson, getJson, storage } from "$lib/server/storage";
+import { amount18FromFloatHex } from "$lib/utils/float";
+import { decodeOrderBytes } from "$lib/utils/orderbook";
 import {
   buildPayoutAlertsMessage,
   type PayoutAlertsMessageFields,
 } from "$lib/utils/payoutAlertsMessage";
-import { coerceLinkMap, type LinkMap } from "./lib";
+import { memoryEmailProvider, type EmailProvider } from "./email";
+import {
+  coerceLinkMap,
+  preferenceFields,
+  subscriberPreferences,
+  type LinkMap,
+} from "./lib";
+import { mailerliteProvider } from "./mailerlite";
+import { coercePayoutNoticeState, type PayoutNoticeState } from "./payouts";
+import { coerceReminderState, type ReminderState } from "./reminders";
 
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
 
-/** Dynamic (runtime) env so builds don't require the vars and the feature can
- *  report "not configured" cleanly instead of failing the whole deploy. */
-export function mailerliteConfig(): { apiKey: string; groupId: string } | null {
+// One per file path, so local state survives across requests on an instance.
+const localProviders = new Map<string, EmailProvider>();
+
+/**
+ * Dynamic (runtime) env so builds don't require the vars and the feature can
+ * report "not configured" cleanly instead of failing the whole deploy.
+ *
+ * PRIVATE_EMAIL_PROVIDER picks the backend: "mailerlite" (default; needs the
+ * API key and group id) or "local" — no credentials, in memory, or in the
+ * JSON file at PRIVATE_EMAIL_PROVIDER_FILE when set.
+ */
+export function emailConfig(): {
+  provider: EmailProvider;
+  groupId: string;
+} | null {
+  if (env.PRIVATE_EMAIL_PROVIDER === "local") {
+    const filePath = env.PRIVATE_EMAIL_PROVIDER_FILE || "";
+    let provider = localProviders.get(filePath);
+    if (!provider) {
+      provider = memoryEmailProvider({ filePath: filePath || undefined });
+      localProviders.set(filePath, provider);
+    }
+    return {
+      provider,
+      groupId: env.PRIVATE_MAILERLITE_GROUP_ID || "payout-alerts",
+    };
+  }
   const apiKey = env.PRIVATE_MAILERLITE_API_KEY;
   const groupId = env.PRIVATE_MAILERLITE_GROUP_ID;
   if (!apiKey || !groupId) return null;
-  return { apiKey, groupId };
+  return { provider: mailerliteProvider(apiKey), groupId };
+}
+
+/**
+ * Standing group whose MailerLite automation ("subscriber joins group") sends
+ * the payout-funded email. Optional: without it the watcher is disabled.
+ */
+export function payoutTriggerGroupId(): string | null {
+  return env.PRIVATE_MAILERLITE_PAYOUT_GROUP_ID || null;
+}
+
+/**
+ * Unclaimed-payout reminders: a trigger group whose automation sends the
+ * reminder, the HMAC secret for opt-out links, and the reminder window in days
+ * (default 14). Null (feature off) unless the group and secret are set.
+ */
+export function reminderConfig(): {
+  groupId: string;
+  signingSecret: string;
+  windowDays: number;
+} | null {
+  const groupId = env.PRIVATE_MAILERLITE_REMINDER_GROUP_ID;
+  const signingSecret = env.PRIVATE_NOTIFICATIONS_SIGNING_SECRET;
+  if (!groupId || !signingSecret) return null;
+  const days = Number(env.PRIVATE_PAYOUT_REMINDER_DAYS);
+  return {
+    groupId,
+    signingSecret,
+    windowDays: Number.isFinite(days) && days > 0 ? days : 14,
+  };
+}
+
+/** Vercel cron requests carry `Authorization: Bearer $CRON_SECRET`. */
+export function isCronAuthorized(request: Request): boolean {
+  const secret = env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+function baseClient() {
+  const rpcUrl =
+    env.PRIVATE_BASE_RPC_URL ||
+    (env.PUBLIC_ALCHEMY_API_KEY
+      ? `https://base-mainnet.g.alchemy.com/v2/${env.PUBLIC_ALCHEMY_API_KEY}`
+      : undefined);
+  return createPublicClient({ chain: base, transport: http(rpcUrl) });
 }
 
 // ---------------------------------------------------------------------------
@@ -44,12 +126,7 @@ export async function verifyWalletSignature(
   fields: PayoutAlertsMessageFields,
   signature: string,
 ): Promise<boolean> {
-  const rpcUrl =
-    env.PRIVATE_BASE_RPC_URL ||
-    (env.PUBLIC_ALCHEMY_API_KEY
-      ? `https://base-mainnet.g.alchemy.com/v2/${env.PUBLIC_ALCHEMY_API_KEY}`
-      : undefined);
-  const client = createPublicClient({ chain: base, transport: http(rpcUrl) });
+  const client = baseClient();
   try {
     return await client.verifyMessage({
       address: fields.walletAddress as `0x${string}`,
@@ -69,180 +146,224 @@ const LINK_MAP_BLOB_KEY = "payout-alerts-links.json";
 
 let linkMapMem: LinkMap | null = null;
 
-// Serialise read-modify-write cycles per instance so two overlapping subscribes
-// can't clobber each other's map update. (Cross-instance races remain possible
-// but harmless at this traffic level: the map self-heals on the next write, and
-// MailerLite — the system of record — is updated independently of the map.)
+/** Attempts at a contended link-map write before the request fails. */
+const LINK_MAP_WRITE_ATTEMPTS = 5;
+
+// Serialise read-modify-write cycles per instance so overlapping requests on
+// one instance queue up instead of conflicting. Across instances, writes are
+// compare-and-swap on the stored etag (see updateLinkMap).
 let writeQueue: Promise<unknown> = Promise.resolve();
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export async function loadLinkMap(): Promise<LinkMap> {
   if (linkMapMem) return linkMapMem;
-  return fetchLinkMapFromBlob();
+  return (await fetchLinkMapFromBlob()).map;
 }
 
 /**
- * Fetch the link map fresh from Blob, bypassing the in-memory short-circuit,
- * and update `linkMapMem` to the result. Used by `updateLinkMap` so each write
- * transitions off the freshest persisted state rather than a possibly-stale
- * in-memory copy — otherwise a warm instance that raced another instance's
- * write would base its transition on stale data and clobber that write when it
- * overwrites the whole blob.
+ * Fetch the link map fresh from storage, bypassing the in-memory short-circuit,
+ * and update `linkMapMem` to the result. The etag (null when the map doesn't
+ * exist yet, or couldn't be read) is what `updateLinkMap` swaps against.
  */
-async function fetchLinkMapFromBlob(): Promise<LinkMap> {
+async function fetchLinkMapFromBlob(): Promise<{
+  map: LinkMap;
+  etag: string | null;
+}> {
   try {
-    const meta: HeadBlobResult | null = await head(LINK_MAP_BLOB_KEY).catch(
-      () => null,
-    );
-    if (meta?.url) {
-      const res = await fetch(meta.url);
-      if (res.ok) {
-        linkMapMem = coerceLinkMap(await res.json());
-        return linkMapMem;
-      }
+    const stored = await getJson<unknown>(storage(), LINK_MAP_BLOB_KEY);
+    if (stored) {
+      linkMapMem = coerceLinkMap(stored.value);
+      return { map: linkMapMem, etag: stored.etag };
     }
   } catch {
     // fall through to empty
   }
   linkMapMem = coerceLinkMap(null);
-  return linkMapMem;
+  return { map: linkMapMem, etag: null };
 }
 
-/** Apply a transition to the freshest map state and persist the result. */
+/**
+ * Apply a transition to the freshest map state and persist the result.
+ *
+ * The write only lands if the stored map is still the version the transition
+ * ran on; when another instance wrote in between, re-read and re-apply. So
+ * `transition` may run more than once: keep it pure apart from capturing
+ * results in the caller's locals (the last run wins). Throws after
+ * LINK_MAP_WRITE_ATTEMPTS conflicts. A failing storage backend (e.g. a preview
+ * without a Blob token) is logged and the in-memory map still serves this
+ * instance, as before.
+ */
 export async function updateLinkMap(
   transition: (map: LinkMap) => LinkMap,
 ): Promise<LinkMap> {
   const run = writeQueue.then(async () => {
-    // Re-read from Blob (not the in-memory short-circuit) immediately before
-    // applying the transition, so this write is based on the freshest
-    // persisted state even if another instance wrote since our last read.
-    const current = await fetchLinkMapFromBlob();
-    const next = transition(current);
-    linkMapMem = next;
-    try {
-      await put(LINK_MAP_BLOB_KEY, JSON.stringify(next), {
-        access: "public",
-        addRandomSuffix: false,
-        contentType: "application/json",
-      });
-    } catch (error) {
-      console.warn("payout-alerts: failed to persist link map:", error);
-      // In-memory state still serves this instance.
+    for (let attempt = 1; ; attempt++) {
+      const { map: current, etag } = await fetchLinkMapFromBlob();
+      const next = transition(current);
+      let written: string | null;
+      try {
+        written = await casJson(storage(), LINK_MAP_BLOB_KEY, etag, next);
+      } catch (error) {
+        console.warn("payout-alerts: failed to persist link map:", error);
+        linkMapMem = next;
+        return next;
+      }
+      if (written !== null) {
+        linkMapMem = next;
+        return next;
+      }
+      if (attempt >= LINK_MAP_WRITE_ATTEMPTS) {
+        throw new Error("payout-alerts: link map write kept conflicting");
+      }
+      // Jittered backoff so racing instances don't retry in lockstep.
+      await sleep(Math.random() * 50 * 2 ** attempt);
     }
-    return next;
   });
   writeQueue = run.catch(() => {});
   return run;
 }
 
 // ---------------------------------------------------------------------------
-// MailerLite client (connect.mailerlite.com "new" API)
+// Blob-backed watcher state (payout notices, reminder send times)
 // ---------------------------------------------------------------------------
 
-const ML_BASE = "https://connect.mailerlite.com/api";
+const PAYOUT_NOTICES_BLOB_KEY = "payout-alerts-notices.json";
+const REMINDERS_BLOB_KEY = "payout-alerts-reminders.json";
 
-/** Custom field (type: text) that must exist in the MailerLite account. */
-export const WALLETS_FIELD = "wallet_addresses";
+/** Attempts at a contended watcher-state write before the run gives up. */
+const STATE_WRITE_ATTEMPTS = 5;
 
-export interface MlSubscriber {
-  id: string;
-  email: string;
-  fields?: Record<string, string | null>;
-}
-
-async function mlRequest(
-  apiKey: string,
-  method: string,
-  path: string,
-  body?: unknown,
-): Promise<{ status: number; json: unknown }> {
-  const res = await fetch(`${ML_BASE}${path}`, {
-    method,
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: body === undefined ? undefined : JSON.stringify(body),
-  });
-  let json: unknown = null;
-  try {
-    json = await res.json();
-  } catch {
-    // 204s and some errors have no body
+/**
+ * Read-modify-write a watcher state blob with compare-and-swap, re-reading and
+ * re-applying `transition` when another run wrote in between (the pattern
+ * `updateLinkMap` uses). Unlike the link map, storage failures throw: the
+ * watchers must not send on state they couldn't record.
+ */
+async function updateStateBlob<S, T extends S>(
+  key: string,
+  coerce: (data: unknown) => S,
+  transition: (current: S) => T,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const stored = await getJson<unknown>(storage(), key);
+    const next = transition(coerce(stored?.value ?? null));
+    if ((await casJson(storage(), key, stored?.etag ?? null, next)) !== null) {
+      return next;
+    }
+    if (attempt >= STATE_WRITE_ATTEMPTS) {
+      throw new Error(`payout-alerts: ${key} write kept conflicting`);
+    }
+    await sleep(Math.random() * 50 * 2 ** attempt);
   }
-  return { status: res.status, json };
 }
 
-function subscriberFrom(json: unknown): MlSubscriber | null {
-  const data = (json as { data?: MlSubscriber } | null)?.data;
-  if (!data?.id || !data?.email) return null;
-  return data;
+/**
+ * Null when the watcher has never persisted state (first run) or the blob is
+ * unusable. Throws on a failed read: guessing "empty" there would re-announce
+ * every funded distribution.
+ */
+export async function loadPayoutNoticeState(): Promise<PayoutNoticeState | null> {
+  const stored = await getJson<unknown>(storage(), PAYOUT_NOTICES_BLOB_KEY);
+  return stored ? coercePayoutNoticeState(stored.value) : null;
 }
 
-/** Fetch by email or id; null when not found. */
-export async function getSubscriber(
-  apiKey: string,
-  emailOrId: string,
-): Promise<MlSubscriber | null> {
-  const { status, json } = await mlRequest(
-    apiKey,
-    "GET",
-    `/subscribers/${encodeURIComponent(emailOrId)}`,
+/**
+ * Apply `transition` to the freshest notice state (null before the first
+ * run) and persist it. `transition` may run more than once; capture results
+ * in the caller's locals (the last run wins).
+ */
+export function updatePayoutNoticeState(
+  transition: (state: PayoutNoticeState | null) => PayoutNoticeState,
+): Promise<PayoutNoticeState> {
+  return updateStateBlob(
+    PAYOUT_NOTICES_BLOB_KEY,
+    coercePayoutNoticeState,
+    transition,
   );
-  if (status === 404) return null;
-  if (status >= 400) throw new Error(`MailerLite GET subscriber ${status}`);
-  return subscriberFrom(json);
 }
 
+export async function loadReminderState(): Promise<ReminderState> {
+  const stored = await getJson<unknown>(storage(), REMINDERS_BLOB_KEY);
+  return coerceReminderState(stored?.value ?? null);
+}
+
+/** As updatePayoutNoticeState, for the reminder send times. */
+export function updateReminderState(
+  transition: (state: ReminderState) => ReminderState,
+): Promise<ReminderState> {
+  return updateStateBlob(REMINDERS_BLOB_KEY, coerceReminderState, transition);
+}
+
+// ---------------------------------------------------------------------------
+// Claim order funding (OrderBook v6 vault balances)
+// ---------------------------------------------------------------------------
+
 /**
- * Create-or-update a subscriber (the endpoint upserts on existing email),
- * setting the wallets field and attaching the payout-alerts group.
+ * True once any output vault of a claim order holds a balance. Claim orders
+ * are deployed empty and funded later, so this is the "payout is live" edge.
  */
-export async function upsertSubscriber(
-  apiKey: string,
-  groupId: string,
-  email: string,
-  walletsFieldValue: string,
-): Promise<MlSubscriber> {
-  const { status, json } = await mlRequest(apiKey, "POST", "/subscribers", {
-    email,
-    fields: { [WALLETS_FIELD]: walletsFieldValue },
-    groups: [groupId],
-  });
-  if (status >= 400) throw new Error(`MailerLite upsert ${status}`);
-  const sub = subscriberFrom(json);
-  if (!sub) throw new Error("MailerLite upsert: malformed response");
-  return sub;
+export async function isClaimOrderFunded(
+  orderbook: string,
+  orderBytes: string,
+): Promise<boolean> {
+  const order = decodeOrderBytes(orderBytes);
+  const client = baseClient();
+  for (const io of order.validOutputs) {
+    const balance = await client.readContract({
+      address: orderbook as `0x${string}`,
+      abi: orderbookV6Abi as Abi,
+      functionName: "vaultBalance2",
+      args: [order.owner, io.token, io.vaultId],
+    });
+    if (amount18FromFloatHex(balance as string) > 0n) return true;
+  }
+  return false;
 }
 
+// ---------------------------------------------------------------------------
+// Email provider operations
+// ---------------------------------------------------------------------------
+
+/** Custom field (type: text) that must exist in the email account. */
+export const WALLETS_FIELD = "wallet_addresses";
+
 /** Rewrite a subscriber's wallets field (used by unlink / change-email). */
 export async function setSubscriberWallets(
-  apiKey: string,
+  provider: EmailProvider,
   subscriberId: string,
   walletsFieldValue: string,
 ): Promise<void> {
-  const { status } = await mlRequest(
-    apiKey,
-    "PUT",
-    `/subscribers/${encodeURIComponent(subscriberId)}`,
-    { fields: { [WALLETS_FIELD]: walletsFieldValue } },
-  );
-  if (status >= 400) throw new Error(`MailerLite update ${status}`);
+  await provider.updateFields(subscriberId, {
+    [WALLETS_FIELD]: walletsFieldValue,
+  });
 }
 
-/** Detach a subscriber from the payout-alerts group (no wallets left). */
-export async function removeFromGroup(
-  apiKey: string,
-  groupId: string,
+/**
+ * Mirror a subscriber's effective preferences (across all their linked wallets)
+ * into custom fields, for segments and automations to filter on.
+ */
+export async function syncSubscriberPreferences(
+  provider: EmailProvider,
   subscriberId: string,
+  map: LinkMap,
 ): Promise<void> {
-  const { status } = await mlRequest(
-    apiKey,
-    "DELETE",
-    `/subscribers/${encodeURIComponent(subscriberId)}/groups/${encodeURIComponent(groupId)}`,
+  await provider.updateFields(
+    subscriberId,
+    preferenceFields(subscriberPreferences(map, subscriberId)),
   );
-  // 404 = already detached; treat as success.
-  if (status >= 400 && status !== 404) {
-    throw new Error(`MailerLite group detach ${status}`);
-  }
+}
+
+/**
+ * Fire a trigger group's automation (payout funded, unclaimed reminder) for one
+ * subscriber. MailerLite only runs a "joins group" automation on a join, so a
+ * subscriber still in the group from an earlier send is detached and re-added.
+ */
+export async function triggerGroupAutomation(
+  provider: EmailProvider,
+  triggerGroupId: string,
+  subscriberId: string,
+): Promise<void> {
+  await provider.unsubscribe(subscriberId, triggerGroupId);
+  await provider.addToGroup(subscriberId, triggerGroupId);
 }
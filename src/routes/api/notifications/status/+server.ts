@@ -2,13 +2,13 @@
  * GET /api/notifications/status?wallet=0x…
  *
  * Read-only lookup for the UI: is this wallet linked to a payout-alert email,
- * and if so what does the masked address look like. Served entirely from the
- * link map — no MailerLite call, no signature needed (the map holds no PII;
- * masked emails are display-only).
+ * and if so what does the masked address look like, what is it sent, and is
+ * it paused. Served entirely from the link map — no MailerLite call, no
+ * signature needed (the map holds no PII; masked emails are display-only).
  */
 import { json, type RequestEvent } from "@sveltejs/kit";
-import { loadLinkMap } from "../service";
-import { mailerliteConfig } from "../service";
+import { linkPreferences } from "../lib";
+import { emailConfig, loadLinkMap } from "../service";
 
 export async function GET({ url }: RequestEvent) {
   const wallet = url.searchParams.get("wallet")?.toLowerCase();
@@ -17,7 +17,7 @@ export async function GET({ url }: RequestEvent) {
   }
 
   // Feature-flag signal for the UI: hide the card entirely when unconfigured.
-  if (!mailerliteConfig()) {
+  if (!emailConfig()) {
     return json({ configured: false, linked: false });
   }
 
@@ -27,5 +27,7 @@ export async function GET({ url }: RequestEvent) {
     configured: true,
     linked: !!link,
     emailMasked: link?.emailMasked ?? null,
+    preferences: link ? linkPreferences(link) : null,
+    paused: link?.paused === true,
   });
 }
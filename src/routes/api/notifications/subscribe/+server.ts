@@ -12,7 +12,9 @@
  *      field, attach the payout-alerts group
  *   3. if the wallet was previously linked to a DIFFERENT subscriber, strip it
  *      from that subscriber's field (change-email flow)
- *   4. record wallet -> { subscriberId, emailMasked } in the link map
+ *   4. record wallet -> { subscriberId, emailMasked } in the link map, keeping
+ *      any preferences the wallet already saved (re-linking resumes a paused
+ *      wallet), and mirror them to MailerLite
  */
 import { json, type RequestEvent } from "@sveltejs/kit";
 import {
@@ -27,17 +29,15 @@ import {
 } from "../lib";
 import {
   WALLETS_FIELD,
-  getSubscriber,
-  mailerliteConfig,
-  removeFromGroup,
+  emailConfig,
   setSubscriberWallets,
+  syncSubscriberPreferences,
   updateLinkMap,
-  upsertSubscriber,
   verifyWalletSignature,
 } from "../service";
 
 export async function POST({ request }: RequestEvent) {
-  const config = mailerliteConfig();
+  const config = emailConfig();
   if (!config) {
     return json({ error: "notifications_not_configured" }, { status: 503 });
   }
@@ -76,29 +76,34 @@ export async function POST({ request }: RequestEvent) {
 
     // Merge the wallet into the subscriber's existing wallet list (one email
     // may cover several wallets), then upsert with the group attached.
-    const existing = await getSubscriber(config.apiKey, normalizedEmail);
+    const existing = await config.provider.lookup(normalizedEmail);
     const mergedWallets = mergeWalletIntoField(
       existing?.fields?.[WALLETS_FIELD],
       wallet,
     );
-    const subscriber = await upsertSubscriber(
-      config.apiKey,
-      config.groupId,
+    const subscriber = await config.provider.subscribe(
       normalizedEmail,
-      mergedWallets,
+      { [WALLETS_FIELD]: mergedWallets },
+      config.groupId,
     );
 
     const emailMasked = maskEmail(normalizedEmail);
     let previousSubscriberId: string | null = null;
-    await updateLinkMap((map) => {
+    const linkMap = await updateLinkMap((map) => {
       const { map: next, previous } = applyLink(map, wallet, {
         subscriberId: subscriber.id,
         emailMasked,
         updatedAt: Date.now(),
+        preferences: map.links[wallet]?.preferences,
       });
       previousSubscriberId = previous?.subscriberId ?? null;
       return next;
     });
+    try {
+      await syncSubscriberPreferences(config.provider, subscriber.id, linkMap);
+    } catch (error) {
+      console.warn("payout-alerts: preferences sync failed:", error);
+    }
 
     // Change-email flow: the wallet moved to a new subscriber, so remove it
     // from the old one (and detach the old subscriber from the group if this
@@ -106,15 +111,17 @@ export async function POST({ request }: RequestEvent) {
     // extra notification, never a missing one.
     if (previousSubscriberId) {
       try {
-        const old = await getSubscriber(config.apiKey, previousSubscriberId);
+        const old = await config.provider.lookup(previousSubscriberId);
         if (old) {
           const remaining = removeWalletFromField(
             old.fields?.[WALLETS_FIELD],
             wallet,
           );
-          await setSubscriberWallets(config.apiKey, old.id, remaining);
+          await setSubscriberWallets(config.provider, old.id, remaining);
           if (remaining === "") {
-            await removeFromGroup(config.apiKey, config.groupId, old.id);
+            await config.provider.unsubscribe(old.id, config.groupId);
+          } else {
+            await syncSubscriberPreferences(config.provider, old.id, linkMap);
           }
         }
       } catch (error) {
@@ -0,0 +1,73 @@
+/**
+ * POST /api/notifications/unlink-all
+ *
+ * Unlinks every wallet sharing the caller's payout-alert email, from the
+ * /notifications page. Body: { walletAddress, issuedAt, signature }.
+ *
+ * The signature covers the canonical "unlink-all" message. Flow:
+ *   1. verify signature + freshness
+ *   2. drop every wallet on the caller's subscriber from the link map
+ *   3. clear the subscriber's wallet_addresses field and detach it from the
+ *      payout-alerts group (the email itself stays with MailerLite, which
+ *      owns unsubscribes)
+ */
+import { json, type RequestEvent } from "@sveltejs/kit";
+import { isIssuedAtFresh } from "$lib/utils/payoutAlertsMessage";
+import { applyUnlinkAll } from "../lib";
+import {
+  emailConfig,
+  setSubscriberWallets,
+  updateLinkMap,
+  verifyWalletSignature,
+} from "../service";
+
+export async function POST({ request }: RequestEvent) {
+  const config = emailConfig();
+  if (!config) {
+    return json({ error: "notifications_not_configured" }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json();
+    const { walletAddress, issuedAt, signature } = body ?? {};
+
+    if (
+      typeof walletAddress !== "string" ||
+      typeof issuedAt !== "string" ||
+      typeof signature !== "string" ||
+      !walletAddress.startsWith("0x")
+    ) {
+      return json({ error: "invalid_request" }, { status: 400 });
+    }
+    if (!isIssuedAtFresh(issuedAt, Date.now())) {
+      return json({ error: "stale_signature" }, { status: 400 });
+    }
+
+    const verified = await verifyWalletSignature(
+      { action: "unlink-all", walletAddress, issuedAt },
+      signature,
+    );
+    if (!verified) {
+      return json({ error: "invalid_signature" }, { status: 401 });
+    }
+
+    let subscriberId: string | null = null;
+    let removed: string[] = [];
+    await updateLinkMap((map) => {
+      const result = applyUnlinkAll(map, walletAddress);
+      subscriberId = result.subscriberId;
+      removed = result.removed;
+      return result.map;
+    });
+
+    if (subscriberId) {
+      await setSubscriberWallets(config.provider, subscriberId, "");
+      await config.provider.unsubscribe(subscriberId, config.groupId);
+    }
+
+    return json({ linked: false, removed });
+  } catch (err) {
+    console.error("payout-alerts unlink-all error:", err);
+    return json({ error: "unlink_all_failed" }, { status: 500 });
+  }
+}
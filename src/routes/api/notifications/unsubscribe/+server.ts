@@ -11,16 +11,15 @@ import { isIssuedAtFresh } from "$lib/utils/payoutAlertsMessage";
 import { applyUnlink, removeWalletFromField } from "../lib";
 import {
   WALLETS_FIELD,
-  getSubscriber,
-  mailerliteConfig,
-  removeFromGroup,
+  emailConfig,
   setSubscriberWallets,
+  syncSubscriberPreferences,
   updateLinkMap,
   verifyWalletSignature,
 } from "../service";
 
 export async function POST({ request }: RequestEvent) {
-  const config = mailerliteConfig();
+  const config = emailConfig();
   if (!config) {
     return json({ error: "notifications_not_configured" }, { status: 503 });
   }
@@ -52,25 +51,29 @@ export async function POST({ request }: RequestEvent) {
     const wallet = walletAddress.toLowerCase();
 
     let removedSubscriberId: string | null = null;
-    await updateLinkMap((map) => {
+    const linkMap = await updateLinkMap((map) => {
       const { map: next, removed } = applyUnlink(map, wallet);
       removedSubscriberId = removed?.subscriberId ?? null;
       return next;
     });
 
     if (removedSubscriberId) {
-      const subscriber = await getSubscriber(
-        config.apiKey,
-        removedSubscriberId,
-      );
+      const subscriber = await config.provider.lookup(removedSubscriberId);
       if (subscriber) {
         const remaining = removeWalletFromField(
           subscriber.fields?.[WALLETS_FIELD],
           wallet,
         );
-        await setSubscriberWallets(config.apiKey, subscriber.id, remaining);
+        await setSubscriberWallets(config.provider, subscriber.id, remaining);
         if (remaining === "") {
-          await removeFromGroup(config.apiKey, config.groupId, subscriber.id);
+          await config.provider.unsubscribe(subscriber.id, config.groupId);
+        } else {
+          // The unlinked wallet's preferences no longer count for this email.
+          await syncSubscriberPreferences(
+            config.provider,
+            subscriber.id,
+            linkMap,
+          );
         }
       }
     }
@@ -0,0 +1,67 @@
+/**
+ * POST /api/notifications/wallets
+ *
+ * Lists every wallet that shares the caller's payout-alert email, for the
+ * /notifications page. Body: { walletAddress, issuedAt, signature }.
+ *
+ * Which wallets belong to one person is private, so unlike ../status this is a
+ * signed request (the "list-wallets" message): only a wallet linked to the
+ * email can see the others. The list comes from the subscriber's
+ * wallet_addresses field, the same one payout alerts match on.
+ */
+import { json, type RequestEvent } from "@sveltejs/kit";
+import { isIssuedAtFresh } from "$lib/utils/payoutAlertsMessage";
+import { parseWalletsField } from "../lib";
+import {
+  WALLETS_FIELD,
+  emailConfig,
+  loadLinkMap,
+  verifyWalletSignature,
+} from "../service";
+
+export async function POST({ request }: RequestEvent) {
+  const config = emailConfig();
+  if (!config) {
+    return json({ error: "notifications_not_configured" }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json();
+    const { walletAddress, issuedAt, signature } = body ?? {};
+
+    if (
+      typeof walletAddress !== "string" ||
+      typeof issuedAt !== "string" ||
+      typeof signature !== "string" ||
+      !walletAddress.startsWith("0x")
+    ) {
+      return json({ error: "invalid_request" }, { status: 400 });
+    }
+    if (!isIssuedAtFresh(issuedAt, Date.now())) {
+      return json({ error: "stale_signature" }, { status: 400 });
+    }
+
+    const verified = await verifyWalletSignature(
+      { action: "list-wallets", walletAddress, issuedAt },
+      signature,
+    );
+    if (!verified) {
+      return json({ error: "invalid_signature" }, { status: 401 });
+    }
+
+    const link = (await loadLinkMap()).links[walletAddress.toLowerCase()];
+    const subscriber = link
+      ? await config.provider.lookup(link.subscriberId)
+      : null;
+    if (!subscriber) {
+      return json({ error: "not_linked" }, { status: 404 });
+    }
+
+    return json({
+      wallets: parseWalletsField(subscriber.fields?.[WALLETS_FIELD]),
+    });
+  } catch (err) {
+    console.error("payout-alerts wallets error:", err);
+    return json({ error: "wallets_failed" }, { status: 500 });
+  }
+}